@@ -0,0 +1,147 @@
+import type { SFCBlock, SFCDescriptor } from "@chibivue/compiler-sfc";
+import type { HmrContext, ModuleNode } from "vite";
+import type { ResolvedOptions } from ".";
+import { createDescriptor, getDescriptor, setPrevDescriptor } from "./utils/descriptorCache";
+import { isUseInlineTemplate } from "./script";
+
+/**
+ * Vite plugin `handleHotUpdate` hook. Diffs the previous and the new
+ * descriptor of the edited SFC and returns the modules that are affected:
+ *
+ * - template only: the main module, which re-exports the component with
+ *   `_rerender_only` so that the runtime only swaps the render function
+ * - script: the main module, which reloads the component, and the script
+ *   module if the script is requested separately
+ * - style: only the corresponding style modules
+ * - custom block: only the corresponding custom block module
+ */
+export async function handleHotUpdate(
+  { file, modules, read }: HmrContext,
+  options: ResolvedOptions,
+): Promise<ModuleNode[] | void> {
+  const prevDescriptor = getDescriptor(file, options, false);
+  if (!prevDescriptor) {
+    // file hasn't been requested yet (e.g. async component)
+    return;
+  }
+  setPrevDescriptor(file, prevDescriptor);
+
+  const content = await read();
+  const { descriptor } = createDescriptor(file, content, options);
+
+  const mainModule = modules.find((m) => !/type=/.test(m.url));
+  // only present when the script has a lang, e.g. `lang="ts"`
+  const scriptModule = modules.find((m) => /type=script/.test(m.url));
+  const affectedModules = new Set<ModuleNode | undefined>();
+
+  // the script and the template are both compiled into the main module
+  if (hasScriptChanged(prevDescriptor, descriptor)) {
+    affectedModules.add(scriptModule);
+    affectedModules.add(mainModule);
+  }
+  if (!isEqualBlock(descriptor.template, prevDescriptor.template)) {
+    // an inlined template is part of the script
+    if (isUseInlineTemplate(descriptor, options)) {
+      affectedModules.add(scriptModule);
+    }
+    affectedModules.add(mainModule);
+  }
+
+  // `v-bind()` in CSS is compiled into the script
+  if (prevDescriptor.cssVars.join("") !== descriptor.cssVars.join("")) {
+    affectedModules.add(scriptModule);
+    affectedModules.add(mainModule);
+  }
+
+  const prevStyles = prevDescriptor.styles;
+  const nextStyles = descriptor.styles;
+
+  // scoped styles add the scope id to the rendered elements
+  if (prevStyles.some((s) => s.scoped) !== nextStyles.some((s) => s.scoped)) {
+    affectedModules.add(mainModule);
+  }
+
+  for (let i = 0; i < nextStyles.length; i++) {
+    const prev = prevStyles[i];
+    const next = nextStyles[i];
+    if (!prev || !isEqualBlock(prev, next)) {
+      const mod = modules.find((m) => m.url.includes(`type=style&index=${i}`));
+      if (mod && prev) {
+        affectedModules.add(mod);
+        // the scoped flag, the module name and the lang are part of the
+        // style request
+        if (
+          !!prev.scoped !== !!next.scoped ||
+          prev.module !== next.module ||
+          prev.lang !== next.lang
+        ) {
+          affectedModules.add(mainModule);
+        }
+      } else {
+        // new style block, the main module has to import it
+        affectedModules.add(mainModule);
+      }
+    }
+  }
+  if (prevStyles.length > nextStyles.length) {
+    // removed style blocks are no longer imported
+    affectedModules.add(mainModule);
+  }
+
+  const prevCustoms = prevDescriptor.customBlocks;
+  const nextCustoms = descriptor.customBlocks;
+  if (prevCustoms.length !== nextCustoms.length) {
+    // added or removed custom blocks change the imports of the main module
+    affectedModules.add(mainModule);
+  } else {
+    for (let i = 0; i < nextCustoms.length; i++) {
+      const prev = prevCustoms[i];
+      const next = nextCustoms[i];
+      if (!isEqualBlock(prev, next)) {
+        const mod = modules.find((m) => m.url.includes(`type=${prev.type}&index=${i}`));
+        if (mod && prev.type === next.type) {
+          affectedModules.add(mod);
+        } else {
+          affectedModules.add(mainModule);
+        }
+      }
+    }
+  }
+
+  return [...affectedModules].filter(Boolean) as ModuleNode[];
+}
+
+/**
+ * Only the template changed and it is compiled separately from the script,
+ * so the component can be updated by swapping its render function.
+ */
+export function isOnlyTemplateChanged(
+  prev: SFCDescriptor,
+  next: SFCDescriptor,
+  options: ResolvedOptions,
+): boolean {
+  return (
+    !isUseInlineTemplate(next, options) &&
+    !hasScriptChanged(prev, next) &&
+    prev.styles.length === next.styles.length &&
+    prev.styles.every((s, i) => isEqualBlock(s, next.styles[i])) &&
+    prev.customBlocks.length === next.customBlocks.length &&
+    prev.customBlocks.every((b, i) => isEqualBlock(b, next.customBlocks[i]))
+  );
+}
+
+function hasScriptChanged(prev: SFCDescriptor, next: SFCDescriptor): boolean {
+  return (
+    !isEqualBlock(prev.script, next.script) || !isEqualBlock(prev.scriptSetup, next.scriptSetup)
+  );
+}
+
+function isEqualBlock(a: SFCBlock | null, b: SFCBlock | null): boolean {
+  if (!a && !b) return true;
+  if (!a || !b) return false;
+  if (a.content !== b.content) return false;
+  const keysA = Object.keys(a.attrs);
+  const keysB = Object.keys(b.attrs);
+  if (keysA.length !== keysB.length) return false;
+  return keysA.every((key) => a.attrs[key] === b.attrs[key]);
+}
@@ -1,14 +1,19 @@
 import * as _compiler from "@chibivue/compiler-sfc";
 
-import type { Plugin } from "vite";
+import type { Plugin, ViteDevServer } from "vite";
 import { createFilter } from "vite";
+import { handleHotUpdate } from "./handleHotUpdate";
 import { transformMain } from "./main";
+import { resolveScript } from "./script";
 import { parseChibiVueRequest } from "./utils/query";
+import { readSrcImport } from "./utils/srcImport";
 import { getDescriptor } from "./utils/descriptorCache";
 
 export interface ResolvedOptions {
   compiler: typeof _compiler;
   root: string;
+  isProduction: boolean;
+  devServer?: ViteDevServer;
 }
 
 export default function chibiVuePlugin(): Plugin {
@@ -16,38 +21,67 @@ export default function chibiVuePlugin(): Plugin {
   const options: ResolvedOptions = {
     compiler: _compiler,
     root: process.cwd(),
+    isProduction: process.env.NODE_ENV === "production",
   };
 
   return {
     name: "vite:chibivue",
 
+    configResolved(config) {
+      options.root = config.root;
+      options.isProduction = config.isProduction;
+    },
+
+    configureServer(server) {
+      options.devServer = server;
+    },
+
+    handleHotUpdate(ctx) {
+      if (!filter(ctx.file)) return;
+      return handleHotUpdate(ctx, options);
+    },
+
     // virtual modules
     resolveId(id) {
       if (parseChibiVueRequest(id).query.chibivue) return id;
     },
-    load(id) {
+    async load(id) {
       const { filename, query } = parseChibiVueRequest(id);
       if (query.chibivue) {
         const descriptor = getDescriptor(filename, options)!;
+        if (query.type === "script") {
+          const script = resolveScript(descriptor, options)!;
+          return { code: script.content, map: script.map };
+        }
         if (query.type === "style") {
+          // compiled in `transform`, after Vite has run the preprocessor
           const style = descriptor.styles[query.index!];
-          if (query.scoped) {
-            const { code } = options.compiler.compileStyle({
-              source: style.content,
-              filename,
-              id: descriptor.id,
-              scoped: true,
-            });
-            return { code };
+          if (style.src) {
+            return { code: await readSrcImport(style, descriptor, this) };
           }
           return { code: style.content };
         }
+        if (query.index != null) {
+          // custom block
+          return { code: descriptor.customBlocks[query.index].content };
+        }
       }
     },
 
-    transform(code, id, _) {
+    transform(code, id, opt) {
+      const { filename, query } = parseChibiVueRequest(id);
+      if (query.chibivue && query.type === "style") {
+        const descriptor = getDescriptor(filename, options)!;
+        const { code: css } = options.compiler.compileStyle({
+          source: code,
+          filename,
+          id: descriptor.id,
+          scoped: query.scoped,
+        });
+        return { code: css };
+      }
       if (!filter(id)) return;
-      return transformMain(code, id, options);
+      return transformMain(code, id, options, this, !!opt?.ssr);
     },
   };
 }
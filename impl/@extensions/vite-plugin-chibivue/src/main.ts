@@ -1,30 +1,58 @@
-import type { SFCDescriptor } from "@chibivue/compiler-sfc";
+import path from "node:path";
+import type { RawSourceMap, SFCDescriptor } from "@chibivue/compiler-sfc";
+import type { Rollup } from "vite";
 import type { ResolvedOptions } from ".";
-import { createDescriptor } from "./utils/descriptorCache";
+import { createDescriptor, getPrevDescriptor } from "./utils/descriptorCache";
+import { isOnlyTemplateChanged } from "./handleHotUpdate";
 import { isUseInlineTemplate, resolveScript } from "./script";
 import { transformTemplateInMain } from "./template";
+import { createRollupError } from "./utils/error";
+import { readSrcImport } from "./utils/srcImport";
 
 export async function transformMain(
   code: string,
   filename: string,
   options: ResolvedOptions,
-): Promise<{ code: string }> {
-  const { descriptor } = createDescriptor(filename, code, options);
+  pluginContext: Rollup.TransformPluginContext,
+  ssr: boolean,
+): Promise<{ code: string; map?: RawSourceMap }> {
+  const { descriptor, errors } = createDescriptor(filename, code, options);
+
+  if (errors.length) {
+    // `error()` aborts the transform, so the others are reported as warnings
+    errors.slice(1).forEach((error) => pluginContext.warn(createRollupError(filename, error)));
+    pluginContext.error(createRollupError(filename, errors[0]));
+  }
+
+  // <template src="...">
+  if (descriptor.template?.src) {
+    // trimmed like an inline template block
+    descriptor.template.content = (
+      await readSrcImport(descriptor.template, descriptor, pluginContext)
+    ).trim();
+    // the block map would point into the SFC rather than the imported file
+    descriptor.template.map = undefined;
+  }
 
   // Check if any style is scoped
   const hasScoped = descriptor.styles.some((s) => s.scoped);
 
   // script
-  const { code: scriptCode } = genScriptCode(descriptor, options);
+  const { code: scriptCode, map: scriptMap } = genScriptCode(descriptor, options);
 
   // template
-  const hasTemplateImport = descriptor.template && !isUseInlineTemplate(descriptor);
+  const hasTemplateImport = descriptor.template && !isUseInlineTemplate(descriptor, options);
 
   let templateCode = "";
+  let templateMap: RawSourceMap | undefined;
 
   if (hasTemplateImport) {
-    const { code } = genTemplateCode(descriptor, options, hasScoped);
-    templateCode = code;
+    ({ code: templateCode, map: templateMap } = genTemplateCode(
+      descriptor,
+      options,
+      pluginContext,
+      hasScoped,
+    ));
   }
 
   const attachedProps: [string, string][] = [];
@@ -33,22 +61,76 @@ export async function transformMain(
   }
 
   // styles
-  const stylesCode = await genStyleCode(descriptor);
+  const stylesCode = genStyleCode(descriptor, attachedProps);
 
-  const output: string[] = [scriptCode, templateCode, stylesCode];
+  // custom blocks
+  const customBlocksCode = genCustomBlockCode(descriptor);
+
+  const output: string[] = [scriptCode, templateCode, stylesCode, customBlocksCode];
   output.push("\n");
 
-  if (attachedProps.length) {
+  // attach to `_sfc_main` itself rather than a copy, so that HMR can update
+  // the object the component was created from
+  for (const [key, value] of attachedProps) {
+    output.push(`_sfc_main.${key} = ${value}`);
+  }
+
+  // HMR
+  if (options.devServer && !options.isProduction && !ssr) {
+    output.push(`_sfc_main.__hmrId = ${JSON.stringify(descriptor.id)}`);
+    output.push(`_sfc_main.__file = ${JSON.stringify(filename)}`);
+    output.push(
+      `typeof __VUE_HMR_RUNTIME__ !== "undefined" && ` +
+        `__VUE_HMR_RUNTIME__.createRecord(_sfc_main.__hmrId, _sfc_main)`,
+    );
+    // check if the template is the only thing that changed
+    const prevDescriptor = getPrevDescriptor(filename);
+    if (prevDescriptor && isOnlyTemplateChanged(prevDescriptor, descriptor, options)) {
+      output.push(`export const _rerender_only = true`);
+    }
     output.push(
-      `export default { ..._sfc_main, ${attachedProps.map(([k, v]) => `${k}: ${v}`).join(", ")} }`,
+      `import.meta.hot.accept(mod => {`,
+      `  if (!mod) return`,
+      `  const { default: updated, _rerender_only } = mod`,
+      `  if (_rerender_only) {`,
+      `    __VUE_HMR_RUNTIME__.rerender(updated.__hmrId, updated.render)`,
+      `  } else {`,
+      `    __VUE_HMR_RUNTIME__.reload(updated.__hmrId, updated)`,
+      `  }`,
+      `})`,
     );
-  } else {
-    output.push(`export default _sfc_main`);
   }
 
+  output.push(`export default _sfc_main`);
+
   const resolvedCode = output.join("\n");
 
-  return { code: resolvedCode };
+  // the template code follows the script code, so its mappings are shifted
+  // down by the number of lines the script code takes up
+  let resolvedMap: RawSourceMap | undefined;
+  if (scriptMap || templateMap) {
+    const generator = options.compiler.createSourceMapGenerator(filename);
+    const templateLineOffset = scriptCode.split(/\r?\n/).length;
+    for (const [map, lineOffset] of [
+      [scriptMap, 0],
+      [templateMap, templateLineOffset],
+    ] as const) {
+      if (!map) continue;
+      options.compiler.eachMapping(map, (m) =>
+        generator.addMapping({
+          ...m,
+          generated: { line: m.generated.line + lineOffset, column: m.generated.column },
+        }),
+      );
+      map.sources.forEach((source, i) => {
+        const content = map.sourcesContent?.[i];
+        if (content != null) generator.setSourceContent(source, content);
+      });
+    }
+    resolvedMap = generator.toJSON();
+  }
+
+  return { code: resolvedCode, map: resolvedMap };
 }
 
 function genScriptCode(
@@ -56,35 +138,95 @@ function genScriptCode(
   options: ResolvedOptions,
 ): {
   code: string;
+  map?: RawSourceMap;
 } {
   let scriptCode = `const _sfc_main = {}`;
+  let map: RawSourceMap | undefined;
   const script = resolveScript(descriptor, options);
   if (script) {
-    scriptCode = options.compiler.rewriteDefault(script.content, "_sfc_main");
+    const lang = script.lang;
+    if (lang && lang !== "js") {
+      // request the script as a separate module so that Vite transforms it
+      // according to its lang (e.g. strips TS)
+      const request = JSON.stringify(`${descriptor.filename}?chibivue&type=script&lang.${lang}`);
+      scriptCode = `import _sfc_main from ${request}\nexport * from ${request}`;
+    } else {
+      ({ code: scriptCode, map } = options.compiler.rewriteDefaultWithMap(
+        script.content,
+        "_sfc_main",
+        descriptor.filename,
+        script.map,
+      ));
+    }
   }
 
-  return { code: scriptCode };
+  return { code: scriptCode, map };
 }
 
-async function genStyleCode(descriptor: SFCDescriptor): Promise<string> {
+function genStyleCode(descriptor: SFCDescriptor, attachedProps: [string, string][]): string {
   let stylesCode = ``;
+  let cssModulesMap: Record<string, string> | undefined;
 
   for (let i = 0; i < descriptor.styles.length; i++) {
     const style = descriptor.styles[i];
     const src = descriptor.filename;
     const scoped = style.scoped ? "&scoped=true" : "";
-    const query = `?chibivue&type=style&index=${i}${scoped}&lang.css`;
-    const styleRequest = src + query;
-    stylesCode += `\nimport ${JSON.stringify(styleRequest)}`;
+    // keep the lang so that Vite runs the preprocessor, and mark CSS modules
+    // so that it returns the class map
+    const lang = style.lang || (style.src && path.extname(style.src).slice(1)) || "css";
+    const query = `?chibivue&type=style&index=${i}${scoped}&lang.${style.module ? "module." : ""}${lang}`;
+    const styleRequest = JSON.stringify(src + query);
+    if (style.module) {
+      const name = typeof style.module === "string" ? style.module : "$style";
+      const styleVar = `style${i}`;
+      stylesCode += `\nimport ${styleVar} from ${styleRequest}`;
+      (cssModulesMap ||= {})[name] = styleVar;
+    } else {
+      stylesCode += `\nimport ${styleRequest}`;
+    }
+  }
+
+  if (cssModulesMap) {
+    const mappingCode = Object.entries(cssModulesMap)
+      .map(([key, value]) => `${JSON.stringify(key)}:${value}`)
+      .join(",\n  ");
+    stylesCode += `\nconst cssModules = {\n  ${mappingCode}\n}`;
+    attachedProps.push(["__cssModules", "cssModules"]);
   }
 
   return stylesCode;
 }
 
-function genTemplateCode(descriptor: SFCDescriptor, options: ResolvedOptions, hasScoped: boolean) {
+function genCustomBlockCode(descriptor: SFCDescriptor): string {
+  let code = ``;
+
+  for (let i = 0; i < descriptor.customBlocks.length; i++) {
+    const block = descriptor.customBlocks[i];
+    const lang = block.lang ? `&lang.${block.lang}` : "";
+    const query = `?chibivue&type=${block.type}&index=${i}${lang}`;
+    const request = JSON.stringify(descriptor.filename + query);
+    // other plugins transform the block into a module whose default export
+    // receives the component
+    code += `\nimport block${i} from ${request}`;
+    code += `\nif (typeof block${i} === "function") block${i}(_sfc_main)`;
+  }
+
+  return code;
+}
+
+function genTemplateCode(
+  descriptor: SFCDescriptor,
+  options: ResolvedOptions,
+  pluginContext: Rollup.TransformPluginContext,
+  hasScoped: boolean,
+) {
   const template = descriptor.template!;
-  return transformTemplateInMain(template.content.trim(), options, {
+  return transformTemplateInMain(template.content, options, pluginContext, {
     id: descriptor.id,
     scoped: hasScoped,
+    filename: descriptor.filename,
+    inMap: template.map,
+    // the template reads the `<script setup>` bindings from the setup state
+    bindings: resolveScript(descriptor, options)?.bindings,
   });
 }
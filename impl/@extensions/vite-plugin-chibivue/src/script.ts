@@ -1,21 +1,32 @@
+import fs from "node:fs";
 import type { SFCDescriptor, SFCScriptBlock } from "@chibivue/compiler-sfc";
 import type { ResolvedOptions } from ".";
 
+// the main module and its template need the same compiled script
+const scriptCache = new WeakMap<SFCDescriptor, SFCScriptBlock | null>();
+
 export function resolveScript(
   descriptor: SFCDescriptor,
   options: ResolvedOptions,
 ): SFCScriptBlock | null {
   if (!descriptor.script && !descriptor.scriptSetup) return null;
+  const cached = scriptCache.get(descriptor);
+  if (cached !== undefined) return cached;
   let resolved: SFCScriptBlock | null = null;
   resolved = options.compiler.compileScript(descriptor, {
-    inlineTemplate: isUseInlineTemplate(descriptor),
+    inlineTemplate: isUseInlineTemplate(descriptor, options),
+    fs: {
+      fileExists: (file) => fs.existsSync(file),
+      readFile: (file) => fs.readFileSync(file, "utf-8"),
+    },
   });
+  scriptCache.set(descriptor, resolved);
   return resolved;
 }
 
 // Check if we can use compile template as inlined render function
 // inside <script setup>. This can only be done for build because
 // inlined template cannot be individually hot updated.
-export function isUseInlineTemplate(descriptor: SFCDescriptor): boolean {
-  return !!descriptor.scriptSetup;
+export function isUseInlineTemplate(descriptor: SFCDescriptor, options: ResolvedOptions): boolean {
+  return !options.devServer && !!descriptor.scriptSetup;
 }
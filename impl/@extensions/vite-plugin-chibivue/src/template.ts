@@ -1,17 +1,27 @@
-import type { SFCTemplateCompileResults } from "@chibivue/compiler-sfc";
+import type {
+  RawSourceMap,
+  SFCScriptBlock,
+  SFCTemplateCompileResults,
+} from "@chibivue/compiler-sfc";
+import type { Rollup } from "vite";
 import type { ResolvedOptions } from ".";
+import { createRollupError } from "./utils/error";
 
 export interface TemplateOptions {
   id?: string;
   scoped?: boolean;
+  filename?: string;
+  inMap?: RawSourceMap;
+  bindings?: SFCScriptBlock["bindings"];
 }
 
 export function transformTemplateInMain(
   code: string,
   options: ResolvedOptions,
+  pluginContext: Rollup.TransformPluginContext,
   templateOptions?: TemplateOptions,
 ): SFCTemplateCompileResults {
-  const result = compile(code, options, templateOptions);
+  const result = compile(code, options, pluginContext, templateOptions);
   return {
     ...result,
     code: result.code.replace(/\n(function|const) (render|ssrRender)/, "\n$1 _sfc_$2"),
@@ -21,11 +31,29 @@ export function transformTemplateInMain(
 export function compile(
   source: string,
   options: ResolvedOptions,
+  pluginContext: Rollup.TransformPluginContext,
   templateOptions?: TemplateOptions,
 ): SFCTemplateCompileResults {
-  return options.compiler.compileTemplate({
+  const filename = templateOptions?.filename;
+  const result = options.compiler.compileTemplate({
     source,
     id: templateOptions?.id,
     scoped: templateOptions?.scoped,
+    filename,
+    inMap: templateOptions?.inMap,
+    compilerOptions: { bindingMetadata: templateOptions?.bindings },
   });
+
+  if (filename) {
+    result.tips.forEach((tip) => pluginContext.warn({ id: filename, message: tip }));
+    if (result.errors.length) {
+      // `error()` aborts the transform, so the others are reported as warnings
+      result.errors
+        .slice(1)
+        .forEach((error) => pluginContext.warn(createRollupError(filename, error)));
+      pluginContext.error(createRollupError(filename, result.errors[0]));
+    }
+  }
+
+  return result;
 }
@@ -1,15 +1,10 @@
 import fs from "node:fs";
 import path from "node:path";
 import { createHash } from "node:crypto";
-import type { SFCDescriptor } from "@chibivue/compiler-sfc";
+import type { SFCDescriptor, SFCParseResult } from "@chibivue/compiler-sfc";
 
 import type { ResolvedOptions } from "..";
 
-// compiler-sfc should be exported so it can be re-used
-export interface SFCParseResult {
-  descriptor: SFCDescriptor;
-}
-
 const cache = new Map<string, SFCDescriptor>();
 const prevCache = new Map<string, SFCDescriptor | undefined>();
 
@@ -18,13 +13,13 @@ export function createDescriptor(
   source: string,
   { root, compiler }: ResolvedOptions,
 ): SFCParseResult {
-  const { descriptor } = compiler.parse(source, { filename });
+  const { descriptor, errors } = compiler.parse(source, { filename });
 
   const normalizedPath = path.normalize(path.relative(root, filename));
   descriptor.id = getHash(normalizedPath);
 
   cache.set(filename, descriptor);
-  return { descriptor };
+  return { descriptor, errors };
 }
 
 export function getPrevDescriptor(filename: string): SFCDescriptor | undefined {
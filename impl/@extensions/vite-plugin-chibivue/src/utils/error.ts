@@ -0,0 +1,26 @@
+import type { CompilerError } from "@chibivue/compiler-sfc";
+import type { Rollup } from "vite";
+
+export function createRollupError(
+  id: string,
+  error: CompilerError | SyntaxError,
+): Rollup.RollupError {
+  const { message, name, stack } = error;
+  const rollupError: Rollup.RollupError = {
+    id,
+    plugin: "vite:chibivue",
+    message,
+    name,
+    stack,
+  };
+
+  if ("loc" in error && error.loc) {
+    rollupError.loc = {
+      file: id,
+      line: error.loc.start.line,
+      column: error.loc.start.column,
+    };
+  }
+
+  return rollupError;
+}
@@ -1,6 +1,7 @@
 export interface ChibiVueQuery {
   chibivue?: boolean;
-  type?: "script" | "template" | "style";
+  // the tag name for custom blocks, e.g. "i18n"
+  type?: "script" | "template" | "style" | (string & {});
   index?: number;
   scoped?: boolean;
   raw?: boolean;
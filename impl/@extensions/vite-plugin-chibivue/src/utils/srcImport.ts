@@ -0,0 +1,22 @@
+import fs from "node:fs";
+import path from "node:path";
+import type { SFCBlock, SFCDescriptor } from "@chibivue/compiler-sfc";
+import type { Rollup } from "vite";
+
+/**
+ * Reads the file that the `src` attribute of `block` points to, e.g.
+ * `<template src="./foo.html">`, and registers it as a dependency so that
+ * editing it updates the module.
+ */
+export async function readSrcImport(
+  block: SFCBlock,
+  descriptor: SFCDescriptor,
+  pluginContext: Rollup.PluginContext,
+): Promise<string> {
+  const src = block.src!;
+  // aliases are resolved by Vite, relative paths are relative to the SFC
+  const resolved = await pluginContext.resolve(src, descriptor.filename);
+  const file = resolved ? resolved.id : path.resolve(path.dirname(descriptor.filename), src);
+  pluginContext.addWatchFile(file);
+  return fs.readFileSync(file, "utf-8");
+}
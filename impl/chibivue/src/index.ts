@@ -1,13 +1,27 @@
-import { type RenderFunction, registerRuntimeCompiler } from "@chibivue/runtime-core";
+import { type RenderFunction, registerRuntimeCompiler, warn } from "@chibivue/runtime-core";
 import * as runtimeDom from "@chibivue/runtime-dom";
+import { generateCodeFrame } from "@chibivue/shared";
 
-import type { CompilerOptions } from "@chibivue/compiler-core";
+import type { CompilerError, CompilerOptions } from "@chibivue/compiler-core";
 import { compile } from "@chibivue/compiler-dom";
 
 function compileToFunction(template: string, options?: CompilerOptions): RenderFunction {
-  const opts = { ...options, isBrowser: true } as CompilerOptions;
+  const opts = {
+    onError,
+    onWarn: (e) => onError(e, true),
+    ...options,
+    isBrowser: true,
+  } as CompilerOptions;
   const { code } = compile(template, opts);
   return new Function("ChibiVue", code)(runtimeDom);
+
+  // report every problem of the template with the lines it occurs at
+  function onError(err: CompilerError, asWarning = false) {
+    const message = asWarning ? err.message : `Template compilation error: ${err.message}`;
+    const codeFrame =
+      err.loc && generateCodeFrame(template, err.loc.start.offset, err.loc.end.offset);
+    warn(codeFrame ? `${message}\n${codeFrame}` : message);
+  }
 }
 
 registerRuntimeCompiler(compileToFunction);
@@ -1,10 +1,15 @@
 import { isString } from "@chibivue/shared";
 
 import {
+  CREATE_BLOCK,
+  CREATE_ELEMENT_BLOCK,
   CREATE_ELEMENT_VNODE,
+  type CREATE_SLOTS,
   CREATE_VNODE,
   type FRAGMENT,
+  OPEN_BLOCK,
   type RENDER_LIST,
+  type RENDER_SLOT,
   WITH_DIRECTIVES,
 } from "./runtimeHelpers";
 import type { TransformContext } from "./transform";
@@ -26,6 +31,7 @@ export const enum NodeTypes {
   IF,
   IF_BRANCH,
   FOR,
+  TEXT_CALL,
 
   // codegen
   VNODE_CALL,
@@ -45,6 +51,7 @@ export const enum NodeTypes {
 export const enum ElementTypes {
   ELEMENT,
   COMPONENT,
+  SLOT,
   TEMPLATE,
 }
 
@@ -73,12 +80,14 @@ export type TemplateChildNode =
   | ElementNode
   | TextNode
   | InterpolationNode
+  | CompoundExpressionNode
   | CommentNode
   | IfNode
   | IfBranchNode
-  | ForNode;
+  | ForNode
+  | TextCallNode;
 
-export type TemplateTextChildNode = TextNode | InterpolationNode;
+export type TemplateTextChildNode = TextNode | InterpolationNode | CompoundExpressionNode;
 
 export interface VNodeCall extends Node {
   type: NodeTypes.VNODE_CALL;
@@ -87,10 +96,15 @@ export interface VNodeCall extends Node {
   children:
     | TemplateChildNode[] // multiple children
     | ForRenderListExpression // v-for
+    | SlotsExpression // component slots
     | TemplateTextChildNode
     | SimpleExpressionNode // hoisted
     | undefined;
+  patchFlag: string | undefined;
+  dynamicProps: string | SimpleExpressionNode | undefined;
   directives: DirectiveArguments | undefined;
+  isBlock: boolean;
+  disableTracking: boolean;
   isComponent: boolean;
   isStatic?: boolean;
 }
@@ -181,12 +195,12 @@ export interface RootNode extends Node {
   codegenNode?: TemplateChildNode | VNodeCall | BlockStatement;
   helpers: Set<symbol>;
   components: string[];
-  hoists: (TemplateChildNode | ExpressionNode)[];
+  hoists: (JSChildNode | null)[];
   // SSR
   ssrHelpers?: symbol[];
 }
 
-export type ElementNode = PlainElementNode | ComponentNode | TemplateNode;
+export type ElementNode = PlainElementNode | ComponentNode | SlotOutletNode | TemplateNode;
 
 export interface BaseElementNode extends Node {
   type: NodeTypes.ELEMENT;
@@ -209,6 +223,11 @@ export interface TemplateNode extends BaseElementNode {
   codegenNode: undefined;
 }
 
+export interface SlotOutletNode extends BaseElementNode {
+  tagType: ElementTypes.SLOT;
+  codegenNode: RenderSlotCall | undefined;
+}
+
 export interface TextNode extends Node {
   type: NodeTypes.TEXT;
   content: string;
@@ -234,6 +253,11 @@ export interface SimpleExpressionNode extends Node {
   content: string;
   isStatic: boolean;
   identifiers?: string[];
+  /**
+   * an expression that has been hoisted keeps a reference to the hoisted node
+   * so that it can be replaced later (e.g. by static stringification).
+   */
+  hoisted?: JSChildNode;
 }
 
 export interface CompoundExpressionNode extends Node {
@@ -283,6 +307,12 @@ export interface ForNode extends Node {
   codegenNode?: ForCodegenNode;
 }
 
+export interface TextCallNode extends Node {
+  type: NodeTypes.TEXT_CALL;
+  content: TextNode | InterpolationNode | CompoundExpressionNode;
+  codegenNode: CallExpression | SimpleExpressionNode; // when hoisted
+}
+
 export interface AttributeNode extends Node {
   type: NodeTypes.ATTRIBUTE;
   name: string;
@@ -295,6 +325,11 @@ export interface DirectiveNode extends Node {
   exp: ExpressionNode | undefined;
   arg: ExpressionNode | undefined;
   modifiers: string[];
+  /**
+   * set by trackVForSlotScopes so that buildSlots can reuse the parse result
+   * of `<template v-slot v-for>`.
+   */
+  forParseResult?: ForParseResult;
 }
 
 // Codegen Node Types ----------------------------------------------------------
@@ -311,6 +346,64 @@ export interface DirectiveArgumentNode extends ArrayExpression {
     | [string, ExpressionNode, ExpressionNode, ObjectExpression];
 }
 
+export interface RenderSlotCall extends CallExpression {
+  callee: typeof RENDER_SLOT;
+  arguments: // $slots, name, props, fallback
+    | [string, string | ExpressionNode]
+    | [string, string | ExpressionNode, PropsExpression | "{}"]
+    | [string, string | ExpressionNode, PropsExpression | "{}", FunctionExpression];
+}
+
+export type SlotsExpression = SlotsObjectExpression | DynamicSlotsExpression;
+
+// { foo: () => [...] }
+export interface SlotsObjectExpression extends ObjectExpression {
+  properties: SlotsObjectProperty[];
+}
+
+export interface SlotsObjectProperty extends Property {
+  value: SlotFunctionExpression;
+}
+
+export interface SlotFunctionExpression extends FunctionExpression {
+  returns: TemplateChildNode[];
+}
+
+// createSlots({ ... }, [
+//    foo ? () => [] : undefined,
+//    renderList(list, i => () => [i])
+// ])
+export interface DynamicSlotsExpression extends CallExpression {
+  callee: typeof CREATE_SLOTS;
+  arguments: [SlotsObjectExpression, DynamicSlotEntries];
+}
+
+export interface DynamicSlotEntries extends ArrayExpression {
+  elements: (ConditionalDynamicSlotNode | ListDynamicSlotNode)[];
+}
+
+export interface ConditionalDynamicSlotNode extends ConditionalExpression {
+  consequent: DynamicSlotNode;
+  alternate: DynamicSlotNode | SimpleExpressionNode;
+}
+
+export interface ListDynamicSlotNode extends CallExpression {
+  callee: typeof RENDER_LIST;
+  arguments: [ExpressionNode, ListDynamicSlotIterator];
+}
+
+export interface ListDynamicSlotIterator extends FunctionExpression {
+  returns: DynamicSlotNode;
+}
+
+export interface DynamicSlotNode extends ObjectExpression {
+  properties: [Property, DynamicSlotFnProperty];
+}
+
+export interface DynamicSlotFnProperty extends Property {
+  value: SlotFunctionExpression;
+}
+
 export interface ForCodegenNode extends VNodeCall {
   isBlock: true;
   tag: typeof FRAGMENT;
@@ -354,12 +447,21 @@ export function createVNodeCall(
   tag: VNodeCall["tag"],
   props?: VNodeCall["props"],
   children?: VNodeCall["children"],
+  patchFlag?: VNodeCall["patchFlag"],
+  dynamicProps?: VNodeCall["dynamicProps"],
   directives?: VNodeCall["directives"],
+  isBlock: VNodeCall["isBlock"] = false,
+  disableTracking: VNodeCall["disableTracking"] = false,
   isComponent: VNodeCall["isComponent"] = false,
   loc: SourceLocation = locStub,
 ): VNodeCall {
   if (context) {
-    context.helper(getVNodeHelper(isComponent));
+    if (isBlock) {
+      context.helper(OPEN_BLOCK);
+      context.helper(getVNodeBlockHelper(isComponent));
+    } else {
+      context.helper(getVNodeHelper(isComponent));
+    }
     if (directives) {
       context.helper(WITH_DIRECTIVES);
     }
@@ -370,7 +472,11 @@ export function createVNodeCall(
     tag,
     props,
     children,
+    patchFlag,
+    dynamicProps,
     directives,
+    isBlock,
+    disableTracking,
     isComponent,
     loc,
   };
@@ -471,6 +577,21 @@ export function getVNodeHelper(
   return isComponent ? CREATE_VNODE : CREATE_ELEMENT_VNODE;
 }
 
+export function getVNodeBlockHelper(
+  isComponent: boolean,
+): typeof CREATE_BLOCK | typeof CREATE_ELEMENT_BLOCK {
+  return isComponent ? CREATE_BLOCK : CREATE_ELEMENT_BLOCK;
+}
+
+export function convertToBlock(node: VNodeCall, { helper, removeHelper }: TransformContext): void {
+  if (!node.isBlock) {
+    node.isBlock = true;
+    removeHelper(getVNodeHelper(node.isComponent));
+    helper(OPEN_BLOCK);
+    helper(getVNodeBlockHelper(node.isComponent));
+  }
+}
+
 export function createConditionalExpression(
   test: ConditionalExpression["test"],
   consequent: ConditionalExpression["consequent"],
@@ -17,19 +17,26 @@ import {
   type SimpleExpressionNode,
   type TemplateChildNode,
   type TemplateLiteral,
+  type Position,
   type TextNode,
   type VNodeCall,
+  getVNodeBlockHelper,
+  getVNodeHelper,
+  locStub,
 } from "./ast";
 import type { CodegenOptions } from "./options";
+import { type RawSourceMap, type SourceMapGenerator, createSourceMapGenerator } from "./sourceMap";
 import {
   CREATE_COMMENT,
-  CREATE_ELEMENT_VNODE,
+  OPEN_BLOCK,
   RESOLVE_COMPONENT,
   TO_DISPLAY_STRING,
+  WITH_CTX,
   WITH_DIRECTIVES,
   helperNameMap,
 } from "./runtimeHelpers";
 import { toValidAssetId } from "./transforms/transformElement";
+import { advancePositionWithMutation, isSimpleIdentifier } from "./utils";
 
 const aliasHelper = (s: symbol) => `${helperNameMap[s]}: _${helperNameMap[s]}`;
 
@@ -37,6 +44,7 @@ export interface CodegenResult {
   code: string;
   preamble: string;
   ast: RootNode;
+  map?: RawSourceMap;
 }
 
 type CodegenNode = TemplateChildNode | JSChildNode | TemplateLiteral | IfStatement | BlockStatement;
@@ -51,7 +59,7 @@ export interface CodegenContext {
   runtimeGlobalName: string;
   runtimeModuleName: string;
   inline?: boolean;
-  scopeId?: string;
+  scopeId?: string | null;
   ssr?: boolean;
   helper(key: symbol): string;
   push(code: string, node?: CodegenNode): void;
@@ -59,11 +67,18 @@ export interface CodegenContext {
   deindent(withoutNewLine?: boolean): void;
   newline(): void;
   isBrowser: boolean;
+  map?: SourceMapGenerator;
 }
 
 function createCodegenContext(
   ast: RootNode,
-  { isBrowser = false, scopeId, ssr = false }: CodegenOptions,
+  {
+    isBrowser = false,
+    scopeId,
+    ssr = false,
+    sourceMap = false,
+    filename = `template.vue.html`,
+  }: CodegenOptions,
 ): CodegenContext {
   const context: CodegenContext = {
     source: ast.loc.source,
@@ -80,8 +95,24 @@ function createCodegenContext(
     helper(key) {
       return `_${helperNameMap[key]}`;
     },
-    push(code) {
+    push(code, node) {
       context.code += code;
+      if (context.map) {
+        if (node) {
+          let name;
+          if (node.type === NodeTypes.SIMPLE_EXPRESSION && !node.isStatic) {
+            const content = node.content.replace(/^_ctx\./, "");
+            if (content !== node.content && isSimpleIdentifier(content)) {
+              name = content;
+            }
+          }
+          addMapping(node.loc.start, name);
+        }
+        advancePositionWithMutation(context, code);
+        if (node && node.loc !== locStub) {
+          addMapping(node.loc.end);
+        }
+      }
     },
     indent() {
       newline(++context.indentLevel);
@@ -102,6 +133,20 @@ function createCodegenContext(
     context.push("\n" + `  `.repeat(n));
   }
 
+  function addMapping(loc: Position, name?: string) {
+    context.map!.addMapping({
+      name,
+      source: filename,
+      original: { line: loc.line, column: loc.column - 1 },
+      generated: { line: context.line, column: context.column - 1 },
+    });
+  }
+
+  if (sourceMap) {
+    context.map = createSourceMapGenerator();
+    context.map.setSourceContent(filename, context.source);
+  }
+
   return context;
 }
 
@@ -110,6 +155,8 @@ export function generate(ast: RootNode, options: CodegenOptions): CodegenResult
     isBrowser: options.isBrowser,
     scopeId: options.scopeId,
     ssr: options.ssr,
+    sourceMap: options.sourceMap,
+    filename: options.filename,
   });
   const { push } = context;
   const isSetupInlined = !options.isBrowser && !!options.inline;
@@ -124,6 +171,9 @@ export function generate(ast: RootNode, options: CodegenOptions): CodegenResult
     genHoists(ast.hoists, preambleContext);
     preambleContext.newline();
   }
+  if (options.isBrowser) {
+    preambleContext.push(`return `);
+  }
 
   const functionName = ssr ? `ssrRender` : `render`;
   const args = ssr ? ["_ctx", "_push", "_parent", "_attrs"] : ["_ctx"];
@@ -154,6 +204,7 @@ export function generate(ast: RootNode, options: CodegenOptions): CodegenResult
     ast,
     preamble: isSetupInlined ? preambleContext.code : ``,
     code: context.code,
+    map: context.map ? context.map.toJSON() : undefined,
   };
 }
 
@@ -176,7 +227,6 @@ function genFunctionPreamble(ast: RootNode, context: CodegenContext) {
     push(`const { ${helpers.map(aliasHelper).join(", ")} } = _ChibiVue\n`);
   }
   newline();
-  if (isBrowser) push(`return `);
 }
 
 function genNode(node: CodegenNode | symbol | string, context: CodegenContext) {
@@ -197,6 +247,9 @@ function genNode(node: CodegenNode | symbol | string, context: CodegenContext) {
       genNode(node.codegenNode!, context);
       break;
     }
+    case NodeTypes.TEXT_CALL:
+      genNode(node.codegenNode, context);
+      break;
     case NodeTypes.TEXT:
       genText(node, context);
       break;
@@ -299,11 +352,18 @@ function genComment(node: CommentNode, context: CodegenContext) {
 
 function genVNodeCall(node: VNodeCall, context: CodegenContext) {
   const { push, helper, scopeId } = context;
-  const { tag, props, children, directives } = node;
+  const { tag, props, children, patchFlag, dynamicProps, directives, isBlock, disableTracking } =
+    node;
   if (directives) {
     push(helper(WITH_DIRECTIVES) + `(`);
   }
-  push(helper(CREATE_ELEMENT_VNODE) + `(`, node);
+  if (isBlock) {
+    push(`(${helper(OPEN_BLOCK)}(${disableTracking ? `true` : ``}), `);
+  }
+  const callHelper = isBlock
+    ? getVNodeBlockHelper(node.isComponent)
+    : getVNodeHelper(node.isComponent);
+  push(helper(callHelper) + `(`, node);
 
   // Add scopeId to props if present
   let propsWithScope = props;
@@ -315,12 +375,15 @@ function genVNodeCall(node: VNodeCall, context: CodegenContext) {
     } else {
       propsWithScope = `{ ${scopeIdProp} }` as any;
     }
-    genNodeList(genNullableArgs([tag, propsWithScope, children]), context);
+    genNodeList(genNullableArgs([tag, propsWithScope, children, patchFlag, dynamicProps]), context);
   } else {
-    genNodeList(genNullableArgs([tag, props, children]), context);
+    genNodeList(genNullableArgs([tag, props, children, patchFlag, dynamicProps]), context);
   }
 
   push(`)`);
+  if (isBlock) {
+    push(`)`);
+  }
   if (directives) {
     push(`, `);
     genNode(directives, context);
@@ -392,8 +455,12 @@ function genArrayExpression(node: ArrayExpression, context: CodegenContext) {
 
 function genFunctionExpression(node: FunctionExpression, context: CodegenContext) {
   const { push, indent, deindent } = context;
-  const { params, returns, body, newline } = node;
+  const { params, returns, body, newline, isSlot } = node;
 
+  if (isSlot) {
+    // wrap slot functions with owner context
+    push(`${context.helper(WITH_CTX)}(`);
+  }
   push(`(`, node);
   if (isArray(params)) {
     genNodeList(params, context);
@@ -421,6 +488,9 @@ function genFunctionExpression(node: FunctionExpression, context: CodegenContext
     deindent();
     push(`}`);
   }
+  if (isSlot) {
+    push(`)`);
+  }
 }
 
 function genConditionalExpression(node: ConditionalExpression, context: CodegenContext) {
@@ -503,7 +573,7 @@ function genAssets(assets: string[], { helper, push, newline }: CodegenContext)
   }
 }
 
-function genHoists(hoists: (TemplateChildNode | ExpressionNode)[], context: CodegenContext) {
+function genHoists(hoists: (JSChildNode | null)[], context: CodegenContext) {
   const { push, newline } = context;
   for (let i = 0; i < hoists.length; i++) {
     const exp = hoists[i];
@@ -8,6 +8,9 @@ import { type DirectiveTransform, type NodeTransform, transform } from "./transf
 import { transformElement } from "./transforms/transformElement";
 import { transformExpression } from "./transforms/transformExpression";
 import { transformFor } from "./transforms/vFor";
+import { transformSlotOutlet } from "./transforms/transformSlotOutlet";
+import { transformText } from "./transforms/transformText";
+import { trackSlotScopes, trackVForSlotScopes } from "./transforms/vSlot";
 
 import { transformBind } from "./transforms/vBind";
 import { transformOn } from "./transforms/vOn";
@@ -19,7 +22,16 @@ export type TransformPreset = [NodeTransform[], Record<string, DirectiveTransfor
 
 export function getBaseTransformPreset(): TransformPreset {
   return [
-    [transformIf, transformFor, transformExpression, transformElement],
+    [
+      transformIf,
+      transformFor,
+      trackVForSlotScopes,
+      transformExpression,
+      transformSlotOutlet,
+      transformElement,
+      trackSlotScopes,
+      transformText,
+    ],
     {
       on: transformOn,
       bind: transformBind,
@@ -36,6 +48,7 @@ export function baseCompile(template: string | RootNode, options: CompilerOption
   const [nodeTransforms, directiveTransforms] = getBaseTransformPreset();
   transform(ast, {
     ...options,
+    hoistStatic: options.hoistStatic ?? true,
     nodeTransforms: [...nodeTransforms, ...(options.nodeTransforms || [])],
     directiveTransforms: {
       ...directiveTransforms,
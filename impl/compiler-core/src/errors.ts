@@ -0,0 +1,105 @@
+import type { SourceLocation } from "./ast";
+
+export interface CompilerError extends SyntaxError {
+  code: number;
+  loc?: SourceLocation;
+}
+
+export interface CoreCompilerError extends CompilerError {
+  code: ErrorCodes;
+}
+
+export function defaultOnError(error: CompilerError): never {
+  throw error;
+}
+
+export function defaultOnWarn(msg: CompilerError): void {
+  console.warn(`[Vue warn] ${msg.message}`);
+}
+
+export function createCompilerError<T extends number>(
+  code: T,
+  loc?: SourceLocation,
+  messages?: { [code: number]: string },
+  additionalMessage?: string,
+): CompilerError & { code: T } {
+  const msg = (messages || errorMessages)[code] + (additionalMessage || ``);
+  const error = new SyntaxError(String(msg)) as CompilerError & { code: T };
+  error.code = code;
+  error.loc = loc;
+  return error;
+}
+
+export const enum ErrorCodes {
+  // parse errors
+  ABRUPT_CLOSING_OF_EMPTY_COMMENT,
+  DUPLICATE_ATTRIBUTE,
+  EOF_IN_COMMENT,
+  EOF_IN_TAG,
+  INCORRECTLY_CLOSED_COMMENT,
+  MISSING_ATTRIBUTE_VALUE,
+  NESTED_COMMENT,
+
+  // Vue-specific parse errors
+  X_INVALID_END_TAG,
+  X_MISSING_END_TAG,
+  X_MISSING_INTERPOLATION_END,
+  X_MISSING_DYNAMIC_DIRECTIVE_ARGUMENT_END,
+
+  // transform errors
+  X_V_IF_NO_EXPRESSION,
+  X_V_ELSE_NO_ADJACENT_IF,
+  X_V_FOR_NO_EXPRESSION,
+  X_V_FOR_MALFORMED_EXPRESSION,
+  X_V_BIND_NO_EXPRESSION,
+  X_V_ON_NO_EXPRESSION,
+  X_V_SLOT_MIXED_SLOT_USAGE,
+  X_V_SLOT_DUPLICATE_SLOT_NAMES,
+  X_V_SLOT_EXTRANEOUS_DEFAULT_SLOT_CHILDREN,
+  X_V_MODEL_NO_EXPRESSION,
+  X_V_MODEL_MALFORMED_EXPRESSION,
+
+  // Special value for higher-order compilers to pick up the last code
+  // to avoid collision of error codes. This should always be kept as the last
+  // item.
+  __EXTEND_POINT__,
+}
+
+export const errorMessages: Record<ErrorCodes, string> = {
+  // parse errors
+  [ErrorCodes.ABRUPT_CLOSING_OF_EMPTY_COMMENT]: "Illegal comment.",
+  [ErrorCodes.DUPLICATE_ATTRIBUTE]: "Duplicate attribute.",
+  [ErrorCodes.EOF_IN_COMMENT]: "Unexpected EOF in comment.",
+  [ErrorCodes.EOF_IN_TAG]: "Unexpected EOF in tag.",
+  [ErrorCodes.INCORRECTLY_CLOSED_COMMENT]: "Incorrectly closed comment.",
+  [ErrorCodes.MISSING_ATTRIBUTE_VALUE]: "Attribute value was expected.",
+  [ErrorCodes.NESTED_COMMENT]: "Unexpected '<!--' in comment.",
+
+  // Vue-specific parse errors
+  [ErrorCodes.X_INVALID_END_TAG]: "Invalid end tag.",
+  [ErrorCodes.X_MISSING_END_TAG]: "Element is missing end tag.",
+  [ErrorCodes.X_MISSING_INTERPOLATION_END]: "Interpolation end sign was not found.",
+  [ErrorCodes.X_MISSING_DYNAMIC_DIRECTIVE_ARGUMENT_END]:
+    "End bracket for dynamic directive argument was not found. " +
+    "Note that dynamic directive argument cannot contain spaces.",
+
+  // transform errors
+  [ErrorCodes.X_V_IF_NO_EXPRESSION]: `v-if/v-else-if is missing expression.`,
+  [ErrorCodes.X_V_ELSE_NO_ADJACENT_IF]: `v-else/v-else-if has no adjacent v-if or v-else-if.`,
+  [ErrorCodes.X_V_FOR_NO_EXPRESSION]: `v-for is missing expression.`,
+  [ErrorCodes.X_V_FOR_MALFORMED_EXPRESSION]: `v-for has invalid expression.`,
+  [ErrorCodes.X_V_BIND_NO_EXPRESSION]: `v-bind is missing expression.`,
+  [ErrorCodes.X_V_ON_NO_EXPRESSION]: `v-on is missing expression.`,
+  [ErrorCodes.X_V_SLOT_MIXED_SLOT_USAGE]:
+    `Mixed v-slot usage on both the component and nested <template>. ` +
+    `When there are multiple named slots, all slots should use <template> syntax.`,
+  [ErrorCodes.X_V_SLOT_DUPLICATE_SLOT_NAMES]: `Duplicate slot names found. `,
+  [ErrorCodes.X_V_SLOT_EXTRANEOUS_DEFAULT_SLOT_CHILDREN]:
+    `Extraneous children found when component already has explicitly named ` +
+    `default slot. These children will be ignored.`,
+  [ErrorCodes.X_V_MODEL_NO_EXPRESSION]: `v-model is missing expression.`,
+  [ErrorCodes.X_V_MODEL_MALFORMED_EXPRESSION]: `v-model value must be a valid JavaScript member expression.`,
+
+  // just to fulfill types
+  [ErrorCodes.__EXTEND_POINT__]: ``,
+};
@@ -1,23 +1,27 @@
 export { baseCompile } from "./compile";
-export { baseParse } from "./parse";
+export { baseParse, TextModes } from "./parse";
 
 export * from "./ast";
 export * from "./options";
+export * from "./errors";
 
 export * from "./transform";
 export { transformOn } from "./transforms/vOn";
 export { transformModel } from "./transforms/vModel";
 export { transformBind } from "./transforms/vBind";
-export { transformExpression } from "./transforms/transformExpression";
+export { transformExpression, processExpression } from "./transforms/transformExpression";
 export { toValidAssetId } from "./transforms/transformElement";
 export { processFor, createForLoopParams, type ForParseResult } from "./transforms/vFor";
 export { processIf } from "./transforms/vIf";
+export { buildSlots, trackSlotScopes, trackVForSlotScopes } from "./transforms/vSlot";
+export { transformSlotOutlet, processSlotOutlet } from "./transforms/transformSlotOutlet";
 export { ConstantTypes } from "./transforms/hoistStatic";
 
 export * from "./codegen";
+export * from "./sourceMap";
 export * from "./compile";
 
 export * from "./utils";
 export * from "./babelUtils";
 
-export { registerRuntimeHelpers } from "./runtimeHelpers";
+export { CREATE_STATIC, registerRuntimeHelpers } from "./runtimeHelpers";
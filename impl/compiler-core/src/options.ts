@@ -1,21 +1,49 @@
 import type { ElementNode } from "./ast";
+import type { CompilerError } from "./errors";
 import type { TextModes } from "./parse";
-import type { DirectiveTransform, NodeTransform } from "./transform";
+import type { DirectiveTransform, HoistTransform, NodeTransform } from "./transform";
 
-export interface ParserOptions {
+export interface ErrorHandlingOptions {
+  /**
+   * Called for every error found in the template. Throws by default; a handler
+   * that doesn't throw lets the compiler recover and report further errors.
+   */
+  onError?: (error: CompilerError) => void;
+  /**
+   * Called for problems that don't prevent compilation. Logs by default.
+   */
+  onWarn?: (warning: CompilerError) => void;
+}
+
+export interface ParserOptions extends ErrorHandlingOptions {
   isNativeTag?: (tag: string) => boolean;
+  /**
+   * e.g. `<img>`, which has no end tag and no children
+   */
+  isVoidTag?: (tag: string) => boolean;
   delimiters?: [string, string];
   decodeEntities?: (rawText: string, asAttr: boolean) => string;
   getTextMode?: (node: ElementNode, parent: ElementNode | undefined) => TextModes;
+  /**
+   * e.g. `<Transition>`, which is imported from the runtime instead of being
+   * resolved by name
+   */
+  isBuiltInComponent?: (tag: string) => symbol | void;
 }
 
-export interface TransformOptions extends SharedTransformCodegenOptions {
+export interface TransformOptions extends SharedTransformCodegenOptions, ErrorHandlingOptions {
   nodeTransforms?: NodeTransform[];
   directiveTransforms?: Record<string, DirectiveTransform | undefined>;
   inline?: boolean;
   bindingMetadata?: BindingMetadata;
   hoistStatic?: boolean;
+  /**
+   * called on the children of a node after its static children have been
+   * hoisted, e.g. to stringify long runs of static content.
+   */
+  transformHoist?: HoistTransform | null;
   prefixIdentifiers?: boolean;
+  isBuiltInComponent?: (tag: string) => symbol | void;
 }
 
 export type BindingMetadata = {
@@ -26,6 +54,11 @@ export type BindingMetadata = {
 
 interface SharedTransformCodegenOptions {
   isBrowser?: boolean;
+  scopeId?: string | null;
+  /**
+   * Compile for server-side rendering.
+   */
+  ssr?: boolean;
 }
 
 export const enum BindingTypes {
@@ -42,8 +75,14 @@ export const enum BindingTypes {
 
 export interface CodegenOptions extends SharedTransformCodegenOptions {
   inline?: boolean;
-  scopeId?: string;
-  ssr?: boolean;
+  /**
+   * Generate a source map for the render function.
+   */
+  sourceMap?: boolean;
+  /**
+   * Filename used as the source of the generated source map.
+   */
+  filename?: string;
 }
 
 export type CompilerOptions = ParserOptions & TransformOptions & CodegenOptions;
@@ -16,12 +16,14 @@ import {
   type TextNode,
   createRoot,
 } from "./ast";
+import { ErrorCodes, createCompilerError, defaultOnError, defaultOnWarn } from "./errors";
 import type { ParserOptions } from "./options";
 import { advancePositionWithClone, advancePositionWithMutation } from "./utils";
 
 type AttributeValue =
   | {
       content: string;
+      isQuoted: boolean;
       loc: SourceLocation;
     }
   | undefined;
@@ -42,7 +44,11 @@ export const defaultParserOptions: Required<ParserOptions> = {
   isNativeTag: (tag) => true,
   delimiters: [`{{`, `}}`],
   decodeEntities: (rawText: string): string => rawText.replace(decodeRE, (_, p1) => decodeMap[p1]),
+  isVoidTag: () => false,
   getTextMode: () => TextModes.DATA,
+  isBuiltInComponent: () => undefined,
+  onError: defaultOnError,
+  onWarn: defaultOnWarn,
 };
 
 export const enum TextModes {
@@ -110,6 +116,11 @@ function parseChildren(
           if (startsWith(s, "<!--")) {
             node = parseComment(context);
           }
+        } else if (s[1] === "/" && /[a-z]/i.test(s[2])) {
+          // an end tag of an ancestor would have ended the children already
+          emitError(context, ErrorCodes.X_INVALID_END_TAG);
+          parseTag(context, TagType.End);
+          continue;
         } else if (/[a-z]/i.test(s[1])) {
           node = parseElement(context, ancestors);
         }
@@ -141,13 +152,13 @@ function parseComment(context: ParserContext): CommentNode {
   if (!match) {
     content = context.source.slice(4);
     advanceBy(context, context.source.length);
-    throw new Error("EOF_IN_COMMENT"); // TODO: error handling
+    emitError(context, ErrorCodes.EOF_IN_COMMENT);
   } else {
     if (match.index <= 3) {
-      throw new Error("ABRUPT_CLOSING_OF_EMPTY_COMMENT"); // TODO: error handling
+      emitError(context, ErrorCodes.ABRUPT_CLOSING_OF_EMPTY_COMMENT);
     }
     if (match[1]) {
-      throw new Error("INCORRECTLY_CLOSED_COMMENT"); // TODO: error handling
+      emitError(context, ErrorCodes.INCORRECTLY_CLOSED_COMMENT);
     }
     content = context.source.slice(4, match.index);
 
@@ -157,7 +168,7 @@ function parseComment(context: ParserContext): CommentNode {
     while ((nestedIndex = s.indexOf("<!--", prevIndex)) !== -1) {
       advanceBy(context, nestedIndex - prevIndex + 1);
       if (nestedIndex + 4 < s.length) {
-        throw new Error("NESTED_COMMENT"); // TODO: error handling
+        emitError(context, ErrorCodes.NESTED_COMMENT);
       }
       prevIndex = nestedIndex + 1;
     }
@@ -176,8 +187,10 @@ function pushNode(nodes: TemplateChildNode[], node: TemplateChildNode): void {
     const prev = last(nodes);
     // Merge if both this and the previous node are text and those are
     // consecutive. This happens for cases like "a < b".
-    if (prev && prev.type === NodeTypes.TEXT) {
+    if (prev && prev.type === NodeTypes.TEXT && prev.loc.end.offset === node.loc.start.offset) {
       prev.content += node.content;
+      prev.loc.end = node.loc.end;
+      prev.loc.source += node.loc.source;
       return;
     }
   }
@@ -191,7 +204,11 @@ function parseInterpolation(
 ): InterpolationNode | undefined {
   const [open, close] = context.options.delimiters!;
   const closeIndex = context.source.indexOf(close, open.length);
-  if (closeIndex === -1) return undefined;
+  if (closeIndex === -1) {
+    // parsed as text instead
+    emitError(context, ErrorCodes.X_MISSING_INTERPOLATION_END);
+    return undefined;
+  }
 
   const start = getCursor(context);
   advanceBy(context, open.length);
@@ -255,7 +272,7 @@ function parseElement(context: ParserContext, ancestors: ElementNode[]): Element
     context.inVPre = true;
   }
 
-  if (element.isSelfClosing) {
+  if (element.isSelfClosing || context.options.isVoidTag!(element.tag)) {
     if (isPreBoundary) {
       context.inVPre = false;
     }
@@ -273,8 +290,12 @@ function parseElement(context: ParserContext, ancestors: ElementNode[]): Element
   // End tag.
   if (startsWithEndTagOpen(context.source, element.tag)) {
     parseTag(context, TagType.End);
+  } else {
+    emitError(context, ErrorCodes.X_MISSING_END_TAG, 0, element.loc.start);
   }
 
+  element.loc = getSelection(context, element.loc.start);
+
   // End of v-pre
   if (isPreBoundary) {
     context.inVPre = false;
@@ -302,13 +323,18 @@ function parseTag(context: ParserContext, type: TagType): ElementNode {
 
   // Tag close.
   let isSelfClosing = false;
-
-  isSelfClosing = startsWith(context.source, "/>");
-  advanceBy(context, isSelfClosing ? 2 : 1);
+  if (context.source.length === 0) {
+    emitError(context, ErrorCodes.EOF_IN_TAG);
+  } else {
+    isSelfClosing = startsWith(context.source, "/>");
+    advanceBy(context, isSelfClosing ? 2 : 1);
+  }
 
   let tagType = ElementTypes.ELEMENT;
 
-  if (tag === "template") {
+  if (tag === "slot") {
+    tagType = ElementTypes.SLOT;
+  } else if (tag === "template") {
     tagType = ElementTypes.TEMPLATE;
   } else if (isComponent(tag, props, context)) {
     tagType = ElementTypes.COMPONENT;
@@ -332,6 +358,9 @@ function isComponent(
   context: ParserContext,
 ) {
   const options = context.options;
+  if (options.isBuiltInComponent && options.isBuiltInComponent(tag)) {
+    return true;
+  }
   return options.isNativeTag && !options.isNativeTag(tag);
 }
 
@@ -369,6 +398,9 @@ function parseAttribute(
   const match = /^[^\t\r\n\f />][^\t\r\n\f />=]*/.exec(context.source)!;
   const name = match[0];
 
+  if (nameSet.has(name)) {
+    emitError(context, ErrorCodes.DUPLICATE_ATTRIBUTE);
+  }
   nameSet.add(name);
 
   advanceBy(context, name.length);
@@ -381,6 +413,9 @@ function parseAttribute(
     advanceBy(context, 1);
     advanceSpaces(context);
     value = parseAttributeValue(context);
+    if (!value) {
+      emitError(context, ErrorCodes.MISSING_ATTRIBUTE_VALUE);
+    }
   }
 
   // directive
@@ -407,12 +442,19 @@ function parseAttribute(
 
     let dirName =
       match[1] ||
-      (isPropShorthand || startsWith(name, ":") ? "bind" : startsWith(name, "@") ? "on" : "");
+      (isPropShorthand || startsWith(name, ":")
+        ? "bind"
+        : startsWith(name, "@")
+          ? "on"
+          : startsWith(name, "#")
+            ? "slot"
+            : "");
+    const isSlot = dirName === "slot";
 
     let arg: ExpressionNode | undefined;
 
     if (match[2]) {
-      const startOffset = name.lastIndexOf(match[2]);
+      const startOffset = name.lastIndexOf(match[2], name.length - (match[3]?.length || 0));
       const loc = getSelection(
         context,
         getNewPosition(context, start, startOffset),
@@ -424,11 +466,14 @@ function parseAttribute(
       if (content.startsWith("[")) {
         isStatic = false;
         if (!content.endsWith("]")) {
-          console.error(`Invalid dynamic argument expression: ${content}`);
+          emitError(context, ErrorCodes.X_MISSING_DYNAMIC_DIRECTIVE_ARGUMENT_END);
           content = content.slice(1);
         } else {
           content = content.slice(1, content.length - 1);
         }
+      } else if (isSlot) {
+        // slot names may contain dots (e.g. `#item.name`), and v-slot has no modifiers
+        content += match[3] || "";
       }
 
       arg = {
@@ -439,7 +484,18 @@ function parseAttribute(
       };
     }
 
-    const modifiers = match[3] ? match[3].slice(1).split(".") : [];
+    const modifiers = match[3] && !isSlot ? match[3].slice(1).split(".") : [];
+    // `.foo` is a shorthand for `:foo.prop`
+    if (isPropShorthand) modifiers.push("prop");
+
+    // the expression itself starts inside the quotes
+    if (value && value.isQuoted) {
+      const valueLoc = value.loc;
+      valueLoc.start.offset++;
+      valueLoc.start.column++;
+      valueLoc.end = advancePositionWithClone(valueLoc.start, value.content);
+      valueLoc.source = valueLoc.source.slice(1, -1);
+    }
 
     return {
       type: NodeTypes.DIRECTIVE,
@@ -494,7 +550,7 @@ function parseAttributeValue(context: ParserContext): AttributeValue {
     content = parseTextData(context, match[0].length, TextModes.ATTRIBUTE_VALUE);
   }
 
-  return { content, loc: getSelection(context, start) };
+  return { content, isQuoted, loc: getSelection(context, start) };
 }
 
 function advanceBy(context: ParserContext, numberOfCharacters: number): void {
@@ -589,6 +645,25 @@ function getNewPosition(
   );
 }
 
+function emitError(
+  context: ParserContext,
+  code: ErrorCodes,
+  offset?: number,
+  loc: Position = getCursor(context),
+): void {
+  if (offset) {
+    loc.offset += offset;
+    loc.column += offset;
+  }
+  context.options.onError!(
+    createCompilerError(code, {
+      start: loc,
+      end: loc,
+      source: "",
+    }),
+  );
+}
+
 function last<T>(xs: T[]): T | undefined {
   return xs[xs.length - 1];
 }
@@ -1,10 +1,18 @@
 export const FRAGMENT: unique symbol = Symbol();
+export const OPEN_BLOCK: unique symbol = Symbol();
+export const CREATE_BLOCK: unique symbol = Symbol();
+export const CREATE_ELEMENT_BLOCK: unique symbol = Symbol();
 export const CREATE_VNODE: unique symbol = Symbol();
 export const CREATE_ELEMENT_VNODE: unique symbol = Symbol();
 export const CREATE_COMMENT: unique symbol = Symbol();
+export const CREATE_TEXT: unique symbol = Symbol();
+export const CREATE_STATIC: unique symbol = Symbol();
 export const RESOLVE_COMPONENT: unique symbol = Symbol(``);
 export const WITH_DIRECTIVES: unique symbol = Symbol();
 export const RENDER_LIST: unique symbol = Symbol();
+export const RENDER_SLOT: unique symbol = Symbol();
+export const CREATE_SLOTS: unique symbol = Symbol();
+export const WITH_CTX: unique symbol = Symbol();
 export const TO_DISPLAY_STRING: unique symbol = Symbol();
 export const MERGE_PROPS: unique symbol = Symbol();
 export const NORMALIZE_CLASS: unique symbol = Symbol();
@@ -14,12 +22,19 @@ export const NORMALIZE_PROPS: unique symbol = Symbol();
 export const TO_HANDLERS: unique symbol = Symbol();
 export const TO_HANDLER_KEY: unique symbol = Symbol();
 export const UNREF: unique symbol = Symbol();
+export const IS_REF: unique symbol = Symbol();
+export const SET_BLOCK_TRACKING: unique symbol = Symbol();
 
 export const helperNameMap: Record<symbol, string> = {
   [FRAGMENT]: `Fragment`,
+  [OPEN_BLOCK]: `openBlock`,
+  [CREATE_BLOCK]: `createBlock`,
+  [CREATE_ELEMENT_BLOCK]: `createElementBlock`,
   [CREATE_VNODE]: `createVNode`,
   [CREATE_ELEMENT_VNODE]: `createElementVNode`,
   [CREATE_COMMENT]: `createCommentVNode`,
+  [CREATE_TEXT]: `createTextVNode`,
+  [CREATE_STATIC]: `createStaticVNode`,
   [RESOLVE_COMPONENT]: `resolveComponent`,
   [TO_DISPLAY_STRING]: `toDisplayString`,
   [MERGE_PROPS]: `mergeProps`,
@@ -30,7 +45,12 @@ export const helperNameMap: Record<symbol, string> = {
   [TO_HANDLER_KEY]: `toHandlerKey`,
   [WITH_DIRECTIVES]: `withDirectives`,
   [RENDER_LIST]: `renderList`,
+  [RENDER_SLOT]: `renderSlot`,
+  [CREATE_SLOTS]: `createSlots`,
+  [WITH_CTX]: `withCtx`,
   [UNREF]: `unref`,
+  [IS_REF]: `isRef`,
+  [SET_BLOCK_TRACKING]: `setBlockTracking`,
 };
 
 export function registerRuntimeHelpers(helpers: Record<symbol, string>): void {
@@ -0,0 +1,235 @@
+// A minimal Source Map V3 generator / consumer.
+// Only what the compilers need is implemented: recording mappings, encoding
+// them as base64 VLQ, iterating over the mappings of an existing map and
+// tracing generated positions back through a chain of maps.
+
+export interface RawSourceMap {
+  version: number;
+  file?: string;
+  sourceRoot?: string;
+  sources: string[];
+  sourcesContent?: string[];
+  names: string[];
+  mappings: string;
+}
+
+/**
+ * `line` is 1-based and `column` is 0-based, as in the `source-map` package.
+ */
+export interface MappingPosition {
+  line: number;
+  column: number;
+}
+
+export interface Mapping {
+  generated: MappingPosition;
+  original: MappingPosition;
+  source: string;
+  name?: string;
+}
+
+// [generatedColumn, sourceIndex, originalLine, originalColumn, nameIndex?]
+// all 0-based
+type Segment = [number, number, number, number] | [number, number, number, number, number];
+
+export interface SourceMapGenerator {
+  addMapping(mapping: Mapping): void;
+  setSourceContent(source: string, content: string): void;
+  toJSON(): RawSourceMap;
+}
+
+export function createSourceMapGenerator(file?: string): SourceMapGenerator {
+  const sources: string[] = [];
+  const sourcesContent: (string | null)[] = [];
+  const names: string[] = [];
+  const lines: Segment[][] = [];
+
+  const indexOf = (list: string[], value: string) => {
+    let i = list.indexOf(value);
+    if (i === -1) i = list.push(value) - 1;
+    return i;
+  };
+
+  return {
+    addMapping({ generated, original, source, name }) {
+      const line = (lines[generated.line - 1] ||= []);
+      const segment: Segment = [
+        generated.column,
+        indexOf(sources, source),
+        original.line - 1,
+        original.column,
+      ];
+      if (name != null) segment.push(indexOf(names, name));
+      // keep each line sorted by generated column
+      let i = line.length;
+      while (i > 0 && line[i - 1][0] > segment[0]) i--;
+      line.splice(i, 0, segment);
+    },
+    setSourceContent(source, content) {
+      sourcesContent[indexOf(sources, source)] = content;
+    },
+    toJSON() {
+      const map: RawSourceMap = {
+        version: 3,
+        sources: sources.slice(),
+        names: names.slice(),
+        mappings: encodeMappings(lines),
+      };
+      if (file != null) map.file = file;
+      if (sourcesContent.length) {
+        map.sourcesContent = sources.map((_, i) => sourcesContent[i] ?? null) as string[];
+      }
+      return map;
+    },
+  };
+}
+
+/**
+ * Calls `cb` for every mapping of `map` that points to a source, in generated
+ * order.
+ */
+export function eachMapping(map: RawSourceMap, cb: (mapping: Mapping) => void): void {
+  const lines = decodeMappings(map.mappings);
+  for (let i = 0; i < lines.length; i++) {
+    for (const segment of lines[i]) {
+      if (segment.length < 4) continue;
+      cb({
+        generated: { line: i + 1, column: segment[0] },
+        original: { line: segment[2]! + 1, column: segment[3]! },
+        source: map.sources[segment[1]!],
+        name: segment.length === 5 ? map.names[segment[4]!] : undefined,
+      });
+    }
+  }
+}
+
+/**
+ * Combines `map` (generated -> intermediate) with `inMap` (intermediate ->
+ * original) into a single map from generated code to the original source.
+ * Mappings that cannot be traced through `inMap` are dropped.
+ */
+export function mergeSourceMaps(map: RawSourceMap, inMap: RawSourceMap): RawSourceMap {
+  const generator = createSourceMapGenerator(map.file);
+  const inLines = decodeMappings(inMap.mappings);
+
+  eachMapping(map, (m) => {
+    const segment = findSegment(inLines[m.original.line - 1], m.original.column);
+    if (!segment || segment.length < 4) return;
+    generator.addMapping({
+      generated: m.generated,
+      original: { line: segment[2]! + 1, column: segment[3]! + (m.original.column - segment[0]) },
+      source: inMap.sources[segment[1]!],
+      name: m.name ?? (segment.length === 5 ? inMap.names[segment[4]!] : undefined),
+    });
+  });
+
+  inMap.sources.forEach((source, i) => {
+    const content = inMap.sourcesContent?.[i];
+    if (content != null) generator.setSourceContent(source, content);
+  });
+
+  return generator.toJSON();
+}
+
+// the closest segment at or before `column`
+function findSegment(line: number[][] | undefined, column: number): number[] | undefined {
+  if (!line) return;
+  let found: number[] | undefined;
+  for (const segment of line) {
+    if (segment[0] > column) break;
+    found = segment;
+  }
+  return found;
+}
+
+// base64 VLQ
+
+const chars = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+function encodeVLQ(value: number): string {
+  let vlq = value < 0 ? (-value << 1) | 1 : value << 1;
+  let result = "";
+  do {
+    let digit = vlq & 31;
+    vlq >>>= 5;
+    if (vlq > 0) digit |= 32;
+    result += chars[digit];
+  } while (vlq > 0);
+  return result;
+}
+
+function encodeMappings(lines: Segment[][]): string {
+  let prevSource = 0;
+  let prevOriginalLine = 0;
+  let prevOriginalColumn = 0;
+  let prevName = 0;
+  let result = "";
+
+  for (let i = 0; i < lines.length; i++) {
+    if (i > 0) result += ";";
+    const line = lines[i];
+    if (!line) continue;
+    let prevColumn = 0;
+    for (let j = 0; j < line.length; j++) {
+      const [column, source, originalLine, originalColumn, name] = line[j];
+      if (j > 0) result += ",";
+      result += encodeVLQ(column - prevColumn);
+      result += encodeVLQ(source - prevSource);
+      result += encodeVLQ(originalLine - prevOriginalLine);
+      result += encodeVLQ(originalColumn - prevOriginalColumn);
+      if (name != null) {
+        result += encodeVLQ(name - prevName);
+        prevName = name;
+      }
+      prevColumn = column;
+      prevSource = source;
+      prevOriginalLine = originalLine;
+      prevOriginalColumn = originalColumn;
+    }
+  }
+  return result;
+}
+
+function decodeMappings(mappings: string): number[][][] {
+  const lines: number[][][] = [];
+  const state = [0, 0, 0, 0, 0];
+  let line: number[][] = [];
+  let segment: number[] = [];
+  let value = 0;
+  let shift = 0;
+
+  const flushSegment = () => {
+    if (!segment.length) return;
+    state[0] = segment[0] + (line.length ? state[0] : 0);
+    const decoded = [state[0]];
+    for (let i = 1; i < segment.length; i++) {
+      state[i] += segment[i];
+      decoded.push(state[i]);
+    }
+    line.push(decoded);
+    segment = [];
+  };
+
+  for (let i = 0; i < mappings.length; i++) {
+    const char = mappings[i];
+    if (char === ";") {
+      flushSegment();
+      lines.push(line);
+      line = [];
+    } else if (char === ",") {
+      flushSegment();
+    } else {
+      const digit = chars.indexOf(char);
+      value += (digit & 31) << shift;
+      if (digit & 32) {
+        shift += 5;
+      } else {
+        segment.push(value & 1 ? -(value >>> 1) : value >>> 1);
+        value = shift = 0;
+      }
+    }
+  }
+  flushSegment();
+  lines.push(line);
+  return lines;
+}
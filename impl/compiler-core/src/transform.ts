@@ -1,8 +1,10 @@
-import { isArray, isString } from "@chibivue/shared";
+import { PatchFlagNames, PatchFlags, isArray, isString } from "@chibivue/shared";
 import {
   type DirectiveNode,
   type ElementNode,
+  ElementTypes,
   type ExpressionNode,
+  type JSChildNode,
   NodeTypes,
   type ParentNode,
   type Property,
@@ -12,9 +14,11 @@ import {
   createVNodeCall,
   createSimpleExpression,
 } from "./ast";
+import { defaultOnError, defaultOnWarn } from "./errors";
 import type { TransformOptions } from "./options";
 import { CREATE_COMMENT, FRAGMENT, TO_DISPLAY_STRING, helperNameMap } from "./runtimeHelpers";
 import { hoistStatic as hoistStaticTransform } from "./transforms/hoistStatic";
+import { isVSlot } from "./utils";
 
 export type NodeTransform = (
   node: RootNode | TemplateChildNode,
@@ -28,6 +32,12 @@ export type DirectiveTransform = (
   augmentor?: (ret: DirectiveTransformResult) => DirectiveTransformResult,
 ) => DirectiveTransformResult;
 
+export type HoistTransform = (
+  children: TemplateChildNode[],
+  context: TransformContext,
+  parent: ParentNode,
+) => void;
+
 export interface DirectiveTransformResult {
   props: Property[];
   needRuntime?: boolean | symbol;
@@ -42,7 +52,7 @@ export type StructuralDirectiveTransform = (
 export interface TransformContext extends Required<TransformOptions> {
   helpers: Map<symbol, number>;
   components: Set<string>;
-  hoists: (TemplateChildNode | ExpressionNode)[];
+  hoists: (JSChildNode | null)[];
   currentNode: RootNode | TemplateChildNode | null;
   identifiers: { [name: string]: number | undefined };
   scopes: {
@@ -52,13 +62,14 @@ export interface TransformContext extends Required<TransformOptions> {
   childIndex: number;
   inline: boolean;
   helper<T extends symbol>(name: T): T;
+  removeHelper<T extends symbol>(name: T): void;
   helperString(name: symbol): string;
   replaceNode(node: TemplateChildNode): void;
   removeNode(node?: TemplateChildNode): void;
   onNodeRemoved(): void;
   addIdentifiers(exp: ExpressionNode | string): void;
   removeIdentifiers(exp: ExpressionNode | string): void;
-  hoist(exp: TemplateChildNode | ExpressionNode): ExpressionNode;
+  hoist(exp: JSChildNode): SimpleExpressionNode;
 }
 
 export function createTransformContext(
@@ -69,12 +80,20 @@ export function createTransformContext(
     inline = false,
     bindingMetadata = Object.create(null),
     isBrowser = false,
+    scopeId = null,
+    ssr = false,
     hoistStatic = false,
+    transformHoist = null,
     prefixIdentifiers = false,
+    isBuiltInComponent = () => undefined,
+    onError = defaultOnError,
+    onWarn = defaultOnWarn,
   }: TransformOptions,
 ): TransformContext {
   const context: TransformContext = {
     isBrowser,
+    scopeId,
+    ssr,
     nodeTransforms,
     directiveTransforms,
     helpers: new Map(),
@@ -90,12 +109,27 @@ export function createTransformContext(
     bindingMetadata,
     inline,
     hoistStatic,
+    transformHoist,
     prefixIdentifiers,
+    isBuiltInComponent,
+    onError,
+    onWarn,
     helper(name) {
       const count = context.helpers.get(name) || 0;
       context.helpers.set(name, count + 1);
       return name;
     },
+    removeHelper(name) {
+      const count = context.helpers.get(name);
+      if (count) {
+        const currentCount = count - 1;
+        if (!currentCount) {
+          context.helpers.delete(name);
+        } else {
+          context.helpers.set(name, currentCount);
+        }
+      }
+    },
     helperString(name) {
       return `_${helperNameMap[context.helper(name)]}`;
     },
@@ -144,6 +178,7 @@ export function createTransformContext(
     hoist(exp) {
       context.hoists.push(exp);
       const identifier = createSimpleExpression(`_hoisted_${context.hoists.length}`, false);
+      identifier.hoisted = exp;
       return identifier;
     },
   };
@@ -177,7 +212,18 @@ export function transform(root: RootNode, options: TransformOptions): void {
 
 function createRootCodegen(root: RootNode, context: TransformContext) {
   const { helper } = context;
-  root.codegenNode = createVNodeCall(context, helper(FRAGMENT), undefined, root.children);
+  // the root is always a fragment block. its children never change order, so
+  // only the dynamic nodes collected in the block need to be patched.
+  root.codegenNode = createVNodeCall(
+    context,
+    helper(FRAGMENT),
+    undefined,
+    root.children,
+    `${PatchFlags.STABLE_FRAGMENT} /* ${PatchFlagNames[PatchFlags.STABLE_FRAGMENT]} */`,
+    undefined,
+    undefined,
+    true /* isBlock */,
+  );
 }
 
 export function traverseNode(node: RootNode | TemplateChildNode, context: TransformContext): void {
@@ -256,6 +302,11 @@ export function createStructuralDirectiveTransform(
   return (node, context) => {
     if (node.type === NodeTypes.ELEMENT) {
       const { props } = node;
+      // structural directive transforms are not concerned with slots
+      // as they are handled separately in vSlot.ts
+      if (node.tagType === ElementTypes.TEMPLATE && props.some(isVSlot)) {
+        return;
+      }
       const exitFns = [];
       for (let i = 0; i < props.length; i++) {
         const prop = props[i];
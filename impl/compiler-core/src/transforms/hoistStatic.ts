@@ -1,13 +1,17 @@
-import { NodeTypes } from "../ast";
+import { PatchFlagNames, PatchFlags, isString, isSymbol } from "@chibivue/shared";
+import { NodeTypes, getVNodeBlockHelper, getVNodeHelper } from "../ast";
 import type {
-  CallExpression,
-  ElementNode,
+  ObjectExpression,
+  ParentNode,
   PlainElementNode,
   RootNode,
+  SimpleExpressionNode,
   TemplateChildNode,
   VNodeCall,
 } from "../ast";
+import { OPEN_BLOCK } from "../runtimeHelpers";
 import type { TransformContext } from "../transform";
+import { isStaticExp } from "../utils";
 
 export const enum ConstantTypes {
   NOT_CONSTANT = 0,
@@ -17,16 +21,24 @@ export const enum ConstantTypes {
 }
 
 export function hoistStatic(root: RootNode, context: TransformContext): void {
-  walk(root, context, new Map());
+  walk(
+    root,
+    context,
+    new Map(),
+    // the single root element receives the fallthrough attrs of the parent,
+    // so it can't be shared between renders
+    root.children.length === 1 && root.children[0].type === NodeTypes.ELEMENT,
+  );
 }
 
 function walk(
-  node: RootNode | TemplateChildNode,
+  node: ParentNode,
   context: TransformContext,
   resultCache: Map<TemplateChildNode, ConstantTypes>,
+  doNotHoistNode = false,
 ): void {
-  const { children } = node as RootNode | ElementNode;
-  if (!children) return;
+  const { children } = node;
+  let hoistedCount = 0;
 
   for (let i = 0; i < children.length; i++) {
     const child = children[i];
@@ -34,30 +46,76 @@ function walk(
       child.type === NodeTypes.ELEMENT &&
       child.tagType === 0 // ElementTypes.ELEMENT
     ) {
-      const constantType = getConstantType(child, context, resultCache);
+      const constantType = doNotHoistNode
+        ? ConstantTypes.NOT_CONSTANT
+        : getConstantType(child, context, resultCache);
       if (constantType > ConstantTypes.NOT_CONSTANT) {
         if (constantType >= ConstantTypes.CAN_HOIST) {
           const codegenNode = child.codegenNode as VNodeCall | undefined;
           if (codegenNode && codegenNode.type === NodeTypes.VNODE_CALL) {
             codegenNode.isStatic = true;
-            context.hoists.push(codegenNode as unknown as TemplateChildNode);
-            child.codegenNode = context.hoist(
-              codegenNode as unknown as TemplateChildNode,
-            ) as unknown as VNodeCall;
+            codegenNode.patchFlag = `${PatchFlags.CACHED} /* ${PatchFlagNames[PatchFlags.CACHED]} */`;
+            child.codegenNode = context.hoist(codegenNode);
+            hoistedCount++;
+            continue;
           }
         }
       } else {
-        walk(child, context, resultCache);
+        // the element itself is dynamic, but its props may still be static.
+        const codegenNode = child.codegenNode;
+        if (codegenNode && codegenNode.type === NodeTypes.VNODE_CALL) {
+          const flag = getPatchFlag(codegenNode);
+          if (
+            (!flag || flag === PatchFlags.NEED_PATCH || flag === PatchFlags.TEXT) &&
+            codegenNode.props &&
+            codegenNode.props.type === NodeTypes.JS_OBJECT_EXPRESSION &&
+            isStaticProps(codegenNode.props)
+          ) {
+            codegenNode.props = context.hoist(codegenNode.props);
+          }
+        }
       }
+      walk(child, context, resultCache);
+    } else if (child.type === NodeTypes.FOR) {
+      // the single child of a v-for or v-if branch has to be a block
+      walk(child, context, resultCache, child.children.length === 1);
+    } else if (child.type === NodeTypes.IF) {
+      for (let j = 0; j < child.branches.length; j++) {
+        const branch = child.branches[j];
+        walk(branch, context, resultCache, branch.children.length === 1);
+      }
+    }
+  }
+
+  if (hoistedCount && context.transformHoist) {
+    context.transformHoist(children, context, node);
+  }
+}
+
+function getPatchFlag(node: VNodeCall): number | undefined {
+  const flag = node.patchFlag;
+  return flag ? parseInt(flag, 10) : undefined;
+}
+
+function isStaticProps(props: ObjectExpression): boolean {
+  for (let i = 0; i < props.properties.length; i++) {
+    const { key, value } = props.properties[i];
+    if (!isStaticExp(key) || !isStaticExp(value)) {
+      return false;
     }
   }
+  return true;
 }
 
 export function getConstantType(
-  node: TemplateChildNode,
+  node: TemplateChildNode | SimpleExpressionNode,
   context: TransformContext,
   resultCache: Map<TemplateChildNode, ConstantTypes>,
 ): ConstantTypes {
+  if (node.type === NodeTypes.SIMPLE_EXPRESSION) {
+    return node.isStatic ? ConstantTypes.CAN_STRINGIFY : ConstantTypes.NOT_CONSTANT;
+  }
+
   const cached = resultCache.get(node);
   if (cached !== undefined) {
     return cached;
@@ -78,6 +136,14 @@ export function getConstantType(
       return ConstantTypes.NOT_CONSTANT;
     }
 
+    // a patch flag means the element must be patched on every render (e.g. it
+    // has a ref), so it can't be shared between renders.
+    const flag = getPatchFlag(codegenNode);
+    if (flag !== undefined && flag > 0) {
+      resultCache.set(node, ConstantTypes.NOT_CONSTANT);
+      return ConstantTypes.NOT_CONSTANT;
+    }
+
     // Check if it has dynamic props
     if (codegenNode.props) {
       const propsType = codegenNode.props.type;
@@ -123,6 +189,19 @@ export function getConstantType(
       }
     }
 
+    // only svg, foreignObject and math are blocks for a reason that does not
+    // apply to static content, so they can be turned back into plain vnodes.
+    if (codegenNode.isBlock) {
+      if (element.tag !== "svg" && element.tag !== "foreignObject" && element.tag !== "math") {
+        resultCache.set(node, ConstantTypes.NOT_CONSTANT);
+        return ConstantTypes.NOT_CONSTANT;
+      }
+      context.removeHelper(OPEN_BLOCK);
+      context.removeHelper(getVNodeBlockHelper(codegenNode.isComponent));
+      codegenNode.isBlock = false;
+      context.helper(getVNodeHelper(codegenNode.isComponent));
+    }
+
     resultCache.set(node, ConstantTypes.CAN_HOIST);
     return ConstantTypes.CAN_HOIST;
   }
@@ -137,6 +216,29 @@ export function getConstantType(
     return ConstantTypes.NOT_CONSTANT;
   }
 
+  if (node.type === NodeTypes.TEXT_CALL) {
+    return getConstantType(node.content, context, resultCache);
+  }
+
+  if (node.type === NodeTypes.COMPOUND_EXPRESSION) {
+    let returnType = ConstantTypes.CAN_STRINGIFY;
+    for (let i = 0; i < node.children.length; i++) {
+      const child = node.children[i];
+      if (isString(child) || isSymbol(child)) {
+        continue;
+      }
+      const childType = getConstantType(child, context, resultCache);
+      if (childType === ConstantTypes.NOT_CONSTANT) {
+        resultCache.set(node, ConstantTypes.NOT_CONSTANT);
+        return ConstantTypes.NOT_CONSTANT;
+      } else if (childType < returnType) {
+        returnType = childType;
+      }
+    }
+    resultCache.set(node, returnType);
+    return returnType;
+  }
+
   resultCache.set(node, ConstantTypes.NOT_CONSTANT);
   return ConstantTypes.NOT_CONSTANT;
 }
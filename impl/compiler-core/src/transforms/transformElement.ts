@@ -1,4 +1,4 @@
-import { isSymbol } from "@chibivue/shared";
+import { PatchFlagNames, PatchFlags, isSymbol } from "@chibivue/shared";
 
 import {
   type ArrayExpression,
@@ -11,6 +11,7 @@ import {
   type ExpressionNode,
   NodeTypes,
   type ObjectExpression,
+  type Property,
   type TemplateTextChildNode,
   type VNodeCall,
   createArrayExpression,
@@ -30,7 +31,9 @@ import {
   TO_HANDLERS,
 } from "../runtimeHelpers";
 import type { NodeTransform, TransformContext } from "../transform";
-import { isStaticExp } from "../utils";
+import { isStaticArgOf, isStaticExp } from "../utils";
+import { ConstantTypes, getConstantType } from "./hoistStatic";
+import { buildSlots } from "./vSlot";
 
 const directiveImportMap = new WeakMap<DirectiveNode, symbol>();
 
@@ -58,11 +61,25 @@ export const transformElement: NodeTransform = (node, context) => {
     let vnodeProps: VNodeCall["props"];
     let vnodeDirectives: VNodeCall["directives"];
     let vnodeChildren: VNodeCall["children"];
+    let vnodePatchFlag: VNodeCall["patchFlag"];
+    let patchFlag: number = 0;
+    let vnodeDynamicProps: VNodeCall["dynamicProps"];
+    let dynamicPropNames: string[] | undefined;
+
+    const shouldUseBlock =
+      // Teleport and Suspense children are patched by their own logic, so
+      // they always need to be blocks.
+      (isComponent && (tag === "Teleport" || tag === "Suspense" || tag === "KeepAlive")) ||
+      // <svg> and <foreignObject> must be blocks so that the renderer can
+      // switch namespaces when patching their dynamic children.
+      (!isComponent && (tag === "svg" || tag === "foreignObject" || tag === "math"));
 
     // props
     if (props.length > 0) {
-      const propsBuildResult = buildProps(node, context);
+      const propsBuildResult = buildProps(node, context, undefined, isComponent);
       vnodeProps = propsBuildResult.props;
+      patchFlag = propsBuildResult.patchFlag;
+      dynamicPropNames = propsBuildResult.dynamicPropNames;
 
       const directives = propsBuildResult.directives;
       vnodeDirectives = directives.length
@@ -74,11 +91,27 @@ export const transformElement: NodeTransform = (node, context) => {
 
     // children
     if (node.children.length > 0) {
-      if (node.children.length === 1) {
+      // Teleport and KeepAlive receive raw children instead of slots
+      const shouldBuildAsSlots = isComponent && tag !== "Teleport" && tag !== "KeepAlive";
+
+      if (shouldBuildAsSlots) {
+        const { slots, hasDynamicSlots } = buildSlots(node, context);
+        vnodeChildren = slots;
+        if (hasDynamicSlots) {
+          patchFlag |= PatchFlags.DYNAMIC_SLOTS;
+        }
+      } else if (node.children.length === 1) {
         const child = node.children[0];
         const type = child.type;
         // check for dynamic text children
-        const hasDynamicTextChild = type === NodeTypes.INTERPOLATION;
+        const hasDynamicTextChild =
+          type === NodeTypes.INTERPOLATION || type === NodeTypes.COMPOUND_EXPRESSION;
+        if (
+          hasDynamicTextChild &&
+          getConstantType(child, context, new Map()) === ConstantTypes.NOT_CONSTANT
+        ) {
+          patchFlag |= PatchFlags.TEXT;
+        }
 
         // pass directly if the only child is a text node
         // (plain / interpolation / expression)
@@ -92,13 +125,26 @@ export const transformElement: NodeTransform = (node, context) => {
       }
     }
 
+    // patchFlag & dynamicPropNames
+    if (patchFlag !== 0) {
+      vnodePatchFlag = stringifyPatchFlag(patchFlag);
+      if (dynamicPropNames && dynamicPropNames.length) {
+        vnodeDynamicProps = stringifyDynamicPropNames(dynamicPropNames);
+      }
+    }
+
     node.codegenNode = createVNodeCall(
       context,
       vnodeTag,
       vnodeProps,
       vnodeChildren,
+      vnodePatchFlag,
+      vnodeDynamicProps,
       vnodeDirectives,
+      !!shouldUseBlock,
+      false /* disableTracking */,
       isComponent,
+      node.loc,
     );
   };
 };
@@ -106,12 +152,62 @@ export const transformElement: NodeTransform = (node, context) => {
 export function buildProps(
   node: ElementNode,
   context: TransformContext,
-): { props: PropsExpression | undefined; directives: DirectiveNode[] } {
-  const { props, loc: elementLoc } = node;
+  props: ElementNode["props"] = node.props,
+  isComponent: boolean = node.tagType === ElementTypes.COMPONENT,
+): {
+  props: PropsExpression | undefined;
+  directives: DirectiveNode[];
+  patchFlag: number;
+  dynamicPropNames: string[];
+} {
+  const { loc: elementLoc } = node;
   let properties: ObjectExpression["properties"] = [];
   const runtimeDirectives: DirectiveNode[] = [];
   const mergeArgs: PropsExpression[] = [];
 
+  // patchFlag analysis
+  let patchFlag = 0;
+  let hasRef = false;
+  let hasClassBinding = false;
+  let hasStyleBinding = false;
+  let hasDynamicKeys = false;
+  const dynamicPropNames: string[] = [];
+
+  const analyzePatchFlag = ({ key, value }: Property) => {
+    if (isStaticExp(key)) {
+      const name = key.content;
+      if (
+        (value.type === NodeTypes.SIMPLE_EXPRESSION ||
+          value.type === NodeTypes.COMPOUND_EXPRESSION) &&
+        getConstantType(value, context, new Map()) > ConstantTypes.NOT_CONSTANT
+      ) {
+        // skip if the prop has a constant value
+        return;
+      }
+
+      if (name === "ref") {
+        hasRef = true;
+      } else if (name === "class") {
+        hasClassBinding = true;
+      } else if (name === "style") {
+        hasStyleBinding = true;
+      } else if (name !== "key" && !dynamicPropNames.includes(name)) {
+        dynamicPropNames.push(name);
+      }
+
+      // treat the dynamic class & style binding of a component as dynamic props
+      if (
+        isComponent &&
+        (name === "class" || name === "style") &&
+        !dynamicPropNames.includes(name)
+      ) {
+        dynamicPropNames.push(name);
+      }
+    } else {
+      hasDynamicKeys = true;
+    }
+  };
+
   const pushMergeArg = (arg?: PropsExpression) => {
     if (properties.length) {
       mergeArgs.push(createObjectExpression(properties, elementLoc));
@@ -124,10 +220,41 @@ export function buildProps(
     const prop = props[i];
     if (prop.type === NodeTypes.ATTRIBUTE) {
       const { name, value } = prop;
+      let isStatic = true;
+      if (name === "ref") {
+        hasRef = true;
+        if (context.scopes.vFor > 0) {
+          properties.push(
+            createObjectProperty(
+              createSimpleExpression("ref_for", true),
+              createSimpleExpression("true"),
+            ),
+          );
+        }
+        // in inline mode there is no setupState object, so we can't use string
+        // keys to set the ref. Instead, we need to transform it to pass the
+        // actual ref instead.
+        if (value && context.inline) {
+          const binding = context.bindingMetadata[value.content];
+          if (
+            binding === BindingTypes.SETUP_LET ||
+            binding === BindingTypes.SETUP_REF ||
+            binding === BindingTypes.SETUP_MAYBE_REF
+          ) {
+            isStatic = false;
+            properties.push(
+              createObjectProperty(
+                createSimpleExpression("ref_key", true),
+                createSimpleExpression(value.content, true),
+              ),
+            );
+          }
+        }
+      }
       properties.push(
         createObjectProperty(
           createSimpleExpression(name, true),
-          createSimpleExpression(value ? value.content : "", true),
+          createSimpleExpression(value ? value.content : "", isStatic),
         ),
       );
     } else {
@@ -139,6 +266,7 @@ export function buildProps(
       // special case for v-bind and v-on with no argument
       if (!arg && (isVBind || isVOn)) {
         if (exp) {
+          hasDynamicKeys = true;
           if (isVBind) {
             pushMergeArg();
             mergeArgs.push(exp);
@@ -155,10 +283,21 @@ export function buildProps(
         continue;
       }
 
+      // a dynamic ref inside v-for is collected into an array as well
+      if (isVBind && isStaticArgOf(arg, "ref") && context.scopes.vFor > 0) {
+        properties.push(
+          createObjectProperty(
+            createSimpleExpression("ref_for", true),
+            createSimpleExpression("true"),
+          ),
+        );
+      }
+
       const directiveTransform = context.directiveTransforms[name];
       if (directiveTransform) {
         // has built-in directive transform.
         const { props, needRuntime } = directiveTransform(prop, node, context);
+        props.forEach(analyzePatchFlag);
         if (isVOn && arg && !isStaticExp(arg)) {
           pushMergeArg(createObjectExpression(props, elementLoc));
         } else {
@@ -174,6 +313,26 @@ export function buildProps(
     }
   }
 
+  if (hasDynamicKeys) {
+    patchFlag |= PatchFlags.FULL_PROPS;
+  } else {
+    if (hasClassBinding && !isComponent) {
+      patchFlag |= PatchFlags.CLASS;
+    }
+    if (hasStyleBinding && !isComponent) {
+      patchFlag |= PatchFlags.STYLE;
+    }
+    if (dynamicPropNames.length) {
+      patchFlag |= PatchFlags.PROPS;
+    }
+  }
+  if (
+    (patchFlag === 0 || patchFlag === PatchFlags.NEED_HYDRATION) &&
+    (hasRef || runtimeDirectives.length > 0)
+  ) {
+    patchFlag |= PatchFlags.NEED_PATCH;
+  }
+
   let propsExpression: PropsExpression | undefined = undefined;
 
   // has v-bind="object" or v-on="object", wrap with mergeProps
@@ -210,21 +369,22 @@ export function buildProps(
         const classProp = propsExpression.properties[classKeyIndex];
         const styleProp = propsExpression.properties[styleKeyIndex];
 
-        if (classProp && !isStaticExp(classProp.value)) {
-          classProp.value = createCallExpression(context.helper(NORMALIZE_CLASS), [
-            classProp.value,
-          ]);
-        }
-
-        if (
-          styleProp &&
-          ((styleProp.value.type === NodeTypes.SIMPLE_EXPRESSION &&
-            styleProp.value.content.trim()[0] === `[`) ||
-            styleProp.value.type === NodeTypes.JS_ARRAY_EXPRESSION)
-        ) {
-          styleProp.value = createCallExpression(context.helper(NORMALIZE_STYLE), [
-            styleProp.value,
-          ]);
+        if (!hasDynamicKeys) {
+          if (classProp && !isStaticExp(classProp.value)) {
+            classProp.value = createCallExpression(context.helper(NORMALIZE_CLASS), [
+              classProp.value,
+            ]);
+          }
+          if (
+            styleProp &&
+            ((styleProp.value.type === NodeTypes.SIMPLE_EXPRESSION &&
+              styleProp.value.content.trim()[0] === `[`) ||
+              styleProp.value.type === NodeTypes.JS_ARRAY_EXPRESSION)
+          ) {
+            styleProp.value = createCallExpression(context.helper(NORMALIZE_STYLE), [
+              styleProp.value,
+            ]);
+          }
         } else {
           // dynamic key binding, wrap with `normalizeProps`
           propsExpression = createCallExpression(context.helper(NORMALIZE_PROPS), [
@@ -247,9 +407,29 @@ export function buildProps(
   return {
     props: propsExpression,
     directives: runtimeDirectives,
+    patchFlag,
+    dynamicPropNames,
   };
 }
 
+function stringifyPatchFlag(patchFlag: number): string {
+  const flagNames = Object.keys(PatchFlagNames)
+    .map(Number)
+    .filter((n) => n > 0 && patchFlag & n)
+    .map((n) => PatchFlagNames[n as PatchFlags])
+    .join(`, `);
+  return `${patchFlag} /* ${flagNames} */`;
+}
+
+function stringifyDynamicPropNames(props: string[]): string {
+  let propsNamesString = `[`;
+  for (let i = 0, l = props.length; i < l; i++) {
+    propsNamesString += JSON.stringify(props[i]);
+    if (i < l - 1) propsNamesString += ", ";
+  }
+  return propsNamesString + `]`;
+}
+
 export function buildDirectiveArgs(dir: DirectiveNode, context: TransformContext): ArrayExpression {
   const dirArgs: ArrayExpression["elements"] = [];
   const runtime = directiveImportMap.get(dir);
@@ -263,22 +443,47 @@ export function buildDirectiveArgs(dir: DirectiveNode, context: TransformContext
     }
     dirArgs.push(dir.arg);
   }
+  if (dir.modifiers.length) {
+    if (!dir.arg) {
+      if (!dir.exp) {
+        dirArgs.push(`void 0`);
+      }
+      dirArgs.push(`void 0`);
+    }
+    const trueExpression = createSimpleExpression(`true`, false, dir.loc);
+    dirArgs.push(
+      createObjectExpression(
+        dir.modifiers.map((modifier) => createObjectProperty(modifier, trueExpression)),
+        dir.loc,
+      ),
+    );
+  }
   return createArrayExpression(dirArgs, dir.loc);
 }
 
-export function resolveComponentType(node: ComponentNode, context: TransformContext): string {
+export function resolveComponentType(
+  node: ComponentNode,
+  context: TransformContext,
+): string | symbol {
   let { tag } = node;
 
   // TODO: 1. dynamic component
 
   // TODO: 1.5 v-is (TODO: Deprecate)
 
-  // TODO: 2. built-in components (Teleport, Transition, KeepAlive, Suspense...)
+  // 2. built-in components provided by the platform (Transition, TransitionGroup)
+  const builtIn = context.isBuiltInComponent(tag);
+  if (builtIn) {
+    context.helper(builtIn);
+    return builtIn;
+  }
 
   // 3. user component (from setup bindings)
   const fromSetup = resolveSetupReference(tag, context);
   if (fromSetup) {
-    return fromSetup;
+    // a template compiled separately from `<script setup>` reads it from the
+    // setup state
+    return context.inline ? fromSetup : `_ctx.${fromSetup}`;
   }
 
   // TODO: 4. Self referencing component (inferred from filename)
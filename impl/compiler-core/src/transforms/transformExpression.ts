@@ -28,7 +28,12 @@ export const transformExpression: NodeTransform = (node, ctx) => {
         const exp = dir.exp;
         const arg = dir.arg;
         if (exp && exp.type === NodeTypes.SIMPLE_EXPRESSION && !(dir.name === "on" && arg)) {
-          dir.exp = processExpression(exp, ctx);
+          dir.exp = processExpression(
+            exp,
+            ctx,
+            // slot args must be processed as function params
+            dir.name === "slot",
+          );
         }
         if (arg && arg.type === NodeTypes.SIMPLE_EXPRESSION && !arg.isStatic) {
           dir.arg = processExpression(arg, ctx);
@@ -74,6 +79,9 @@ export function processExpression(
         return isAssignmentLVal || isUpdateArg
           ? `${raw}.value`
           : `${ctx.helperString(UNREF)}(${raw})`;
+      } else if (type === BindingTypes.SETUP_LET) {
+        // a `let` may hold a ref, or be reassigned
+        return isAssignmentLVal || isUpdateArg ? raw : `${ctx.helperString(UNREF)}(${raw})`;
       } else if (type === BindingTypes.PROPS) {
         return genPropsAccessExp(raw);
       }
@@ -0,0 +1,95 @@
+import { camelize } from "@chibivue/shared";
+
+import {
+  type CallExpression,
+  type ExpressionNode,
+  NodeTypes,
+  type SlotOutletNode,
+  createCallExpression,
+  createFunctionExpression,
+} from "../ast";
+import { RENDER_SLOT } from "../runtimeHelpers";
+import type { NodeTransform, TransformContext } from "../transform";
+import { isSlotOutlet, isStaticArgOf, isStaticExp } from "../utils";
+import { type PropsExpression, buildProps } from "./transformElement";
+
+export const transformSlotOutlet: NodeTransform = (node, context) => {
+  if (isSlotOutlet(node)) {
+    const { children, loc } = node;
+    const { slotName, slotProps } = processSlotOutlet(node, context);
+
+    const slotArgs: CallExpression["arguments"] = [
+      context.isBrowser ? `$slots` : `_ctx.$slots`,
+      slotName,
+      "{}",
+      "undefined",
+    ];
+    let expectedLen = 2;
+
+    if (slotProps) {
+      slotArgs[2] = slotProps;
+      expectedLen = 3;
+    }
+
+    if (children.length) {
+      // fallback content
+      slotArgs[3] = createFunctionExpression([], children, false, false, loc);
+      expectedLen = 4;
+    }
+
+    slotArgs.splice(expectedLen); // remove unused arguments
+
+    node.codegenNode = createCallExpression(
+      context.helper(RENDER_SLOT),
+      slotArgs,
+      loc,
+    ) as SlotOutletNode["codegenNode"];
+  }
+};
+
+interface SlotOutletProcessResult {
+  slotName: string | ExpressionNode;
+  slotProps: PropsExpression | undefined;
+}
+
+export function processSlotOutlet(
+  node: SlotOutletNode,
+  context: TransformContext,
+): SlotOutletProcessResult {
+  let slotName: string | ExpressionNode = `"default"`;
+  let slotProps: PropsExpression | undefined = undefined;
+
+  const nonNameProps = [];
+  for (let i = 0; i < node.props.length; i++) {
+    const p = node.props[i];
+    if (p.type === NodeTypes.ATTRIBUTE) {
+      if (p.value) {
+        if (p.name === "name") {
+          slotName = JSON.stringify(p.value.content);
+        } else {
+          p.name = camelize(p.name);
+          nonNameProps.push(p);
+        }
+      }
+    } else {
+      if (p.name === "bind" && isStaticArgOf(p.arg, "name")) {
+        if (p.exp) slotName = p.exp;
+      } else {
+        if (p.name === "bind" && p.arg && isStaticExp(p.arg)) {
+          p.arg.content = camelize(p.arg.content);
+        }
+        nonNameProps.push(p);
+      }
+    }
+  }
+
+  if (nonNameProps.length > 0) {
+    const { props } = buildProps(node, context, nonNameProps);
+    slotProps = props;
+  }
+
+  return {
+    slotName,
+    slotProps,
+  };
+}
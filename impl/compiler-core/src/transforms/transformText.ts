@@ -0,0 +1,91 @@
+import { PatchFlagNames, PatchFlags } from "@chibivue/shared";
+import {
+  type CallExpression,
+  type CompoundExpressionNode,
+  ElementTypes,
+  NodeTypes,
+  createCallExpression,
+  createCompoundExpression,
+} from "../ast";
+import { CREATE_TEXT } from "../runtimeHelpers";
+import type { NodeTransform } from "../transform";
+import { isText } from "../utils";
+import { ConstantTypes, getConstantType } from "./hoistStatic";
+
+// Merge adjacent text nodes and expressions into a single expression
+// e.g. <div>abc {{ d }} {{ e }}</div> should have a single expression node as child.
+export const transformText: NodeTransform = (node, context) => {
+  if (
+    node.type === NodeTypes.ROOT ||
+    node.type === NodeTypes.ELEMENT ||
+    node.type === NodeTypes.FOR ||
+    node.type === NodeTypes.IF_BRANCH
+  ) {
+    // perform the transform on node exit so that all expressions have already
+    // been processed.
+    return () => {
+      const children = node.children;
+      let currentContainer: CompoundExpressionNode | undefined = undefined;
+      let hasText = false;
+
+      for (let i = 0; i < children.length; i++) {
+        const child = children[i];
+        if (isText(child)) {
+          hasText = true;
+          for (let j = i + 1; j < children.length; j++) {
+            const next = children[j];
+            if (isText(next)) {
+              if (!currentContainer) {
+                currentContainer = children[i] = createCompoundExpression([child], child.loc);
+              }
+              // merge adjacent text node into current
+              currentContainer.children.push(` + `, next);
+              children.splice(j, 1);
+              j--;
+            } else {
+              currentContainer = undefined;
+              break;
+            }
+          }
+        }
+      }
+
+      if (
+        !hasText ||
+        // if this is a plain element with a single text child, leave it
+        // as-is since the runtime has dedicated fast path for this by directly
+        // setting textContent of the element.
+        (children.length === 1 &&
+          node.type === NodeTypes.ELEMENT &&
+          node.tagType === ElementTypes.ELEMENT)
+      ) {
+        return;
+      }
+
+      // pre-convert text nodes into createTextVNode(text) calls to avoid
+      // runtime normalization. dynamic ones are flagged so that they are
+      // tracked by the enclosing block.
+      for (let i = 0; i < children.length; i++) {
+        const child = children[i];
+        if (isText(child) || child.type === NodeTypes.COMPOUND_EXPRESSION) {
+          const callArgs: CallExpression["arguments"] = [];
+          // createTextVNode defaults to single whitespace, so if it is a
+          // single space the code could be an empty call to save bytes.
+          if (child.type !== NodeTypes.TEXT || child.content !== " ") {
+            callArgs.push(child);
+          }
+          // mark dynamic text with flag so it gets patched inside a block
+          if (getConstantType(child, context, new Map()) === ConstantTypes.NOT_CONSTANT) {
+            callArgs.push(`${PatchFlags.TEXT} /* ${PatchFlagNames[PatchFlags.TEXT]} */`);
+          }
+          children[i] = {
+            type: NodeTypes.TEXT_CALL,
+            content: child,
+            loc: child.loc,
+            codegenNode: createCallExpression(context.helper(CREATE_TEXT), callArgs),
+          };
+        }
+      }
+    };
+  }
+};
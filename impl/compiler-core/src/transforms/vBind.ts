@@ -1,9 +1,15 @@
-import { NodeTypes, createObjectProperty } from "../ast";
+import {
+  type ExpressionNode,
+  NodeTypes,
+  createObjectProperty,
+  createSimpleExpression,
+} from "../ast";
+import { ErrorCodes, createCompilerError } from "../errors";
 import type { DirectiveTransform } from "../transform";
 
 // *with* args.
-export const transformBind: DirectiveTransform = (dir, _node, _context) => {
-  const { exp } = dir;
+export const transformBind: DirectiveTransform = (dir, _node, context) => {
+  const { exp, modifiers, loc } = dir;
   const arg = dir.arg!;
 
   if (arg.type !== NodeTypes.SIMPLE_EXPRESSION) {
@@ -13,5 +19,36 @@ export const transformBind: DirectiveTransform = (dir, _node, _context) => {
     arg.content = `${arg.content} || ""`;
   }
 
-  return { props: [createObjectProperty(arg, exp!)] };
+  // `.prop` / `.attr` force the runtime to set the binding as a DOM property /
+  // an attribute. the runtime reads the choice from the prefix of the key.
+  if (!context.ssr) {
+    if (modifiers.includes("prop")) {
+      injectPrefix(arg, ".");
+    }
+    if (modifiers.includes("attr")) {
+      injectPrefix(arg, "^");
+    }
+  }
+
+  if (!exp || (exp.type === NodeTypes.SIMPLE_EXPRESSION && !exp.content.trim())) {
+    context.onError(createCompilerError(ErrorCodes.X_V_BIND_NO_EXPRESSION, loc));
+    return {
+      props: [createObjectProperty(arg, createSimpleExpression("", true, loc))],
+    };
+  }
+
+  return { props: [createObjectProperty(arg, exp)] };
+};
+
+const injectPrefix = (arg: ExpressionNode, prefix: string) => {
+  if (arg.type === NodeTypes.SIMPLE_EXPRESSION) {
+    if (arg.isStatic) {
+      arg.content = prefix + arg.content;
+    } else {
+      arg.content = `\`${prefix}\${${arg.content}}\``;
+    }
+  } else {
+    arg.children.unshift(`'${prefix}' + (`);
+    arg.children.push(`)`);
+  }
 };
@@ -1,3 +1,4 @@
+import { PatchFlagNames, PatchFlags } from "@chibivue/shared";
 import {
   type DirectiveNode,
   type ElementNode,
@@ -10,18 +11,20 @@ import {
   type SimpleExpressionNode,
   type SourceLocation,
   type VNodeCall,
+  convertToBlock,
   createCallExpression,
   createFunctionExpression,
   createSimpleExpression,
   createVNodeCall,
 } from "../ast";
+import { ErrorCodes, createCompilerError } from "../errors";
 import { FRAGMENT, RENDER_LIST } from "../runtimeHelpers";
 import {
   type NodeTransform,
   type TransformContext,
   createStructuralDirectiveTransform,
 } from "../transform";
-import { getInnerRange } from "../utils";
+import { findProp, getInnerRange } from "../utils";
 import { processExpression } from "./transformExpression";
 
 export const transformFor: NodeTransform = createStructuralDirectiveTransform(
@@ -32,17 +35,30 @@ export const transformFor: NodeTransform = createStructuralDirectiveTransform(
         forNode.source,
       ]) as ForRenderListExpression;
 
+      const keyProp = findProp(node, `key`);
+      const fragmentFlag = keyProp ? PatchFlags.KEYED_FRAGMENT : PatchFlags.UNKEYED_FRAGMENT;
+
       forNode.codegenNode = createVNodeCall(
         context,
         context.helper(FRAGMENT),
         undefined,
         renderExp,
+        `${fragmentFlag} /* ${PatchFlagNames[fragmentFlag]} */`,
+        undefined,
+        undefined,
+        true /* isBlock */,
+        true /* disableTracking */,
       ) as ForCodegenNode;
 
       return () => {
         // finish the codegen now that all children have been traversed
         const { children } = forNode;
         const childBlock = (children[0] as ElementNode).codegenNode as VNodeCall;
+        // the fragment does not track its children, so each item is a block
+        // of its own.
+        if (childBlock && childBlock.type === NodeTypes.VNODE_CALL) {
+          convertToBlock(childBlock, context);
+        }
 
         renderExp.arguments.push(
           createFunctionExpression(
@@ -62,12 +78,20 @@ export function processFor(
   context: TransformContext,
   processCodegen?: (forNode: ForNode) => (() => void) | undefined,
 ): (() => void) | undefined {
+  if (!dir.exp) {
+    context.onError(createCompilerError(ErrorCodes.X_V_FOR_NO_EXPRESSION, dir.loc));
+    return;
+  }
+
   const parseResult = parseForExpression(dir.exp as SimpleExpressionNode, context);
 
-  const { addIdentifiers, removeIdentifiers, scopes } = context;
+  if (!parseResult) {
+    context.onError(createCompilerError(ErrorCodes.X_V_FOR_MALFORMED_EXPRESSION, dir.loc));
+    return;
+  }
 
-  // TODO: error handling when parseResult is undefined
-  const { source, value, key, index } = parseResult!;
+  const { addIdentifiers, removeIdentifiers, scopes } = context;
+  const { source, value, key, index } = parseResult;
 
   const forNode: ForNode = {
     type: NodeTypes.FOR,
@@ -75,7 +99,7 @@ export function processFor(
     source,
     valueAlias: value,
     keyAlias: key,
-    parseResult: parseResult!,
+    parseResult,
     children: [node],
   };
 
@@ -7,9 +7,13 @@ import {
   NodeTypes,
   type SimpleExpressionNode,
   type VNodeCall,
+  convertToBlock,
   createCallExpression,
   createConditionalExpression,
+  createObjectProperty,
+  createSimpleExpression,
 } from "../ast";
+import { ErrorCodes, createCompilerError } from "../errors";
 import { CREATE_COMMENT } from "../runtimeHelpers";
 import {
   type NodeTransform,
@@ -17,21 +21,40 @@ import {
   createStructuralDirectiveTransform,
   traverseNode,
 } from "../transform";
+import { findProp, injectProp } from "../utils";
 import { processExpression } from "./transformExpression";
 
 export const transformIf: NodeTransform = createStructuralDirectiveTransform(
   /^(if|else|else-if)$/,
   (node, dir, context) => {
     return processIf(node, dir, context, (ifNode, branch, isRoot) => {
+      // each branch gets a unique key so that the renderer never patches one
+      // branch into another, even when they share the same tag.
+      // the key is offset by the branches of preceding v-if siblings.
+      const siblings = context.parent!.children;
+      let i = siblings.indexOf(ifNode);
+      let key = 0;
+      while (i-- >= 0) {
+        const sibling = siblings[i];
+        if (sibling && sibling.type === NodeTypes.IF) {
+          key += sibling.branches.length;
+        }
+      }
+
       return () => {
         if (isRoot) {
           ifNode.codegenNode = createCodegenNodeForBranch(
             branch,
+            key,
             context,
           ) as IfConditionalExpression;
         } else {
           const parentCondition = getParentCondition(ifNode.codegenNode!);
-          parentCondition.alternate = createCodegenNodeForBranch(branch, context);
+          parentCondition.alternate = createCodegenNodeForBranch(
+            branch,
+            key + ifNode.branches.length - 1,
+            context,
+          );
         }
       };
     });
@@ -48,6 +71,12 @@ export function processIf(
     isRoot: boolean,
   ) => (() => void) | undefined,
 ): (() => void) | undefined {
+  if (dir.name !== "else" && (!dir.exp || !(dir.exp as SimpleExpressionNode).content.trim())) {
+    const loc = dir.exp ? dir.exp.loc : node.loc;
+    context.onError(createCompilerError(ErrorCodes.X_V_IF_NO_EXPRESSION, dir.loc));
+    dir.exp = createSimpleExpression(`true`, false, loc);
+  }
+
   if (!context.isBrowser && dir.exp) {
     dir.exp = processExpression(dir.exp as SimpleExpressionNode, context);
   }
@@ -86,6 +115,8 @@ export function processIf(
         traverseNode(branch, context);
         if (onExit) onExit();
         context.currentNode = null;
+      } else {
+        context.onError(createCompilerError(ErrorCodes.X_V_ELSE_NO_ADJACENT_IF, node.loc));
       }
       break;
     }
@@ -103,23 +134,41 @@ function createIfBranch(node: ElementNode, dir: DirectiveNode): IfBranchNode {
 
 function createCodegenNodeForBranch(
   branch: IfBranchNode,
+  keyIndex: number,
   context: TransformContext,
 ): IfConditionalExpression | VNodeCall {
   if (branch.condition) {
     return createConditionalExpression(
       branch.condition,
-      createChildrenCodegenNode(branch),
+      createChildrenCodegenNode(branch, keyIndex, context),
       createCallExpression(context.helper(CREATE_COMMENT), ['""', "true"]),
     ) as IfConditionalExpression;
   } else {
-    return createChildrenCodegenNode(branch);
+    return createChildrenCodegenNode(branch, keyIndex, context);
   }
 }
 
-function createChildrenCodegenNode(branch: IfBranchNode): VNodeCall {
+function createChildrenCodegenNode(
+  branch: IfBranchNode,
+  keyIndex: number,
+  context: TransformContext,
+): VNodeCall {
   const { children } = branch;
-  const firstChild = children[0];
-  const vnodeCall = (firstChild as ElementNode).codegenNode as VNodeCall;
+  const firstChild = children[0] as ElementNode;
+  const vnodeCall = firstChild.codegenNode as VNodeCall;
+  if (vnodeCall && vnodeCall.type === NodeTypes.VNODE_CALL) {
+    // a user-provided key takes precedence over the branch index
+    if (!findProp(firstChild, "key")) {
+      injectProp(
+        vnodeCall,
+        createObjectProperty(`key`, createSimpleExpression(`${keyIndex}`, false)),
+        context,
+      );
+    }
+    // each branch is a block so that its dynamic children are tracked
+    // separately from the ones of the other branches.
+    convertToBlock(vnodeCall, context);
+  }
   return vnodeCall;
 }
 
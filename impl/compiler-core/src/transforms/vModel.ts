@@ -1,18 +1,43 @@
 import { camelize } from "@chibivue/shared";
 
 import {
+  type CompoundExpressionNode,
+  ElementTypes,
+  NodeTypes,
+  type Property,
   type SimpleExpressionNode,
   createCompoundExpression,
   createObjectProperty,
   createSimpleExpression,
 } from "../ast";
+import { ErrorCodes, createCompilerError } from "../errors";
+import { BindingTypes } from "../options";
+import { IS_REF } from "../runtimeHelpers";
 import type { DirectiveTransform } from "../transform";
+import { isMemberExpression, isSimpleIdentifier, isStaticExp } from "../utils";
 
 export const transformModel: DirectiveTransform = (dir, node, context) => {
   const { exp, arg } = dir;
   if (!exp) {
-    // TODO: error handling
-    throw new Error(`v-model is missing expression.`);
+    context.onError(createCompilerError(ErrorCodes.X_V_MODEL_NO_EXPRESSION, dir.loc));
+    return createTransformProps();
+  }
+
+  // a processed compound expression (e.g. `foo.value`) is checked as written
+  const rawExp = exp.loc.source.trim();
+  const expString = exp.type === NodeTypes.SIMPLE_EXPRESSION ? exp.content : rawExp;
+  const bindingType = context.bindingMetadata[rawExp];
+  // in inline mode, a `<script setup>` binding that may be a ref is processed
+  // into `_unref(foo)`, which is not assignable. it is assigned through
+  // `.value` when it turns out to be a ref at runtime.
+  const maybeRef =
+    context.inline &&
+    (bindingType === BindingTypes.SETUP_MAYBE_REF ||
+      bindingType === BindingTypes.SETUP_REF ||
+      bindingType === BindingTypes.SETUP_LET);
+  if (!expString.trim() || (!isMemberExpression(expString) && !maybeRef)) {
+    context.onError(createCompilerError(ErrorCodes.X_V_MODEL_MALFORMED_EXPRESSION, exp.loc));
+    return createTransformProps();
   }
 
   const propName = arg ? arg : createSimpleExpression("modelValue", true);
@@ -20,7 +45,28 @@ export const transformModel: DirectiveTransform = (dir, node, context) => {
     ? `onUpdate:${camelize((arg as SimpleExpressionNode).content)}`
     : `onUpdate:modelValue`;
 
-  const assignmentExp = createCompoundExpression([`$event => ((`, exp, `) = $event)`]);
+  let assignmentExp: CompoundExpressionNode;
+  if (maybeRef) {
+    if (bindingType === BindingTypes.SETUP_REF) {
+      // a known ref
+      assignmentExp = createCompoundExpression([
+        `$event => ((`,
+        createSimpleExpression(rawExp, false, exp.loc),
+        `).value = $event)`,
+      ]);
+    } else {
+      // a `let` may be reassigned, anything else is read-only unless it is a
+      // ref
+      const altAssignment = bindingType === BindingTypes.SETUP_LET ? `${rawExp} = $event` : `null`;
+      assignmentExp = createCompoundExpression([
+        `$event => (${context.helperString(IS_REF)}(${rawExp}) ? (`,
+        createSimpleExpression(rawExp, false, exp.loc),
+        `).value = $event : ${altAssignment})`,
+      ]);
+    }
+  } else {
+    assignmentExp = createCompoundExpression([`$event => ((`, exp, `) = $event)`]);
+  }
 
   const props = [
     // modelValue: foo
@@ -29,5 +75,22 @@ export const transformModel: DirectiveTransform = (dir, node, context) => {
     createObjectProperty(eventName, assignmentExp),
   ];
 
-  return { props };
+  // modelModifiers: { foo: true, "bar-baz": true }
+  if (dir.modifiers.length && node.tagType === ElementTypes.COMPONENT) {
+    const modifiers = dir.modifiers
+      .map((m) => (isSimpleIdentifier(m) ? m : JSON.stringify(m)) + `: true`)
+      .join(`, `);
+    const modifiersKey = arg
+      ? isStaticExp(arg)
+        ? `${arg.content}Modifiers`
+        : createCompoundExpression([arg, ' + "Modifiers"'])
+      : `modelModifiers`;
+    props.push(createObjectProperty(modifiersKey, createSimpleExpression(`{ ${modifiers} }`)));
+  }
+
+  return createTransformProps(props);
 };
+
+function createTransformProps(props: Property[] = []) {
+  return { props };
+}
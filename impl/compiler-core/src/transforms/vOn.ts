@@ -7,6 +7,7 @@ import {
   createObjectProperty,
   createSimpleExpression,
 } from "../ast";
+import { ErrorCodes, createCompilerError } from "../errors";
 import { TO_HANDLER_KEY } from "../runtimeHelpers";
 import type { DirectiveTransform, DirectiveTransformResult } from "../transform";
 import { isMemberExpression } from "../utils";
@@ -21,7 +22,10 @@ export interface VOnDirectiveNode extends DirectiveNode {
 }
 
 export const transformOn: DirectiveTransform = (dir, _node, context, augmentor) => {
-  const { arg } = dir as VOnDirectiveNode;
+  const { loc, modifiers, arg } = dir as VOnDirectiveNode;
+  if (!dir.exp && !modifiers.length) {
+    context.onError(createCompilerError(ErrorCodes.X_V_ON_NO_EXPRESSION, loc));
+  }
 
   let eventName: ExpressionNode;
   if (arg.type === NodeTypes.SIMPLE_EXPRESSION) {
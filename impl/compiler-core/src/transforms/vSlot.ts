@@ -0,0 +1,281 @@
+import {
+  type CallExpression,
+  type ConditionalExpression,
+  type DirectiveNode,
+  type ElementNode,
+  ElementTypes,
+  type ExpressionNode,
+  type FunctionExpression,
+  NodeTypes,
+  type ObjectExpression,
+  type Property,
+  type SimpleExpressionNode,
+  type SlotsExpression,
+  type SourceLocation,
+  type TemplateChildNode,
+  createArrayExpression,
+  createCallExpression,
+  createConditionalExpression,
+  createFunctionExpression,
+  createObjectExpression,
+  createObjectProperty,
+  createSimpleExpression,
+} from "../ast";
+import { ErrorCodes, createCompilerError } from "../errors";
+import { CREATE_SLOTS, RENDER_LIST, WITH_CTX } from "../runtimeHelpers";
+import type { NodeTransform, TransformContext } from "../transform";
+import { findDir, isStaticExp, isTemplateNode, isVSlot } from "../utils";
+import { createForLoopParams, parseForExpression } from "./vFor";
+
+const defaultFallback = createSimpleExpression(`undefined`, false);
+
+// A NodeTransform that tracks scope identifiers for scoped slots so that they
+// don't get prefixed by transformExpression. (non-browser builds only)
+export const trackSlotScopes: NodeTransform = (node, context) => {
+  if (
+    node.type === NodeTypes.ELEMENT &&
+    (node.tagType === ElementTypes.COMPONENT || node.tagType === ElementTypes.TEMPLATE)
+  ) {
+    // We are only checking non-empty v-slot here
+    // since we only care about slots that introduce scope variables.
+    const vSlot = findDir(node, "slot");
+    if (vSlot) {
+      const slotProps = vSlot.exp;
+      if (!context.isBrowser) {
+        slotProps && context.addIdentifiers(slotProps);
+      }
+      return () => {
+        if (!context.isBrowser) {
+          slotProps && context.removeIdentifiers(slotProps);
+        }
+      };
+    }
+  }
+};
+
+// A NodeTransform that tracks scope identifiers for scoped slots with v-for.
+// It must run before transformExpression so that dynamic slot names can refer
+// to the iterator aliases.
+export const trackVForSlotScopes: NodeTransform = (node, context) => {
+  let vFor;
+  if (isTemplateNode(node) && node.props.some(isVSlot) && (vFor = findDir(node, "for"))) {
+    const result = (vFor.forParseResult = parseForExpression(
+      vFor.exp as SimpleExpressionNode,
+      context,
+    ));
+    if (result) {
+      const { value, key, index } = result;
+      const { addIdentifiers, removeIdentifiers } = context;
+      value && addIdentifiers(value);
+      key && addIdentifiers(key);
+      index && addIdentifiers(index);
+
+      return () => {
+        value && removeIdentifiers(value);
+        key && removeIdentifiers(key);
+        index && removeIdentifiers(index);
+      };
+    }
+  }
+};
+
+export type SlotFnBuilder = (
+  slotProps: ExpressionNode | undefined,
+  slotChildren: TemplateChildNode[],
+  loc: SourceLocation,
+) => FunctionExpression;
+
+const buildClientSlotFn: SlotFnBuilder = (props, children, loc) =>
+  createFunctionExpression(props, children, false /* newline */, true /* isSlot */, loc);
+
+// Instead of being a DirectiveTransform, v-slot processing is called during
+// transformElement to build the slots object for a component.
+export function buildSlots(
+  node: ElementNode,
+  context: TransformContext,
+  buildSlotFn: SlotFnBuilder = buildClientSlotFn,
+): {
+  slots: SlotsExpression;
+  hasDynamicSlots: boolean;
+} {
+  context.helper(WITH_CTX);
+
+  const { children, loc } = node;
+  const slotsProperties: Property[] = [];
+  const dynamicSlots: (ConditionalExpression | CallExpression)[] = [];
+
+  // 1. Check for slot with slotProps on component itself.
+  //    <Comp v-slot="{ prop }"/>
+  const onComponentSlot = findDir(node, "slot", true);
+  if (onComponentSlot) {
+    const { arg, exp } = onComponentSlot;
+    slotsProperties.push(
+      createObjectProperty(
+        arg || createSimpleExpression("default", true),
+        buildSlotFn(exp, children, loc),
+      ),
+    );
+  }
+
+  // 2. Iterate through children and check for template slots
+  //    <template v-slot:foo="{ prop }">
+  let hasTemplateSlots = false;
+  const implicitDefaultChildren: TemplateChildNode[] = [];
+  const seenSlotNames = new Set<string>();
+
+  for (let i = 0; i < children.length; i++) {
+    const slotElement = children[i];
+    let slotDir: DirectiveNode | undefined;
+
+    if (!isTemplateNode(slotElement) || !(slotDir = findDir(slotElement, "slot", true))) {
+      // not a <template v-slot>, skip.
+      if (slotElement.type !== NodeTypes.COMMENT) {
+        implicitDefaultChildren.push(slotElement);
+      }
+      continue;
+    }
+
+    if (onComponentSlot) {
+      // already has on-component slot - this is incorrect usage.
+      context.onError(createCompilerError(ErrorCodes.X_V_SLOT_MIXED_SLOT_USAGE, slotDir.loc));
+      break;
+    }
+
+    hasTemplateSlots = true;
+    const { children: slotChildren, loc: slotLoc } = slotElement;
+    const { arg: slotName = createSimpleExpression(`default`, true), exp: slotProps } = slotDir;
+
+    // check if name is dynamic.
+    const staticSlotName = isStaticExp(slotName) ? slotName.content : undefined;
+
+    const slotFunction = buildSlotFn(slotProps, slotChildren, slotLoc);
+    // check if this slot is conditional (v-if/v-for)
+    let vIf: DirectiveNode | undefined;
+    let vElse: DirectiveNode | undefined;
+    let vFor: DirectiveNode | undefined;
+    if ((vIf = findDir(slotElement, "if"))) {
+      dynamicSlots.push(
+        createConditionalExpression(
+          vIf.exp!,
+          buildDynamicSlot(slotName, slotFunction),
+          defaultFallback,
+        ),
+      );
+    } else if ((vElse = findDir(slotElement, /^else(-if)?$/, true /* allowEmpty */))) {
+      // find adjacent v-if
+      let j = i;
+      let prev;
+      while (j--) {
+        prev = children[j];
+        if (
+          prev.type !== NodeTypes.COMMENT &&
+          !(prev.type === NodeTypes.TEXT && !prev.content.trim())
+        ) {
+          break;
+        }
+      }
+      if (prev && isTemplateNode(prev) && findDir(prev, /^(else-)?if$/)) {
+        // remove node
+        children.splice(i, 1);
+        i--;
+        // attach this slot to previous conditional
+        let conditional = dynamicSlots[dynamicSlots.length - 1] as ConditionalExpression;
+        while (conditional.alternate.type === NodeTypes.JS_CONDITIONAL_EXPRESSION) {
+          conditional = conditional.alternate;
+        }
+        conditional.alternate = vElse.exp
+          ? createConditionalExpression(
+              vElse.exp,
+              buildDynamicSlot(slotName, slotFunction),
+              defaultFallback,
+            )
+          : buildDynamicSlot(slotName, slotFunction);
+      } else {
+        context.onError(createCompilerError(ErrorCodes.X_V_ELSE_NO_ADJACENT_IF, vElse.loc));
+      }
+    } else if ((vFor = findDir(slotElement, "for"))) {
+      const parseResult =
+        vFor.forParseResult || parseForExpression(vFor.exp as SimpleExpressionNode, context);
+      if (parseResult) {
+        // Render the dynamic slots as an array and add it to the createSlot()
+        // args. The runtime knows how to handle it appropriately.
+        dynamicSlots.push(
+          createCallExpression(context.helper(RENDER_LIST), [
+            parseResult.source,
+            createFunctionExpression(
+              createForLoopParams(parseResult),
+              buildDynamicSlot(slotName, slotFunction),
+              true /* force newline */,
+            ),
+          ]),
+        );
+      } else {
+        context.onError(createCompilerError(ErrorCodes.X_V_FOR_MALFORMED_EXPRESSION, vFor.loc));
+      }
+    } else {
+      // check duplicate static names
+      if (staticSlotName) {
+        if (seenSlotNames.has(staticSlotName)) {
+          context.onError(
+            createCompilerError(ErrorCodes.X_V_SLOT_DUPLICATE_SLOT_NAMES, slotName.loc),
+          );
+          continue;
+        }
+        seenSlotNames.add(staticSlotName);
+      }
+      slotsProperties.push(createObjectProperty(slotName, slotFunction));
+    }
+  }
+
+  if (!onComponentSlot) {
+    const hasNonWhitespaceContent = implicitDefaultChildren.some(isNonWhitespaceContent);
+    if (!hasTemplateSlots) {
+      // implicit default slot (on component)
+      slotsProperties.push(buildDefaultSlotProperty(undefined, children));
+    } else if (hasNonWhitespaceContent) {
+      // implicit default slot (mixed with named slots)
+      if (seenSlotNames.has(`default`)) {
+        context.onError(
+          createCompilerError(
+            ErrorCodes.X_V_SLOT_EXTRANEOUS_DEFAULT_SLOT_CHILDREN,
+            implicitDefaultChildren[0].loc,
+          ),
+        );
+      } else {
+        slotsProperties.push(buildDefaultSlotProperty(undefined, implicitDefaultChildren));
+      }
+    }
+  }
+
+  function buildDefaultSlotProperty(
+    props: ExpressionNode | undefined,
+    children: TemplateChildNode[],
+  ) {
+    return createObjectProperty(`default`, buildSlotFn(props, children, loc));
+  }
+
+  let slots = createObjectExpression(slotsProperties, loc) as SlotsExpression;
+  if (dynamicSlots.length) {
+    slots = createCallExpression(context.helper(CREATE_SLOTS), [
+      slots,
+      createArrayExpression(dynamicSlots),
+    ]) as SlotsExpression;
+  }
+
+  return {
+    slots,
+    hasDynamicSlots: dynamicSlots.length > 0,
+  };
+}
+
+function buildDynamicSlot(name: ExpressionNode, fn: FunctionExpression): ObjectExpression {
+  return createObjectExpression([
+    createObjectProperty(`name`, name),
+    createObjectProperty(`fn`, fn),
+  ]);
+}
+
+function isNonWhitespaceContent(node: TemplateChildNode): boolean {
+  if (node.type !== NodeTypes.TEXT) return true;
+  return !!node.content.trim();
+}
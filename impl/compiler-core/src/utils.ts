@@ -1,12 +1,37 @@
+import { isString } from "@chibivue/shared";
+
 import {
+  type CallExpression,
+  type DirectiveNode,
   type ElementNode,
+  ElementTypes,
+  type InterpolationNode,
   type JSChildNode,
   NodeTypes,
+  type ObjectExpression,
+  type ParentNode,
   type Position,
+  type Property,
+  type RootNode,
   type SimpleExpressionNode,
+  type SlotOutletNode,
   type SourceLocation,
+  type TemplateChildNode,
+  type TemplateNode,
+  type TextNode,
+  type VNodeCall,
+  createCallExpression,
+  createObjectExpression,
 } from "./ast";
-import { CREATE_ELEMENT_VNODE, CREATE_VNODE } from "./runtimeHelpers";
+import type { TransformContext } from "./transform";
+import type { PropsExpression } from "./transforms/transformElement";
+import {
+  CREATE_ELEMENT_VNODE,
+  CREATE_VNODE,
+  MERGE_PROPS,
+  NORMALIZE_PROPS,
+  TO_HANDLERS,
+} from "./runtimeHelpers";
 
 export const isStaticExp = (p: JSChildNode): p is SimpleExpressionNode =>
   p.type === NodeTypes.SIMPLE_EXPRESSION && p.isStatic;
@@ -136,6 +161,23 @@ export function advancePositionWithClone(
   return advancePositionWithMutation({ ...pos }, source, numberOfCharacters);
 }
 
+export function findDir(
+  node: ElementNode,
+  name: string | RegExp,
+  allowEmpty: boolean = false,
+): DirectiveNode | undefined {
+  for (let i = 0; i < node.props.length; i++) {
+    const p = node.props[i];
+    if (
+      p.type === NodeTypes.DIRECTIVE &&
+      (allowEmpty || p.exp) &&
+      (isString(name) ? p.name === name : name.test(p.name))
+    ) {
+      return p;
+    }
+  }
+}
+
 export function findProp(
   node: ElementNode,
   name: string,
@@ -149,8 +191,103 @@ export function findProp(
       if (p.name === name && (p.value || allowEmpty)) {
         return p;
       }
-    } else if (p.name === "bind" && (p.exp || allowEmpty)) {
+    } else if (p.name === "bind" && (p.exp || allowEmpty) && isStaticArgOf(p.arg, name)) {
       return p;
     }
   }
 }
+
+export function isStaticArgOf(arg: DirectiveNode["arg"], name: string): boolean {
+  return !!(arg && isStaticExp(arg) && arg.content === name);
+}
+
+// `v-bind="obj"` or `:[key]="value"`, whose keys are only known at runtime
+export function hasDynamicKeyVBind(node: ElementNode): boolean {
+  return node.props.some(
+    (p) =>
+      p.type === NodeTypes.DIRECTIVE &&
+      p.name === "bind" &&
+      (!p.arg || p.arg.type !== NodeTypes.SIMPLE_EXPRESSION || !p.arg.isStatic),
+  );
+}
+
+export function isText(node: TemplateChildNode): node is TextNode | InterpolationNode {
+  return node.type === NodeTypes.INTERPOLATION || node.type === NodeTypes.TEXT;
+}
+
+export function isTemplateNode(
+  node: RootNode | TemplateChildNode | ParentNode,
+): node is TemplateNode {
+  return node.type === NodeTypes.ELEMENT && node.tagType === ElementTypes.TEMPLATE;
+}
+
+export function isSlotOutlet(
+  node: RootNode | TemplateChildNode | ParentNode,
+): node is SlotOutletNode {
+  return node.type === NodeTypes.ELEMENT && node.tagType === ElementTypes.SLOT;
+}
+
+export function isVSlot(p: ElementNode["props"][0]): p is DirectiveNode {
+  return p.type === NodeTypes.DIRECTIVE && p.name === "slot";
+}
+
+export function injectProp(node: VNodeCall, prop: Property, context: TransformContext): void {
+  let props = node.props;
+  // props wrapped with `normalizeProps(...)` are injected inside the call
+  let parentCall: CallExpression | undefined;
+  if (props && props.type === NodeTypes.JS_CALL_EXPRESSION && props.callee === NORMALIZE_PROPS) {
+    parentCall = props;
+    props = props.arguments[0] as PropsExpression;
+  }
+
+  let propsWithInjection: PropsExpression;
+  if (props == null) {
+    propsWithInjection = createObjectExpression([prop]);
+  } else if (props.type === NodeTypes.JS_CALL_EXPRESSION) {
+    // merged props... add ours
+    // only inject key to object literal if it's the first argument so that
+    // it doesn't override user provided keys
+    const first = props.arguments[0] as PropsExpression | string;
+    if (!isString(first) && first.type === NodeTypes.JS_OBJECT_EXPRESSION) {
+      if (!hasProp(prop, first)) {
+        first.properties.unshift(prop);
+      }
+      propsWithInjection = props;
+    } else if (props.callee === TO_HANDLERS) {
+      // `toHandlers(obj)` returns a fresh object, so it cannot take extra args
+      propsWithInjection = createCallExpression(context.helper(MERGE_PROPS), [
+        createObjectExpression([prop]),
+        props,
+      ]);
+    } else {
+      props.arguments.unshift(createObjectExpression([prop]));
+      propsWithInjection = props;
+    }
+  } else if (props.type === NodeTypes.JS_OBJECT_EXPRESSION) {
+    if (!hasProp(prop, props)) {
+      props.properties.unshift(prop);
+    }
+    propsWithInjection = props;
+  } else {
+    // single v-bind with expression, return a merged replacement
+    propsWithInjection = createCallExpression(context.helper(MERGE_PROPS), [
+      createObjectExpression([prop]),
+      props,
+    ]);
+  }
+
+  if (parentCall) {
+    parentCall.arguments[0] = propsWithInjection;
+  } else {
+    node.props = propsWithInjection;
+  }
+}
+
+// check existing key to avoid overriding user provided keys
+function hasProp(prop: Property, props: ObjectExpression): boolean {
+  if (prop.key.type !== NodeTypes.SIMPLE_EXPRESSION) return false;
+  const propKeyName = prop.key.content;
+  return props.properties.some(
+    (p) => p.key.type === NodeTypes.SIMPLE_EXPRESSION && p.key.content === propKeyName,
+  );
+}
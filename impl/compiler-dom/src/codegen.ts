@@ -1,7 +1,8 @@
-import type { RootNode } from "@chibivue/compiler-core";
+import type { RawSourceMap, RootNode } from "@chibivue/compiler-core";
 
 export interface CodegenResult {
   code: string;
   preamble: string;
   ast: RootNode;
+  map?: RawSourceMap;
 }
@@ -0,0 +1,43 @@
+import {
+  type CompilerError,
+  ErrorCodes,
+  type SourceLocation,
+  createCompilerError,
+} from "@chibivue/compiler-core";
+
+export interface DOMCompilerError extends CompilerError {
+  code: DOMErrorCodes;
+}
+
+export function createDOMCompilerError(
+  code: DOMErrorCodes,
+  loc?: SourceLocation,
+): DOMCompilerError {
+  return createCompilerError(code, loc, DOMErrorMessages) as DOMCompilerError;
+}
+
+export const enum DOMErrorCodes {
+  X_V_HTML_NO_EXPRESSION = ErrorCodes.__EXTEND_POINT__,
+  X_V_HTML_WITH_CHILDREN,
+  X_V_TEXT_NO_EXPRESSION,
+  X_V_TEXT_WITH_CHILDREN,
+  X_V_MODEL_ON_INVALID_ELEMENT,
+  X_V_MODEL_ARG_ON_ELEMENT,
+  X_V_MODEL_ON_FILE_INPUT_ELEMENT,
+  X_V_MODEL_UNNECESSARY_VALUE,
+  X_V_SHOW_NO_EXPRESSION,
+  __EXTEND_POINT__,
+}
+
+export const DOMErrorMessages: Record<DOMErrorCodes, string> = {
+  [DOMErrorCodes.X_V_HTML_NO_EXPRESSION]: `v-html is missing expression.`,
+  [DOMErrorCodes.X_V_HTML_WITH_CHILDREN]: `v-html will override element children.`,
+  [DOMErrorCodes.X_V_TEXT_NO_EXPRESSION]: `v-text is missing expression.`,
+  [DOMErrorCodes.X_V_TEXT_WITH_CHILDREN]: `v-text will override element children.`,
+  [DOMErrorCodes.X_V_MODEL_ON_INVALID_ELEMENT]: `v-model can only be used on <input>, <textarea> and <select> elements.`,
+  [DOMErrorCodes.X_V_MODEL_ARG_ON_ELEMENT]: `v-model argument is not supported on plain elements.`,
+  [DOMErrorCodes.X_V_MODEL_ON_FILE_INPUT_ELEMENT]: `v-model cannot be used on file inputs since they are read-only. Use a v-on:change listener instead.`,
+  [DOMErrorCodes.X_V_MODEL_UNNECESSARY_VALUE]: `Unnecessary value binding used alongside v-model. It will interfere with v-model's behavior.`,
+  [DOMErrorCodes.X_V_SHOW_NO_EXPRESSION]: `v-show is missing expression.`,
+  [DOMErrorCodes.__EXTEND_POINT__]: ``,
+};
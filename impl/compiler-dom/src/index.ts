@@ -8,6 +8,7 @@ import { baseCompile, baseParse } from "@chibivue/compiler-core";
 
 export { registerRuntimeHelpers } from "@chibivue/compiler-core";
 export * from "./runtimeHelpers";
+export * from "./errors";
 
 import type { CodegenResult } from "./codegen";
 import { parserOptions } from "./parserOptions";
@@ -17,6 +18,7 @@ import { transformOn } from "./transforms/vOn";
 import { transformVText } from "./transforms/vText";
 import { transformVHtml } from "./transforms/vHtml";
 import { transformShow } from "./transforms/vShow";
+import { stringifyStatic } from "./transforms/stringifyStatic";
 
 export const DOMDirectiveTransforms: Record<string, DirectiveTransform> = {
   on: transformOn,
@@ -30,6 +32,7 @@ export function compile(template: string, options: CompilerOptions): CodegenResu
   return baseCompile(template, {
     ...options,
     ...parserOptions,
+    transformHoist: stringifyStatic,
     directiveTransforms: {
       ...options.directiveTransforms,
       ...DOMDirectiveTransforms,
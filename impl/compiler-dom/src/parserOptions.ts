@@ -1,6 +1,16 @@
 import type { ParserOptions } from "@chibivue/compiler-core";
-import { isHTMLTag } from "@chibivue/shared";
+import { isHTMLTag, isMathMLTag, isSVGTag, isVoidTag } from "@chibivue/shared";
+
+import { TRANSITION, TRANSITION_GROUP } from "./runtimeHelpers";
 
 export const parserOptions: ParserOptions = {
-  isNativeTag: (tag) => isHTMLTag(tag),
+  isNativeTag: (tag) => isHTMLTag(tag) || isSVGTag(tag) || isMathMLTag(tag),
+  isVoidTag,
+  isBuiltInComponent: (tag) => {
+    if (tag === "Transition" || tag === "transition") {
+      return TRANSITION;
+    } else if (tag === "TransitionGroup" || tag === "transition-group") {
+      return TRANSITION_GROUP;
+    }
+  },
 };
@@ -0,0 +1,203 @@
+import {
+  CREATE_STATIC,
+  type ElementNode,
+  ElementTypes,
+  type HoistTransform,
+  type JSChildNode,
+  NodeTypes,
+  type PlainElementNode,
+  type SimpleExpressionNode,
+  type TemplateChildNode,
+  type TransformContext,
+  createCallExpression,
+} from "@chibivue/compiler-core";
+import { escapeHtml, isString, isSymbol, isVoidTag, makeMap } from "@chibivue/shared";
+
+export const enum StringifyThresholds {
+  ELEMENT_WITH_BINDING_COUNT = 5,
+  NODE_COUNT = 20,
+}
+
+/**
+ * Regroup a run of hoisted static nodes into a single `createStaticVNode`
+ * call when it is large enough. Creating vnodes for a few elements is cheap,
+ * but long runs of static content are faster to mount via innerHTML.
+ *
+ * A run is stringified when it has at least
+ * - `NODE_COUNT` nodes, or
+ * - `ELEMENT_WITH_BINDING_COUNT` elements that carry attributes.
+ */
+export const stringifyStatic: HoistTransform = (children, context) => {
+  let nc = 0; // current node count
+  let ec = 0; // current element with binding count
+  const currentChunk: PlainElementNode[] = [];
+
+  const stringifyCurrentChunk = (currentIndex: number): number => {
+    if (
+      nc >= StringifyThresholds.NODE_COUNT ||
+      ec >= StringifyThresholds.ELEMENT_WITH_BINDING_COUNT
+    ) {
+      // combine all currently eligible nodes into a single static vnode call
+      const staticCall = createCallExpression(context.helper(CREATE_STATIC), [
+        JSON.stringify(currentChunk.map((node) => stringifyNode(node, context)).join("")),
+        // the 2nd argument indicates the number of DOM nodes this static vnode
+        // will insert / hydrate
+        String(currentChunk.length),
+      ]);
+      // replace the first node's hoisted expression with the static vnode call
+      replaceHoist(currentChunk[0], staticCall, context);
+
+      if (currentChunk.length > 1) {
+        for (let i = 1; i < currentChunk.length; i++) {
+          // for the merged nodes, set their hoisted expression to null
+          replaceHoist(currentChunk[i], null, context);
+        }
+        // also remove merged nodes from children
+        const deleteCount = currentChunk.length - 1;
+        children.splice(currentIndex - currentChunk.length + 1, deleteCount);
+        return deleteCount;
+      }
+    }
+    return 0;
+  };
+
+  let i = 0;
+  for (; i < children.length; i++) {
+    const child = children[i];
+    const hoisted = getHoistedNode(child);
+    if (hoisted) {
+      // presence of hoisted means child must be a stringifiable node
+      const node = child as PlainElementNode;
+      const result = analyzeNode(node);
+      if (result) {
+        // node is stringifiable, record state
+        nc += result[0];
+        ec += result[1];
+        currentChunk.push(node);
+        continue;
+      }
+    }
+    // we only reach here if we ran into a node that is not stringifiable
+    // check if currently analyzed nodes meet criteria for stringification.
+    // adjust iteration index
+    i -= stringifyCurrentChunk(i);
+    // reset state
+    nc = 0;
+    ec = 0;
+    currentChunk.length = 0;
+  }
+  // in case the last node was also stringifiable
+  stringifyCurrentChunk(i);
+};
+
+const getHoistedNode = (node: TemplateChildNode) =>
+  node.type === NodeTypes.ELEMENT &&
+  node.tagType === ElementTypes.ELEMENT &&
+  node.codegenNode &&
+  node.codegenNode.type === NodeTypes.SIMPLE_EXPRESSION &&
+  node.codegenNode.hoisted;
+
+const isStringifiableAttr = (name: string) => /^[a-zA-Z_:][\w:.-]*$/.test(name);
+
+// these tags are only valid inside of specific parents, so they can not be
+// parsed from an innerHTML string on their own.
+const isNonStringifiable = /*#__PURE__*/ makeMap(`caption,thead,tr,th,tbody,td,tfoot,colgroup,col`);
+
+/**
+ * for a hoisted node, analyze it and return:
+ * - false: bailed (contains non-stringifiable tags or attributes)
+ * - [nc, ec] where
+ *   - nc is the number of nodes inside
+ *   - ec is the number of element with attributes inside
+ */
+function analyzeNode(node: PlainElementNode): [number, number] | false {
+  if (isNonStringifiable(node.tag)) {
+    return false;
+  }
+
+  let nc = 1; // node count
+  let ec = node.props.length > 0 ? 1 : 0; // element w/ attributes count
+
+  // returns false if the node cannot be stringified.
+  function walk(node: ElementNode): boolean {
+    for (let i = 0; i < node.props.length; i++) {
+      const p = node.props[i];
+      // a hoisted element only has plain attributes
+      if (p.type !== NodeTypes.ATTRIBUTE || !isStringifiableAttr(p.name)) {
+        return false;
+      }
+    }
+    for (let i = 0; i < node.children.length; i++) {
+      nc++;
+      const child = node.children[i];
+      if (child.type === NodeTypes.ELEMENT) {
+        if (child.props.length > 0) {
+          ec++;
+        }
+        if (!walk(child)) {
+          return false;
+        }
+      }
+    }
+    return true;
+  }
+
+  return walk(node) ? [nc, ec] : false;
+}
+
+function stringifyNode(node: string | TemplateChildNode, context: TransformContext): string {
+  if (isString(node)) {
+    return node;
+  }
+  switch (node.type) {
+    case NodeTypes.ELEMENT:
+      return stringifyElement(node, context);
+    case NodeTypes.TEXT:
+      return escapeHtml(node.content);
+    case NodeTypes.TEXT_CALL:
+      return stringifyNode(node.content, context);
+    case NodeTypes.COMPOUND_EXPRESSION:
+      // a static compound expression only contains text nodes joined by ` + `
+      return node.children
+        .map((c) =>
+          !isString(c) && !isSymbol(c) && c.type === NodeTypes.TEXT ? escapeHtml(c.content) : "",
+        )
+        .join("");
+    default:
+      // static trees never contain other node types
+      return "";
+  }
+}
+
+function stringifyElement(node: ElementNode, context: TransformContext): string {
+  let res = `<${node.tag}`;
+  for (let i = 0; i < node.props.length; i++) {
+    const p = node.props[i];
+    if (p.type === NodeTypes.ATTRIBUTE) {
+      res += ` ${p.name}`;
+      if (p.value) {
+        res += `="${escapeHtml(p.value.content)}"`;
+      }
+    }
+  }
+  if (context.scopeId) {
+    res += ` data-v-${context.scopeId}`;
+  }
+  res += `>`;
+  for (let i = 0; i < node.children.length; i++) {
+    res += stringifyNode(node.children[i], context);
+  }
+  if (!isVoidTag(node.tag)) {
+    res += `</${node.tag}>`;
+  }
+  return res;
+}
+
+function replaceHoist(
+  node: PlainElementNode,
+  replacement: JSChildNode | null,
+  context: TransformContext,
+) {
+  const hoistToReplace = (node.codegenNode as SimpleExpressionNode).hoisted!;
+  context.hoists[context.hoists.indexOf(hoistToReplace)] = replacement;
+}
@@ -3,14 +3,16 @@ import {
   createObjectProperty,
   createSimpleExpression,
 } from "@chibivue/compiler-core";
+import { DOMErrorCodes, createDOMCompilerError } from "../errors";
 
 export const transformVHtml: DirectiveTransform = (dir, node, context) => {
   const { exp, loc } = dir;
   if (!exp) {
-    console.error(`v-html is missing expression.`);
+    context.onError(createDOMCompilerError(DOMErrorCodes.X_V_HTML_NO_EXPRESSION, loc));
   }
   if (node.children.length) {
-    console.error(`v-html will override element children.`);
+    // the children are dropped, so this is only worth a warning
+    context.onWarn(createDOMCompilerError(DOMErrorCodes.X_V_HTML_WITH_CHILDREN, loc));
     node.children.length = 0;
   }
   return {
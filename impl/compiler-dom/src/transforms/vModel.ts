@@ -4,9 +4,17 @@ import {
   NodeTypes,
   transformModel as baseTransform,
   findProp,
+  hasDynamicKeyVBind,
 } from "@chibivue/compiler-core";
 
-import { V_MODEL_DYNAMIC, V_MODEL_TEXT } from "../runtimeHelpers";
+import { DOMErrorCodes, createDOMCompilerError } from "../errors";
+import {
+  V_MODEL_CHECKBOX,
+  V_MODEL_DYNAMIC,
+  V_MODEL_RADIO,
+  V_MODEL_SELECT,
+  V_MODEL_TEXT,
+} from "../runtimeHelpers";
 
 export const transformModel: DirectiveTransform = (dir, node, context) => {
   const baseResult = baseTransform(dir, node, context);
@@ -16,21 +24,72 @@ export const transformModel: DirectiveTransform = (dir, node, context) => {
     return baseResult;
   }
 
+  if (dir.arg) {
+    context.onError(createDOMCompilerError(DOMErrorCodes.X_V_MODEL_ARG_ON_ELEMENT, dir.arg.loc));
+  }
+
+  function checkDuplicatedValue() {
+    const value = findProp(node, "value", true);
+    if (value) {
+      context.onError(createDOMCompilerError(DOMErrorCodes.X_V_MODEL_UNNECESSARY_VALUE, value.loc));
+    }
+  }
+
   const { tag } = node;
-  if (tag === "input" || tag === "textarea") {
+  if (tag === "input" || tag === "textarea" || tag === "select") {
+    // the directive is picked by the tag and the static type, so that only
+    // the one that is used ends up in the bundle
     let directiveToUse = V_MODEL_TEXT;
+    let isInvalidType = false;
     if (tag === "input") {
       const type = findProp(node, `type`);
       if (type) {
         if (type.type === NodeTypes.DIRECTIVE) {
+          // :type="foo"
           directiveToUse = V_MODEL_DYNAMIC;
+        } else if (type.value) {
+          switch (type.value.content) {
+            case "radio":
+              directiveToUse = V_MODEL_RADIO;
+              break;
+            case "checkbox":
+              directiveToUse = V_MODEL_CHECKBOX;
+              break;
+            case "file":
+              isInvalidType = true;
+              context.onError(
+                createDOMCompilerError(DOMErrorCodes.X_V_MODEL_ON_FILE_INPUT_ELEMENT, dir.loc),
+              );
+              break;
+            default:
+              // text type
+              checkDuplicatedValue();
+              break;
+          }
         }
+      } else if (hasDynamicKeyVBind(node)) {
+        // element has bindings with dynamic keys, which can possibly contain
+        // "type".
+        directiveToUse = V_MODEL_DYNAMIC;
+      } else {
+        // text type
+        checkDuplicatedValue();
       }
+    } else if (tag === "select") {
+      directiveToUse = V_MODEL_SELECT;
+    } else {
+      // textarea
+      checkDuplicatedValue();
+    }
+    if (!isInvalidType) {
+      baseResult.needRuntime = context.helper(directiveToUse);
     }
-    baseResult.needRuntime = context.helper(directiveToUse);
+  } else {
+    context.onError(createDOMCompilerError(DOMErrorCodes.X_V_MODEL_ON_INVALID_ELEMENT, dir.loc));
   }
 
   // native v-model doesn't need the `modelValue` props since they are also
+  // passed to the runtime as `binding.value`. removing it reduces code size.
   baseResult.props = baseResult.props.filter(
     (p) => !(p.key.type === NodeTypes.SIMPLE_EXPRESSION && p.key.content === "modelValue"),
   );
@@ -1,10 +1,11 @@
 import type { DirectiveTransform } from "@chibivue/compiler-core";
+import { DOMErrorCodes, createDOMCompilerError } from "../errors";
 import { V_SHOW } from "../runtimeHelpers";
 
 export const transformShow: DirectiveTransform = (dir, _node, context) => {
   const { exp, loc } = dir;
   if (!exp) {
-    console.error(`v-show is missing expression.`, loc);
+    context.onError(createDOMCompilerError(DOMErrorCodes.X_V_SHOW_NO_EXPRESSION, loc));
   }
 
   return {
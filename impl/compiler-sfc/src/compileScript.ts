@@ -9,21 +9,36 @@ import type {
   Node,
   ObjectExpression,
   ObjectPattern,
+  ObjectProperty,
   Statement,
-  TSFunctionType,
-  TSTypeLiteral,
 } from "@babel/types";
 import { walk } from "estree-walker";
 import MagicString from "magic-string";
 
-import type { BindingMetadata } from "@chibivue/compiler-core";
-import { BindingTypes, getImportedName } from "@chibivue/compiler-core";
+import type { BindingMetadata, RawSourceMap } from "@chibivue/compiler-core";
+import { BindingTypes, getImportedName, walkIdentifiers } from "@chibivue/compiler-core";
+import { generateCodeFrame } from "@chibivue/shared";
 
 import type { SFCDescriptor, SFCScriptBlock } from "./parse";
 import { compileTemplate } from "./compileTemplate";
+import { CSS_VARS_HELPER, genCssVarsCode, genNormalScriptCssVarsCode } from "./cssVars";
+import { rewriteDefaultWithMap } from "./rewriteDefault";
+import {
+  type SFCFileSystem,
+  type TypeResolveContext,
+  createTypeResolveContext,
+  inferRuntimeType,
+  resolveStringKeys,
+  resolveTypeElements,
+} from "./resolveType";
 
 const DEFINE_PROPS = "defineProps";
 const DEFINE_EMITS = "defineEmits";
+const DEFINE_EXPOSE = "defineExpose";
+const DEFINE_SLOTS = "defineSlots";
+const DEFINE_OPTIONS = "defineOptions";
+const DEFINE_MODEL = "defineModel";
+const WITH_DEFAULTS = "withDefaults";
 const DEFAULT_VAR = `__default__`;
 
 export interface ImportBinding {
@@ -31,10 +46,16 @@ export interface ImportBinding {
   local: string;
   source: string;
   isFromSetup: boolean;
+  isType: boolean;
 }
 
 export interface SFCScriptCompileOptions {
   inlineTemplate?: boolean;
+  /**
+   * File system access used to resolve types imported from relative paths in
+   * `defineProps<T>()` / `defineEmits<T>()`.
+   */
+  fs?: SFCFileSystem;
 }
 
 export function compileScript(
@@ -56,16 +77,31 @@ export function compileScript(
     }
 
     let content = script.content;
+    let map = script.map;
     const bindings = analyzeScriptBindings(scriptAst.body);
+    if (sfc.cssVars.length) {
+      // the default export has to be wrapped to inject `useCssVars()`
+      ({ code: content, map } = rewriteDefaultWithMap(content, DEFAULT_VAR, sfc.filename, map));
+      content += genNormalScriptCssVarsCode(sfc.cssVars, sfc.id, DEFAULT_VAR);
+      content += `\nexport default ${DEFAULT_VAR}`;
+    }
     return {
       ...script,
       content,
+      map,
       bindings,
       scriptAst: scriptAst.body,
       scriptSetupAst: scriptSetupAst.body,
     };
   }
 
+  // types declared in either <script> block can be used by the macros
+  const typeCtx = createTypeResolveContext(
+    sfc.filename,
+    [...scriptAst.body, ...scriptSetupAst.body],
+    options.fs,
+  );
+
   // metadata that needs to be returned
   const bindingMetadata: BindingMetadata = {};
   const userImports: Record<string, ImportBinding> = Object.create(null);
@@ -74,11 +110,23 @@ export function compileScript(
 
   let defaultExport: Node | undefined;
   let propsRuntimeDecl: Node | undefined;
-  let propsTypeDecl: TSTypeLiteral | undefined;
+  let propsTypeDecl: Node | undefined;
   let propsIdentifier: string | undefined;
+  let propsRuntimeDefaults: Node | undefined;
   let emitsRuntimeDecl: Node | undefined;
-  let emitsTypeDecl: TSTypeLiteral | undefined;
+  let emitsTypeDecl: Node | undefined;
   let emitIdentifier: string | undefined;
+  let optionsRuntimeDecl: Node | undefined;
+  let hasDefineExposeCall = false;
+  let hasDefineSlotsCall = false;
+  const modelDecls: Record<string, ModelDecl> = Object.create(null);
+
+  // runtime helpers used by the compiled macros, imported from "chibivue"
+  const helperImports = new Set<string>();
+  function helper(key: string): string {
+    helperImports.add(key);
+    return `_${key}`;
+  }
 
   // Props destructure support
   interface PropsDestructureBinding {
@@ -99,28 +147,31 @@ export function compileScript(
     local: string,
     imported: string,
     isFromSetup: boolean,
+    isType: boolean,
   ) {
     userImports[local] = {
       imported,
       local,
       source,
       isFromSetup,
+      isType,
     };
   }
 
+  function setupSource(node: Node): string {
+    return scriptSetup!.content.slice(node.start!, node.end!);
+  }
+
   function processDefineProps(node: Node, declId?: LVal): boolean {
     if (!isCallOf(node, DEFINE_PROPS)) {
-      return false;
+      return processWithDefaults(node, declId);
     }
 
     const callExpr = node as CallExpression;
 
-    // Check for type parameters: defineProps<{ foo: string }>()
+    // Check for type parameters: defineProps<{ foo: string }>() / defineProps<Props>()
     if (callExpr.typeParameters && callExpr.typeParameters.params.length > 0) {
-      const typeArg = callExpr.typeParameters.params[0];
-      if (typeArg.type === "TSTypeLiteral") {
-        propsTypeDecl = typeArg;
-      }
+      propsTypeDecl = callExpr.typeParameters.params[0];
     } else {
       // Runtime declaration
       propsRuntimeDecl = node.arguments[0];
@@ -137,6 +188,44 @@ export function compileScript(
     return true;
   }
 
+  function processWithDefaults(node: Node, declId?: LVal): boolean {
+    if (!isCallOf(node, WITH_DEFAULTS)) {
+      return false;
+    }
+    if (!processDefineProps(node.arguments[0], declId)) {
+      throw new Error(
+        `[@vue/compiler-sfc] ${WITH_DEFAULTS}' first argument must be a ${DEFINE_PROPS} call.`,
+      );
+    }
+    if (propsRuntimeDecl) {
+      throw new Error(
+        `[@vue/compiler-sfc] ${WITH_DEFAULTS} can only be used with type-based ` +
+          `${DEFINE_PROPS} declaration.`,
+      );
+    }
+    propsRuntimeDefaults = node.arguments[1];
+    if (!propsRuntimeDefaults) {
+      throw new Error(`[@vue/compiler-sfc] The 2nd argument of ${WITH_DEFAULTS} is required.`);
+    }
+    return true;
+  }
+
+  function checkInvalidScopeReference(node: Node | undefined, method: string) {
+    if (!node) return;
+    walkIdentifiers(node, (id) => {
+      // literal constants included: they stay inside setup() as well
+      if (setupBindings[id.name]) {
+        throw new Error(
+          `[@vue/compiler-sfc] \`${method}()\` in <script setup> cannot reference locally ` +
+            `declared variables because it will be hoisted outside of the setup() function. ` +
+            `If your component options require initialization in the module scope, use a ` +
+            `separate normal <script> to export the options instead.\n\n` +
+            generateCodeFrame(scriptSetup!.content, id.start!, id.end!),
+        );
+      }
+    });
+  }
+
   function processPropsDestructure(pattern: ObjectPattern) {
     for (const prop of pattern.properties) {
       if (prop.type === "ObjectProperty") {
@@ -190,12 +279,9 @@ export function compileScript(
 
     const callExpr = node as CallExpression;
 
-    // Check for type parameters: defineEmits<{ (e: 'change'): void }>()
+    // Check for type parameters: defineEmits<{ (e: 'change'): void }>() / defineEmits<Emits>()
     if (callExpr.typeParameters && callExpr.typeParameters.params.length > 0) {
-      const typeArg = callExpr.typeParameters.params[0];
-      if (typeArg.type === "TSTypeLiteral") {
-        emitsTypeDecl = typeArg;
-      }
+      emitsTypeDecl = callExpr.typeParameters.params[0];
     } else {
       // Runtime declaration
       emitsRuntimeDecl = node.arguments[0];
@@ -210,6 +296,125 @@ export function compileScript(
     return true;
   }
 
+  function processDefineExpose(node: Node): boolean {
+    if (!isCallOf(node, DEFINE_EXPOSE)) {
+      return false;
+    }
+    if (hasDefineExposeCall) {
+      throw new Error(`[@vue/compiler-sfc] duplicate ${DEFINE_EXPOSE}() call`);
+    }
+    hasDefineExposeCall = true;
+    // defineExpose(...) -> __expose(...)
+    s.overwrite(node.callee.start! + startOffset, node.callee.end! + startOffset, "__expose");
+    return true;
+  }
+
+  function processDefineSlots(node: Node, declId?: LVal): boolean {
+    if (!isCallOf(node, DEFINE_SLOTS)) {
+      return false;
+    }
+    if (hasDefineSlotsCall) {
+      throw new Error(`[@vue/compiler-sfc] duplicate ${DEFINE_SLOTS}() call`);
+    }
+    hasDefineSlotsCall = true;
+    if (node.arguments.length > 0) {
+      throw new Error(`[@vue/compiler-sfc] ${DEFINE_SLOTS}() cannot accept arguments`);
+    }
+    if (declId) {
+      // const slots = defineSlots<...>() -> const slots = _useSlots()
+      s.overwrite(node.start! + startOffset, node.end! + startOffset, `${helper("useSlots")}()`);
+    }
+    return true;
+  }
+
+  function processDefineOptions(node: Node): boolean {
+    if (!isCallOf(node, DEFINE_OPTIONS)) {
+      return false;
+    }
+    if (optionsRuntimeDecl) {
+      throw new Error(`[@vue/compiler-sfc] duplicate ${DEFINE_OPTIONS}() call`);
+    }
+    if (node.typeParameters) {
+      throw new Error(`[@vue/compiler-sfc] ${DEFINE_OPTIONS}() cannot accept type arguments`);
+    }
+    if (!node.arguments[0]) return true;
+
+    optionsRuntimeDecl = node.arguments[0];
+    if (optionsRuntimeDecl.type === "ObjectExpression") {
+      for (const prop of optionsRuntimeDecl.properties) {
+        if (
+          (prop.type === "ObjectProperty" || prop.type === "ObjectMethod") &&
+          prop.key.type === "Identifier"
+        ) {
+          const macro = {
+            props: DEFINE_PROPS,
+            emits: DEFINE_EMITS,
+            expose: DEFINE_EXPOSE,
+            slots: DEFINE_SLOTS,
+          }[prop.key.name];
+          if (macro) {
+            throw new Error(
+              `[@vue/compiler-sfc] ${DEFINE_OPTIONS}() cannot be used to declare ` +
+                `${prop.key.name}. Use ${macro}() instead.`,
+            );
+          }
+        }
+      }
+    }
+    return true;
+  }
+
+  function processDefineModel(node: Node, declId?: LVal): boolean {
+    if (!isCallOf(node, DEFINE_MODEL)) {
+      return false;
+    }
+
+    // defineModel("title", { ... }) or defineModel({ ... })
+    const arg0 = node.arguments[0];
+    const hasName = arg0 && arg0.type === "StringLiteral";
+    const modelName = hasName ? arg0.value : "modelValue";
+    const options = hasName ? node.arguments[1] : arg0;
+    if (modelDecls[modelName]) {
+      throw new Error(`[@vue/compiler-sfc] duplicate model name ${JSON.stringify(modelName)}`);
+    }
+
+    // `get` / `set` only make sense for the local ref, everything else is
+    // forwarded to the runtime prop declaration.
+    let propOptions: string | undefined;
+    let localOptions: string | undefined;
+    if (
+      options &&
+      options.type === "ObjectExpression" &&
+      !options.properties.some((p) => p.type === "SpreadElement" || p.computed)
+    ) {
+      const prop: string[] = [];
+      const local: string[] = [];
+      for (const p of options.properties) {
+        const key = resolveObjectKey((p as ObjectProperty).key, false);
+        (key === "get" || key === "set" ? local : prop).push(setupSource(p));
+      }
+      propOptions = prop.length ? `{ ${prop.join(", ")} }` : undefined;
+      localOptions = local.length ? `{ ${local.join(", ")} }` : undefined;
+    } else if (options) {
+      propOptions = localOptions = setupSource(options);
+    }
+
+    modelDecls[modelName] = {
+      type: (node.typeParameters && node.typeParameters.params[0]) || undefined,
+      options: propOptions,
+      identifier: declId && declId.type === "Identifier" ? declId.name : undefined,
+    };
+
+    s.overwrite(
+      node.start! + startOffset,
+      node.end! + startOffset,
+      `${helper("useModel")}(__props, ${JSON.stringify(modelName)}${
+        localOptions ? `, ${localOptions}` : ""
+      })`,
+    );
+    return true;
+  }
+
   function hoistNode(node: Statement) {
     const start = node.start! + startOffset;
     let end = node.end! + startOffset;
@@ -234,7 +439,14 @@ export function compileScript(
       if (node.type === "ImportDeclaration") {
         for (const specifier of node.specifiers) {
           const imported = getImportedName(specifier);
-          registerUserImport(node.source.value, specifier.local.name, imported, false);
+          registerUserImport(
+            node.source.value,
+            specifier.local.name,
+            imported,
+            false,
+            node.importKind === "type" ||
+              (specifier.type === "ImportSpecifier" && specifier.importKind === "type"),
+          );
         }
       }
     }
@@ -269,7 +481,14 @@ export function compileScript(
               removeSpecifier(i);
             }
           } else {
-            registerUserImport(source, local, imported, true);
+            registerUserImport(
+              source,
+              local,
+              imported,
+              true,
+              node.importKind === "type" ||
+                (specifier.type === "ImportSpecifier" && specifier.importKind === "type"),
+            );
           }
         }
         if (node.specifiers.length && removed === node.specifiers.length) {
@@ -351,8 +570,15 @@ export function compileScript(
 
     if (node.type === "ExpressionStatement") {
       const expr = node.expression;
-      if (processDefineProps(expr) || processDefineEmits(expr)) {
+      if (
+        processDefineProps(expr) ||
+        processDefineEmits(expr) ||
+        processDefineOptions(expr) ||
+        processDefineSlots(expr)
+      ) {
         s.remove(node.start! + startOffset, node.end! + startOffset);
+      } else {
+        processDefineExpose(expr) || processDefineModel(expr);
       }
     }
 
@@ -367,6 +593,10 @@ export function compileScript(
           const declId = decl.id.type === "VoidPattern" ? undefined : decl.id;
           const isDefineProps = processDefineProps(init, declId);
           const isDefineEmits = processDefineEmits(init, declId);
+          if (!isDefineProps && !isDefineEmits) {
+            // rewritten in place, the declaration is kept
+            processDefineSlots(init, declId) || processDefineModel(init, declId);
+          }
           if (isDefineProps || isDefineEmits) {
             if (left === 1) {
               s.remove(node.start! + startOffset, node.end! + startOffset);
@@ -389,6 +619,13 @@ export function compileScript(
     }
   }
 
+  // 4. check macro args to make sure they don't reference setup scope
+  // variables, since they are hoisted into the component options
+  checkInvalidScopeReference(propsRuntimeDecl, DEFINE_PROPS);
+  checkInvalidScopeReference(propsRuntimeDefaults, DEFINE_PROPS);
+  checkInvalidScopeReference(emitsRuntimeDecl, DEFINE_EMITS);
+  checkInvalidScopeReference(optionsRuntimeDecl, DEFINE_OPTIONS);
+
   // 6. remove non-script content
   if (script) {
     if (startOffset < scriptStartOffset!) {
@@ -419,10 +656,14 @@ export function compileScript(
   }
   // Register props from type declaration
   if (propsTypeDecl) {
-    for (const key of extractPropsKeysFromType(propsTypeDecl)) {
+    for (const key in resolveTypeElements(typeCtx, propsTypeDecl).props) {
       bindingMetadata[key] = BindingTypes.PROPS;
     }
   }
+  // Register model props declared with defineModel()
+  for (const key in modelDecls) {
+    bindingMetadata[key] = BindingTypes.PROPS;
+  }
   // Register destructured props as PROPS bindings
   for (const key in propsDestructuredBindings) {
     const { local } = propsDestructuredBindings[key];
@@ -508,12 +749,22 @@ export function compileScript(
     bindingMetadata[key] = setupBindings[key];
   }
 
+  // 8. inject `useCssVars` calls
+  if (sfc.cssVars.length) {
+    helper(CSS_VARS_HELPER);
+    helper("unref");
+    s.prependLeft(startOffset, `\n${genCssVarsCode(sfc.cssVars, bindingMetadata, sfc.id)}\n`);
+  }
+
   // 9. finalize setup() argument signature
   let args = `__props`;
   if (propsIdentifier) {
     s.prependLeft(startOffset, `\nconst ${propsIdentifier} = __props;\n`);
   }
   const destructureElements: string[] = [];
+  if (hasDefineExposeCall) {
+    destructureElements.push(`expose: __expose`);
+  }
   if (emitIdentifier) {
     destructureElements.push(emitIdentifier === `emit` ? `emit` : `emit: ${emitIdentifier}`);
   }
@@ -525,10 +776,22 @@ export function compileScript(
   let returned;
   if (options.inlineTemplate) {
     if (sfc.template) {
-      const { code, preamble } = compileTemplate({
-        source: sfc.template.content.trim(),
+      const { code, preamble, errors, tips } = compileTemplate({
+        source: sfc.template.content,
         compilerOptions: { inline: true, bindingMetadata },
       });
+      tips.forEach((tip) => console.warn(tip));
+      const err = errors[0];
+      if (err) {
+        if (err.loc) {
+          err.message += `\n\n${sfc.filename}\n${generateCodeFrame(
+            sfc.template.content,
+            err.loc.start.offset,
+            err.loc.end.offset,
+          )}\n`;
+        }
+        throw err;
+      }
 
       if (preamble) {
         s.prepend(preamble);
@@ -537,35 +800,97 @@ export function compileScript(
     } else {
       returned = `() => {}`;
     }
+  } else {
+    // the template is compiled separately and reads the bindings from the
+    // setup state
+    const allBindings: Record<string, unknown> = { ...scriptBindings, ...setupBindings };
+    for (const key in userImports) {
+      if (!userImports[key].isType) {
+        allBindings[key] = true;
+      }
+    }
+    const entries: string[] = [];
+    for (const key in allBindings) {
+      if (
+        allBindings[key] === true &&
+        userImports[key].source !== "vue" &&
+        userImports[key].source !== "chibivue"
+      ) {
+        // an import is returned through a getter, so that the template sees
+        // the module when it is hot updated
+        entries.push(`get ${key}() { return ${key} }`);
+      } else if (bindingMetadata[key] === BindingTypes.SETUP_LET) {
+        // a `let` can be reassigned from the template
+        const setArg = key === "v" ? `_v` : `v`;
+        entries.push(
+          `get ${key}() { return ${key} }`,
+          `set ${key}(${setArg}) { ${key} = ${setArg} }`,
+        );
+      } else {
+        entries.push(key);
+      }
+    }
+    returned = `{ ${entries.join(", ")} }`;
   }
   s.appendRight(endOffset, `\nreturn ${returned}\n`);
 
   // 11. finalize default export
   let runtimeOptions = ``;
+  if (optionsRuntimeDecl) {
+    runtimeOptions += `\n  ...${setupSource(optionsRuntimeDecl)},`;
+  }
+
+  let propsDecl: string | undefined;
   if (propsRuntimeDecl) {
-    let declCode = scriptSetup.content.slice(propsRuntimeDecl.start!, propsRuntimeDecl.end!).trim();
+    propsDecl = setupSource(propsRuntimeDecl).trim();
 
     // Merge defaults from destructuring
     const hasDefaults = Object.values(propsDestructuredBindings).some((b) => b.default);
     if (hasDefaults) {
       // Parse the runtime decl and merge defaults
-      declCode = mergePropsDefaults(declCode, propsDestructuredBindings);
+      propsDecl = mergePropsDefaults(propsDecl, propsDestructuredBindings);
     }
-
-    runtimeOptions += `\n  props: ${declCode},`;
   } else if (propsTypeDecl) {
     // Generate runtime props from type declaration
-    const declCode = genRuntimePropsFromType(propsTypeDecl, propsDestructuredBindings);
-    runtimeOptions += `\n  props: ${declCode},`;
+    const staticDefaults =
+      propsRuntimeDefaults && propsRuntimeDefaults.type === "ObjectExpression"
+        ? genPropsDefaults(propsRuntimeDefaults, setupSource)
+        : {};
+    propsDecl = genRuntimePropsFromType(
+      typeCtx,
+      propsTypeDecl,
+      propsDestructuredBindings,
+      staticDefaults,
+    );
+    if (propsRuntimeDefaults && propsRuntimeDefaults.type !== "ObjectExpression") {
+      // defaults that are not an object literal are merged at runtime
+      propsDecl = `${helper("mergeDefaults")}(${propsDecl}, ${setupSource(propsRuntimeDefaults)})`;
+    }
+  }
+  const modelProps = genModelProps(typeCtx, modelDecls);
+  if (modelProps) {
+    propsDecl = propsDecl ? `${helper("mergeModels")}(${propsDecl}, ${modelProps})` : modelProps;
   }
+  if (propsDecl) {
+    runtimeOptions += `\n  props: ${propsDecl},`;
+  }
+
+  let emitsDecl: string | undefined;
   if (emitsRuntimeDecl) {
-    runtimeOptions += `\n  emits: ${scriptSetup.content
-      .slice(emitsRuntimeDecl.start!, emitsRuntimeDecl.end!)
-      .trim()},`;
+    emitsDecl = setupSource(emitsRuntimeDecl).trim();
   } else if (emitsTypeDecl) {
     // Generate runtime emits from type declaration
-    const declCode = genRuntimeEmitsFromType(emitsTypeDecl);
-    runtimeOptions += `\n  emits: ${declCode},`;
+    emitsDecl = genRuntimeEmitsFromType(typeCtx, emitsTypeDecl);
+  }
+  const modelEmits = Object.keys(modelDecls).map((n) => JSON.stringify(`update:${n}`));
+  if (modelEmits.length) {
+    const modelEmitsDecl = `[${modelEmits.join(", ")}]`;
+    emitsDecl = emitsDecl
+      ? `${helper("mergeModels")}(${emitsDecl}, ${modelEmitsDecl})`
+      : modelEmitsDecl;
+  }
+  if (emitsDecl) {
+    runtimeOptions += `\n  emits: ${emitsDecl},`;
   }
 
   if (defaultExport) {
@@ -573,7 +898,7 @@ export function compileScript(
       startOffset,
       `\nexport default /*#__PURE__*/Object.assign(${
         defaultExport ? `${DEFAULT_VAR}, ` : ""
-      }{ setup(${args}) {\n`,
+      }{${runtimeOptions}\n  setup(${args}) {\n`,
     );
     s.appendRight(endOffset, `})`);
   } else {
@@ -581,11 +906,23 @@ export function compileScript(
     s.appendRight(endOffset, `}}`);
   }
 
+  if (helperImports.size > 0) {
+    s.prepend(
+      `import { ${[...helperImports].map((h) => `${h} as _${h}`).join(", ")} } from 'chibivue'\n`,
+    );
+  }
+
   s.trim();
 
   return {
     ...scriptSetup,
     content: s.toString(),
+    map: s.generateMap({
+      source: sfc.filename,
+      hires: true,
+      includeContent: true,
+    }) as unknown as RawSourceMap,
+    bindings: bindingMetadata,
     imports: userImports,
     scriptAst: scriptAst.body,
     scriptSetupAst: scriptSetupAst.body,
@@ -619,8 +956,10 @@ function walkDeclaration(
           bindingType = BindingTypes.SETUP_REACTIVE_CONST;
         } else if (isConst && canNeverBeRef(init!, userReactiveBinding)) {
           bindingType = BindingTypes.SETUP_CONST;
+        } else if (isConst && isCallOf(init, DEFINE_SLOTS)) {
+          bindingType = BindingTypes.SETUP_CONST;
         } else if (isConst) {
-          if (isCallOf(init, userImportAliases["ref"])) {
+          if (isCallOf(init, (m) => m === userImportAliases["ref"] || m === DEFINE_MODEL)) {
             bindingType = BindingTypes.SETUP_REF;
           } else {
             bindingType = BindingTypes.SETUP_MAYBE_REF;
@@ -889,122 +1228,130 @@ interface PropsDestructureBinding {
   default?: string;
 }
 
-function extractPropsKeysFromType(typeDecl: TSTypeLiteral): string[] {
-  const keys: string[] = [];
-  for (const member of typeDecl.members) {
-    if (member.type === "TSPropertySignature" && member.key.type === "Identifier") {
-      keys.push(member.key.name);
-    }
-  }
-  return keys;
+interface ModelDecl {
+  type: Node | undefined;
+  options: string | undefined;
+  identifier: string | undefined;
 }
 
 function genRuntimePropsFromType(
-  typeDecl: TSTypeLiteral,
+  ctx: TypeResolveContext,
+  typeDecl: Node,
   destructuredBindings: Record<string, PropsDestructureBinding>,
+  staticDefaults: Record<string, string> = {},
 ): string {
   const props: string[] = [];
+  const { props: members } = resolveTypeElements(ctx, typeDecl);
+
+  for (const key in members) {
+    const member = members[key];
+    const isOptional = !!member.optional;
+
+    // Get runtime type
+    const runtimeTypes =
+      member.type === "TSMethodSignature"
+        ? ["Function"]
+        : member.typeAnnotation
+          ? inferRuntimeType(ctx, member.typeAnnotation.typeAnnotation, member._ownerScope)
+          : ["null"];
+    const typeStr = genRuntimeTypeString(runtimeTypes);
+    const propKey = /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key);
+
+    // Check for default value from destructuring
+    const binding = destructuredBindings[key];
+    const hasDefault = binding?.default;
+
+    if (hasDefault) {
+      props.push(`${propKey}: { type: ${typeStr}, required: false, default: ${binding.default} }`);
+    } else if (staticDefaults[key]) {
+      props.push(`${propKey}: { type: ${typeStr}, required: false, ${staticDefaults[key]} }`);
+    } else if (isOptional) {
+      props.push(`${propKey}: { type: ${typeStr}, required: false }`);
+    } else {
+      props.push(`${propKey}: { type: ${typeStr}, required: true }`);
+    }
+  }
 
-  for (const member of typeDecl.members) {
-    if (member.type === "TSPropertySignature" && member.key.type === "Identifier") {
-      const key = member.key.name;
-      const isOptional = !!member.optional;
-      const typeAnnotation = member.typeAnnotation?.typeAnnotation;
-
-      // Get runtime type
-      const runtimeTypes = typeAnnotation ? resolveRuntimeType(typeAnnotation) : ["null"];
-      const typeStr = runtimeTypes.length === 1 ? runtimeTypes[0] : `[${runtimeTypes.join(", ")}]`;
+  return `{ ${props.join(", ")} }`;
+}
 
-      // Check for default value from destructuring
-      const binding = destructuredBindings[key];
-      const hasDefault = binding?.default;
+function genRuntimeTypeString(types: string[]): string {
+  return types.length === 1 ? types[0] : `[${types.join(", ")}]`;
+}
 
-      if (hasDefault) {
-        props.push(`${key}: { type: ${typeStr}, required: false, default: ${binding.default} }`);
-      } else if (isOptional) {
-        props.push(`${key}: { type: ${typeStr}, required: false }`);
-      } else {
-        props.push(`${key}: { type: ${typeStr}, required: true }`);
-      }
+/**
+ * Collect the `default` option of each prop from a static `withDefaults()`
+ * object, e.g. `{ msg: "hi", list: () => [] }`.
+ */
+function genPropsDefaults(
+  defaults: ObjectExpression,
+  source: (node: Node) => string,
+): Record<string, string> {
+  const res: Record<string, string> = {};
+  for (const prop of defaults.properties) {
+    if (prop.type === "SpreadElement") continue;
+    const key = resolveObjectKey(prop.key, prop.computed);
+    if (key === undefined) continue;
+    if (prop.type === "ObjectProperty") {
+      res[key] = `default: ${source(prop.value)}`;
+    } else {
+      // { foo() { ... } } is kept as the default factory
+      res[key] = `${prop.async ? "async " : ""}default(${prop.params
+        .map(source)
+        .join(", ")}) ${source(prop.body)}`;
     }
   }
-
-  return `{ ${props.join(", ")} }`;
+  return res;
 }
 
-function resolveRuntimeType(node: Node): string[] {
-  switch (node.type) {
-    case "TSStringKeyword":
-      return ["String"];
-    case "TSNumberKeyword":
-      return ["Number"];
-    case "TSBooleanKeyword":
-      return ["Boolean"];
-    case "TSArrayType":
-      return ["Array"];
-    case "TSFunctionType":
-      return ["Function"];
-    case "TSObjectKeyword":
-    case "TSTypeLiteral":
-      return ["Object"];
-    case "TSUnionType": {
-      const types: string[] = [];
-      for (const t of node.types) {
-        // Skip null/undefined in union
-        if (t.type === "TSNullKeyword" || t.type === "TSUndefinedKeyword") {
-          continue;
-        }
-        types.push(...resolveRuntimeType(t));
-      }
-      return types.length > 0 ? types : ["null"];
+function genModelProps(
+  ctx: TypeResolveContext,
+  modelDecls: Record<string, ModelDecl>,
+): string | undefined {
+  const names = Object.keys(modelDecls);
+  if (!names.length) return;
+
+  const props: string[] = [];
+  for (const name of names) {
+    const { type, options } = modelDecls[name];
+    let decl: string;
+    if (type) {
+      const typeStr = genRuntimeTypeString(inferRuntimeType(ctx, type));
+      decl = options ? `{ type: ${typeStr}, ...${options} }` : `{ type: ${typeStr} }`;
+    } else {
+      decl = options || `{}`;
     }
-    case "TSTypeReference":
-      if (node.typeName.type === "Identifier") {
-        const name = node.typeName.name;
-        // Built-in type mapping
-        if (name === "Array") return ["Array"];
-        if (name === "Function") return ["Function"];
-        if (name === "Object") return ["Object"];
-        if (name === "String") return ["String"];
-        if (name === "Number") return ["Number"];
-        if (name === "Boolean") return ["Boolean"];
-        // Custom types default to null (will be validated at runtime)
-        return ["null"];
-      }
-      return ["Object"];
-    default:
-      return ["null"];
+    props.push(`${JSON.stringify(name)}: ${decl}`);
+    const modifiersName = name === "modelValue" ? "modelModifiers" : `${name}Modifiers`;
+    props.push(`${JSON.stringify(modifiersName)}: {}`);
   }
+  return `{ ${props.join(", ")} }`;
 }
 
-function genRuntimeEmitsFromType(typeDecl: TSTypeLiteral): string {
-  const events: string[] = [];
+function genRuntimeEmitsFromType(ctx: TypeResolveContext, typeDecl: Node): string {
+  const events = new Set<string>();
+  const { props, calls } = resolveTypeElements(ctx, typeDecl);
 
-  for (const member of typeDecl.members) {
-    // Handle call signatures: { (e: 'change', value: string): void }
-    if (member.type === "TSCallSignatureDeclaration") {
-      const params = member.parameters;
-      if (params && params.length > 0) {
-        const firstParam = params[0];
-        if (
-          firstParam.type === "Identifier" &&
-          firstParam.typeAnnotation &&
-          "typeAnnotation" in firstParam.typeAnnotation
-        ) {
-          const typeAnn = firstParam.typeAnnotation.typeAnnotation as any;
-          if (typeAnn.type === "TSLiteralType" && typeAnn.literal.type === "StringLiteral") {
-            events.push(`"${typeAnn.literal.value}"`);
-          }
-        }
+  // Handle call signatures: { (e: 'change', value: string): void }
+  for (const call of calls) {
+    const firstParam = call.parameters[0];
+    if (
+      firstParam &&
+      firstParam.type === "Identifier" &&
+      firstParam.typeAnnotation &&
+      firstParam.typeAnnotation.type === "TSTypeAnnotation"
+    ) {
+      for (const key of resolveStringKeys(ctx, firstParam.typeAnnotation.typeAnnotation)) {
+        events.add(key);
       }
     }
-    // Handle property signatures: { change: (value: string) => void }
-    else if (member.type === "TSPropertySignature" && member.key.type === "Identifier") {
-      events.push(`"${member.key.name}"`);
-    }
+  }
+  // Handle property signatures: { change: (value: string) => void }
+  for (const key in props) {
+    events.add(key);
   }
 
-  return `[${events.join(", ")}]`;
+  return `[${[...events].map((e) => JSON.stringify(e)).join(", ")}]`;
 }
 
 function mergePropsDefaults(
@@ -1,3 +1,5 @@
+import { rewriteCssVars } from "./cssVars";
+
 export interface SFCStyleCompileOptions {
   source: string;
   filename: string;
@@ -12,14 +14,16 @@ export interface SFCStyleCompileResults {
 export function compileStyle(options: SFCStyleCompileOptions): SFCStyleCompileResults {
   const { source, id, scoped } = options;
 
+  // `v-bind()` is replaced with the custom properties set by `useCssVars()`
+  const code = rewriteCssVars(source, id);
+
   if (!scoped) {
-    return { code: source };
+    return { code };
   }
 
   const scopeId = `data-v-${id}`;
-  const code = processScoped(source, scopeId);
 
-  return { code };
+  return { code: processScoped(code, scopeId) };
 }
 
 /**
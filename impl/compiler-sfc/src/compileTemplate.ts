@@ -1,11 +1,15 @@
 import type {
   CodegenResult,
+  CompilerError,
   CompilerOptions,
   ParserOptions,
+  RawSourceMap,
   RootNode,
 } from "@chibivue/compiler-core";
+import { mergeSourceMaps } from "@chibivue/compiler-core";
 import * as CompilerDOM from "@chibivue/compiler-dom";
 import * as CompilerSSR from "@chibivue/compiler-ssr";
+import { generateCodeFrame } from "@chibivue/shared";
 
 export interface TemplateCompiler {
   compile(template: string, options: CompilerOptions): CodegenResult;
@@ -17,10 +21,22 @@ export interface SFCTemplateCompileResults {
   source: string;
   ast?: RootNode;
   preamble?: string;
+  map?: RawSourceMap;
+  errors: CompilerError[];
+  /**
+   * warnings, formatted with a code frame
+   */
+  tips: string[];
 }
 
 export interface SFCTemplateCompileOptions {
   source: string;
+  filename?: string;
+  /**
+   * Source map of the template block within the SFC (`SFCBlock.map`). When
+   * given, the returned map points into the SFC instead of the template.
+   */
+  inMap?: RawSourceMap;
   compiler?: TemplateCompiler;
   compilerOptions?: CompilerOptions;
   id?: string;
@@ -35,6 +51,8 @@ export interface SFCTemplateCompileOptions {
 
 export function compileTemplate({
   source,
+  filename,
+  inMap,
   compiler,
   compilerOptions,
   id,
@@ -52,13 +70,40 @@ export function compileTemplate({
   // The __vapor flag is used to indicate that hydration should use Vapor mode.
   const defaultCompiler = ssr ? (CompilerSSR as TemplateCompiler) : CompilerDOM;
 
-  let { code, ast, preamble } = (compiler || defaultCompiler).compile(source, {
+  // collect every problem of the template instead of stopping at the first
+  const errors: CompilerError[] = [];
+  const warnings: CompilerError[] = [];
+  let { code, ast, preamble, map } = (compiler || defaultCompiler).compile(source, {
+    sourceMap: true,
+    filename,
+    onError: (e) => errors.push(e),
+    onWarn: (w) => warnings.push(w),
     ...compilerOptions,
     isBrowser: false,
     scopeId: scoped ? id : undefined,
     ssr,
   });
 
+  // the error locations are relative to the template content, shift them to
+  // the SFC
+  if (inMap && errors.length) {
+    patchErrors(errors, source, inMap);
+  }
+
+  const tips = warnings.map((w) => {
+    let msg = w.message;
+    if (w.loc) {
+      msg += `\n${generateCodeFrame(source, w.loc.start.offset, w.loc.end.offset)}`;
+    }
+    return msg;
+  });
+
+  // the template compiler maps into the template content, so trace those
+  // positions back to the SFC through the block's line map
+  if (inMap && map) {
+    map = mergeSourceMaps(map, inMap);
+  }
+
   // For Vapor + SSR mode, the rendered code needs to indicate it's a Vapor component
   // This flag is used during hydration to use Vapor-specific hydration logic
   if (vapor && ssr) {
@@ -68,7 +113,28 @@ export function compileTemplate({
       /export (function|const) ssrRender/,
       "export const __vapor = true;\nexport $1 ssrRender",
     );
+    // the inserted line shifts everything below it
+    map = undefined;
   }
 
-  return { code: code, ast, source, preamble };
+  return { code: code, ast, source, preamble, map, errors, tips };
+}
+
+function patchErrors(errors: CompilerError[], source: string, inMap: RawSourceMap) {
+  const originalSource = inMap.sourcesContent![0];
+  const offset = originalSource.indexOf(source);
+  const lineOffset = originalSource.slice(0, offset).split(/\r?\n/).length - 1;
+  // the first line of the template starts after `<template>`
+  const columnOffset = offset - (originalSource.lastIndexOf("\n", offset - 1) + 1);
+  errors.forEach((err) => {
+    if (err.loc) {
+      // the same position object may be used for both start and end
+      const positions = new Set([err.loc.start, err.loc.end]);
+      positions.forEach((pos) => {
+        if (pos.line === 1) pos.column += columnOffset;
+        pos.line += lineOffset;
+        pos.offset += offset;
+      });
+    }
+  });
 }
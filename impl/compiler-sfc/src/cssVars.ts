@@ -0,0 +1,165 @@
+import {
+  type BindingMetadata,
+  NodeTypes,
+  createRoot,
+  createSimpleExpression,
+  createTransformContext,
+  processExpression,
+} from "@chibivue/compiler-core";
+
+import type { SFCDescriptor } from "./parse";
+
+export const CSS_VARS_HELPER = `useCssVars`;
+
+const vBindRE = /v-bind\s*\(/g;
+
+/**
+ * Collects the expressions of every `v-bind()` in the style blocks of the SFC.
+ */
+export function parseCssVars(sfc: SFCDescriptor): string[] {
+  const vars: string[] = [];
+  sfc.styles.forEach((style) => {
+    // ignore v-bind() in comments, e.g. /* ... */ and // ...
+    const content = style.content.replace(/\/\*([\s\S]*?)\*\/|\/\/.*/g, "");
+    for (const [start, end] of findCssVars(content)) {
+      const variable = normalizeExpression(content.slice(start, end));
+      if (!vars.includes(variable)) {
+        vars.push(variable);
+      }
+    }
+  });
+  return vars;
+}
+
+/**
+ * Replaces every `v-bind(expr)` in `css` with the CSS custom property that
+ * `useCssVars()` sets for `expr`.
+ */
+export function rewriteCssVars(css: string, id: string): string {
+  let result = "";
+  let last = 0;
+  for (const [start, end, matchStart] of findCssVars(css)) {
+    const variable = normalizeExpression(css.slice(start, end));
+    result += css.slice(last, matchStart) + `var(--${genVarName(id, variable)})`;
+    // skip the closing paren
+    last = end + 1;
+  }
+  return result + css.slice(last);
+}
+
+/**
+ * Generates the `useCssVars()` call injected into `setup()`. With binding
+ * metadata (`<script setup>`), bindings are accessed directly; otherwise they
+ * are read from the component instance.
+ */
+export function genCssVarsCode(
+  vars: string[],
+  bindings: BindingMetadata | undefined,
+  id: string,
+): string {
+  const varsExp = genCssVarsFromList(vars, id);
+  const exp = createSimpleExpression(varsExp, false);
+  const context = createTransformContext(createRoot([]), {
+    inline: true,
+    bindingMetadata: bindings,
+  });
+  const transformed = processExpression(exp, context);
+  const transformedString =
+    transformed.type === NodeTypes.SIMPLE_EXPRESSION
+      ? transformed.content
+      : transformed.children
+          .map((c) => (typeof c === "string" ? c : (c as { content: string }).content))
+          .join("");
+
+  return `_${CSS_VARS_HELPER}(_ctx => (${transformedString}))`;
+}
+
+/**
+ * `useCssVars()` for a normal `<script>`: wraps the `setup()` of the default
+ * export `as` so that the variables are injected before it runs.
+ */
+export function genNormalScriptCssVarsCode(vars: string[], id: string, as: string): string {
+  return (
+    `\nimport { ${CSS_VARS_HELPER} as _${CSS_VARS_HELPER} } from 'chibivue'\n` +
+    `const __injectCSSVars__ = () => {\n${genCssVarsCode(vars, undefined, id)}}\n` +
+    `const __setup__ = ${as}.setup\n` +
+    `${as}.setup = __setup__\n` +
+    `  ? (props, ctx) => { __injectCSSVars__();return __setup__(props, ctx) }\n` +
+    `  : __injectCSSVars__\n`
+  );
+}
+
+function genCssVarsFromList(vars: string[], id: string): string {
+  return `{\n  ${vars.map((key) => `"${genVarName(id, key)}": (${key})`).join(",\n  ")}\n}`;
+}
+
+function genVarName(id: string, raw: string): string {
+  return `${id}-${raw.replace(/[^\w-]/g, "_")}`;
+}
+
+function normalizeExpression(exp: string) {
+  exp = exp.trim();
+  if ((exp[0] === `'` && exp.endsWith(`'`)) || (exp[0] === `"` && exp.endsWith(`"`))) {
+    return exp.slice(1, -1);
+  }
+  return exp;
+}
+
+// [expression start, expression end, `v-bind(` start] of every v-bind()
+function findCssVars(css: string): [number, number, number][] {
+  const found: [number, number, number][] = [];
+  vBindRE.lastIndex = 0;
+  let match;
+  while ((match = vBindRE.exec(css))) {
+    const start = match.index + match[0].length;
+    const end = lexBinding(css, start);
+    if (end !== null) {
+      found.push([start, end, match.index]);
+    }
+  }
+  return found;
+}
+
+const enum LexerState {
+  inParens,
+  inSingleQuoteString,
+  inDoubleQuoteString,
+}
+
+// finds the closing paren of `v-bind(`, skipping nested parens and strings
+function lexBinding(content: string, start: number): number | null {
+  let state: LexerState = LexerState.inParens;
+  let parenDepth = 0;
+
+  for (let i = start; i < content.length; i++) {
+    const char = content.charAt(i);
+    switch (state) {
+      case LexerState.inParens:
+        if (char === `'`) {
+          state = LexerState.inSingleQuoteString;
+        } else if (char === `"`) {
+          state = LexerState.inDoubleQuoteString;
+        } else if (char === `(`) {
+          parenDepth++;
+        } else if (char === `)`) {
+          if (parenDepth > 0) {
+            parenDepth--;
+          } else {
+            return i;
+          }
+        }
+        break;
+      case LexerState.inSingleQuoteString:
+        if (char === `'`) {
+          state = LexerState.inParens;
+        }
+        break;
+      case LexerState.inDoubleQuoteString:
+        if (char === `"`) {
+          state = LexerState.inParens;
+        }
+        break;
+    }
+  }
+  return null;
+}
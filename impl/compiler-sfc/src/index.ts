@@ -2,8 +2,12 @@ export * from "./parse";
 export { compileScript } from "./compileScript";
 export { compileStyle } from "./compileStyle";
 export { compileTemplate } from "./compileTemplate";
-export { rewriteDefault } from "./rewriteDefault";
+export { rewriteDefault, rewriteDefaultWithMap } from "./rewriteDefault";
+export { createSourceMapGenerator, eachMapping, mergeSourceMaps } from "@chibivue/compiler-core";
 
+export type { SFCScriptCompileOptions } from "./compileScript";
+export type { SFCFileSystem } from "./resolveType";
+export type { CompilerError, RawSourceMap } from "@chibivue/compiler-core";
 export type { SFCStyleCompileOptions, SFCStyleCompileResults } from "./compileStyle";
 
 export type {
@@ -1,9 +1,21 @@
-import type { BindingMetadata, ElementNode, SourceLocation } from "@chibivue/compiler-core";
-import { NodeTypes } from "@chibivue/compiler-core";
+import type {
+  BindingMetadata,
+  CompilerError,
+  ElementNode,
+  RawSourceMap,
+  SourceLocation,
+} from "@chibivue/compiler-core";
+import {
+  NodeTypes,
+  TextModes,
+  advancePositionWithClone,
+  createSourceMapGenerator,
+} from "@chibivue/compiler-core";
 import * as CompilerDOM from "@chibivue/compiler-dom";
 
 import type { ImportBinding } from "./compileScript";
 import type { TemplateCompiler } from "./compileTemplate";
+import { parseCssVars } from "./cssVars";
 
 export const DEFAULT_FILENAME = "anonymous.vue";
 
@@ -11,6 +23,11 @@ export interface SFCParseOptions {
   filename?: string;
   sourceRoot?: string;
   compiler?: TemplateCompiler;
+  /**
+   * Attach a source map to each block, mapping its content back to the SFC.
+   * @default true
+   */
+  sourceMap?: boolean;
 }
 
 export interface SFCBlock {
@@ -18,6 +35,9 @@ export interface SFCBlock {
   content: string;
   loc: SourceLocation;
   attrs: Record<string, string | true>;
+  lang?: string;
+  src?: string;
+  map?: RawSourceMap;
 }
 
 export interface SFCTemplateBlock extends SFCBlock {
@@ -36,6 +56,7 @@ export interface SFCScriptBlock extends SFCBlock {
 export interface SFCStyleBlock extends SFCBlock {
   type: "style";
   scoped?: boolean;
+  module?: string | boolean;
 }
 
 export interface SFCDescriptor {
@@ -46,15 +67,21 @@ export interface SFCDescriptor {
   script: SFCScriptBlock | null;
   scriptSetup: SFCScriptBlock | null;
   styles: SFCStyleBlock[];
+  customBlocks: SFCBlock[];
+  /**
+   * expressions of `v-bind()` in the style blocks
+   */
+  cssVars: string[];
 }
 
 export interface SFCParseResult {
   descriptor: SFCDescriptor;
+  errors: (CompilerError | SyntaxError)[];
 }
 
 export function parse(
   source: string,
-  { filename = DEFAULT_FILENAME, compiler = CompilerDOM }: SFCParseOptions = {},
+  { filename = DEFAULT_FILENAME, compiler = CompilerDOM, sourceMap = true }: SFCParseOptions = {},
 ): SFCParseResult {
   const descriptor: SFCDescriptor = {
     id: undefined!,
@@ -64,15 +91,31 @@ export function parse(
     script: null,
     scriptSetup: null,
     styles: [],
+    customBlocks: [],
+    cssVars: [],
   };
 
-  const ast = compiler.parse(source, {});
+  const errors: (CompilerError | SyntaxError)[] = [];
+  const ast = compiler.parse(source, {
+    // everything but <template> is parsed as raw text, so that `<` in a script
+    // (e.g. `defineModel<string>()`) is not mistaken for a tag
+    getTextMode: ({ tag }, parent) =>
+      !parent && tag !== "template" ? TextModes.RAWTEXT : TextModes.DATA,
+    // collect the errors instead of throwing on the first one
+    onError: (e) => {
+      errors.push(e);
+    },
+  });
   ast.children.forEach((node) => {
     if (node.type !== NodeTypes.ELEMENT) return;
 
     switch (node.tag) {
       case "template": {
-        descriptor.template = createBlock(node, source) as SFCTemplateBlock;
+        if (!descriptor.template) {
+          descriptor.template = createBlock(node, source) as SFCTemplateBlock;
+        } else {
+          errors.push(createDuplicateBlockError(node));
+        }
         break;
       }
       case "script": {
@@ -80,10 +123,13 @@ export function parse(
         const isSetup = !!scriptBlock.attrs.setup;
         if (isSetup && !descriptor.scriptSetup) {
           descriptor.scriptSetup = scriptBlock;
+          break;
         }
         if (!isSetup && !descriptor.script) {
           descriptor.script = scriptBlock;
+          break;
         }
+        errors.push(createDuplicateBlockError(node, isSetup));
         break;
       }
       case "style": {
@@ -91,12 +137,97 @@ export function parse(
         break;
       }
       default: {
+        // e.g. <i18n> or <docs>, left to other tools to process
+        descriptor.customBlocks.push(createBlock(node, source));
         break;
       }
     }
   });
 
-  return { descriptor };
+  if (descriptor.scriptSetup) {
+    if (descriptor.scriptSetup.src) {
+      errors.push(
+        createBlockError(
+          descriptor.scriptSetup,
+          `<script setup> cannot use the "src" attribute because its syntax will be ambiguous outside of the component.`,
+        ),
+      );
+      descriptor.scriptSetup = null;
+    }
+    if (descriptor.script && descriptor.script.src) {
+      errors.push(
+        createBlockError(
+          descriptor.script,
+          `<script> cannot use the "src" attribute when <script setup> is also present because they must be processed together.`,
+        ),
+      );
+      descriptor.script = null;
+    }
+  }
+  if (
+    descriptor.script &&
+    descriptor.scriptSetup &&
+    descriptor.script.lang !== descriptor.scriptSetup.lang
+  ) {
+    errors.push(
+      createBlockError(
+        descriptor.scriptSetup,
+        `<script> and <script setup> must have the same language type.`,
+      ),
+    );
+  }
+
+  // parse CSS vars
+  descriptor.cssVars = parseCssVars(descriptor);
+
+  if (sourceMap) {
+    const genMap = (block: SFCBlock | null) => {
+      if (block && block.content) {
+        block.map = generateSourceMap(filename, source, block);
+      }
+    };
+    genMap(descriptor.template);
+    genMap(descriptor.script);
+    genMap(descriptor.scriptSetup);
+    descriptor.styles.forEach(genMap);
+    descriptor.customBlocks.forEach(genMap);
+  }
+
+  return { descriptor, errors };
+}
+
+function createDuplicateBlockError(node: ElementNode, isScriptSetup = false): CompilerError {
+  const err = new SyntaxError(
+    `Single file component can contain only one <${node.tag}${isScriptSetup ? ` setup` : ``}> element`,
+  ) as CompilerError;
+  err.loc = node.loc;
+  return err;
+}
+
+function createBlockError(block: SFCBlock, message: string): CompilerError {
+  const err = new SyntaxError(message) as CompilerError;
+  err.loc = block.loc;
+  return err;
+}
+
+// maps every line of the block content to the same line of the SFC
+function generateSourceMap(filename: string, source: string, block: SFCBlock): RawSourceMap {
+  const map = createSourceMapGenerator(filename);
+  map.setSourceContent(filename, source);
+  const { line: lineOffset, column: columnOffset } = block.loc.start;
+  block.content.split(/\r?\n/).forEach((line, index) => {
+    const column = line.search(/\S/);
+    if (column === -1) return;
+    map.addMapping({
+      source: filename,
+      generated: { line: index + 1, column },
+      original: {
+        line: index + lineOffset,
+        column: index === 0 ? column + columnOffset - 1 : column,
+      },
+    });
+  });
+  return map.toJSON();
 }
 
 function createBlock(node: ElementNode, source: string): SFCBlock {
@@ -107,6 +238,14 @@ function createBlock(node: ElementNode, source: string): SFCBlock {
     start = node.children[0].loc.start;
     end = node.children[node.children.length - 1].loc.end;
     content = source.slice(start.offset, end.offset);
+    if (type === "template") {
+      // leading / trailing whitespace would otherwise be compiled into text
+      // nodes around the root
+      const leading = content.length - content.trimStart().length;
+      content = content.trim();
+      start = advancePositionWithClone(start, source.slice(start.offset), leading);
+      end = advancePositionWithClone(start, content);
+    }
   } else {
     const offset = node.loc.source.indexOf(`</`);
     if (offset > -1) {
@@ -137,10 +276,14 @@ function createBlock(node: ElementNode, source: string): SFCBlock {
     if (p.type === NodeTypes.ATTRIBUTE) {
       attrs[p.name] = p.value ? p.value.content || true : true;
       if (p.name === "lang") {
-        // TODO: parse lang
+        block.lang = p.value && p.value.content;
+      } else if (p.name === "src") {
+        block.src = p.value && p.value.content;
       } else if (type === "style") {
         if (p.name === "scoped") {
           (block as SFCStyleBlock).scoped = true;
+        } else if (p.name === "module") {
+          (block as SFCStyleBlock).module = attrs[p.name];
         }
       } else if (type === "script" && p.name === "setup") {
         (block as SFCScriptBlock).setup = attrs.setup;
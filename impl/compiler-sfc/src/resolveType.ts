@@ -0,0 +1,617 @@
+import { parse as _parse } from "@babel/parser";
+import type {
+  Node,
+  Statement,
+  TSCallSignatureDeclaration,
+  TSEntityName,
+  TSEnumDeclaration,
+  TSFunctionType,
+  TSMethodSignature,
+  TSPropertySignature,
+  TSType,
+  TSTypeElement,
+} from "@babel/types";
+
+import { getImportedName } from "@chibivue/compiler-core";
+
+/**
+ * The file system access the type resolver needs to follow relative type
+ * imports, e.g. `import type { Props } from "./types"`.
+ */
+export interface SFCFileSystem {
+  fileExists(file: string): boolean;
+  readFile(file: string): string | undefined;
+}
+
+export interface TypeScope {
+  filename: string;
+  imports: Record<string, { source: string; imported: string }>;
+  types: Record<string, ScopeTypeNode>;
+  exportedTypes: Record<string, ScopeTypeNode>;
+  // `export { Foo } from "./foo"` and `export * from "./foo"`
+  reExports: Record<string, { source: string; imported: string }>;
+  exportAll: string[];
+}
+
+export interface TypeResolveContext {
+  filename: string;
+  fs?: SFCFileSystem;
+  scope: TypeScope;
+  fileScopes: Map<string, TypeScope>;
+}
+
+type ScopeTypeNode = Node & { _ownerScope: TypeScope };
+
+type ResolvedProp = (TSPropertySignature | TSMethodSignature) & { _ownerScope: TypeScope };
+
+export interface ResolvedElements {
+  props: Record<string, ResolvedProp>;
+  calls: (TSCallSignatureDeclaration | TSFunctionType)[];
+}
+
+const UNKNOWN_TYPE = "null";
+
+export function createTypeResolveContext(
+  filename: string,
+  body: Statement[],
+  fs?: SFCFileSystem,
+): TypeResolveContext {
+  return {
+    filename,
+    fs,
+    scope: createScope(filename, body),
+    fileScopes: new Map(),
+  };
+}
+
+function createScope(filename: string, body: Statement[]): TypeScope {
+  const scope: TypeScope = {
+    filename,
+    imports: Object.create(null),
+    types: Object.create(null),
+    exportedTypes: Object.create(null),
+    reExports: Object.create(null),
+    exportAll: [],
+  };
+  const localExports: [string, string][] = [];
+
+  for (const stmt of body) {
+    if (stmt.type === "ImportDeclaration") {
+      for (const s of stmt.specifiers) {
+        scope.imports[s.local.name] = {
+          source: stmt.source.value,
+          imported: getImportedName(s),
+        };
+      }
+    } else if (stmt.type === "ExportNamedDeclaration") {
+      if (stmt.declaration) {
+        const name = recordType(stmt.declaration, scope);
+        if (name) scope.exportedTypes[name] = scope.types[name];
+      }
+      for (const s of stmt.specifiers) {
+        if (s.type !== "ExportSpecifier") continue;
+        const exported = s.exported.type === "Identifier" ? s.exported.name : s.exported.value;
+        if (stmt.source) {
+          scope.reExports[exported] = { source: stmt.source.value, imported: s.local.name };
+        } else {
+          localExports.push([s.local.name, exported]);
+        }
+      }
+    } else if (stmt.type === "ExportAllDeclaration") {
+      scope.exportAll.push(stmt.source.value);
+    } else {
+      recordType(stmt, scope);
+    }
+  }
+
+  // export { Foo as Bar }
+  for (const [local, exported] of localExports) {
+    if (scope.types[local]) {
+      scope.exportedTypes[exported] = scope.types[local];
+    } else if (scope.imports[local]) {
+      scope.reExports[exported] = scope.imports[local];
+    }
+  }
+  return scope;
+}
+
+function recordType(node: Node, scope: TypeScope): string | undefined {
+  switch (node.type) {
+    case "TSInterfaceDeclaration":
+    case "TSTypeAliasDeclaration":
+    case "TSEnumDeclaration":
+      scope.types[node.id.name] = Object.assign(node, { _ownerScope: scope });
+      return node.id.name;
+  }
+}
+
+/**
+ * Resolve a type to the properties / call signatures it is made of, following
+ * local declarations, relative imports, `extends`, intersections and the
+ * `Partial` / `Required` / `Readonly` / `Pick` / `Omit` utility types.
+ */
+export function resolveTypeElements(
+  ctx: TypeResolveContext,
+  node: Node,
+  scope: TypeScope = ctx.scope,
+): ResolvedElements {
+  switch (node.type) {
+    case "TSTypeLiteral":
+      return typeElementsToMap(node.members, scope);
+    case "TSInterfaceDeclaration": {
+      const base = typeElementsToMap(node.body.body, scope);
+      if (node.extends) {
+        for (const ext of node.extends) {
+          const resolved = resolveTypeReference(ctx, ext.expression, scope);
+          if (!resolved) {
+            throw new Error(
+              `[@vue/compiler-sfc] Failed to resolve extends base type ` +
+                `"${getEntityName(ext.expression)}" in ${scope.filename}`,
+            );
+          }
+          const { props, calls } = resolveTypeElements(ctx, resolved, resolved._ownerScope);
+          for (const key in props) {
+            // own members take precedence over inherited ones
+            if (!(key in base.props)) base.props[key] = props[key];
+          }
+          base.calls.push(...calls);
+        }
+      }
+      return base;
+    }
+    case "TSTypeAliasDeclaration":
+    case "TSParenthesizedType":
+      return resolveTypeElements(ctx, node.typeAnnotation, scope);
+    case "TSFunctionType":
+      return { props: {}, calls: [node] };
+    case "TSUnionType":
+    case "TSIntersectionType":
+      return mergeElements(
+        node.types.map((t) => resolveTypeElements(ctx, t, scope)),
+        node.type,
+      );
+    case "TSMappedType": {
+      const res: ResolvedElements = { props: {}, calls: [] };
+      const keys = node.typeParameter.constraint
+        ? resolveStringKeys(ctx, node.typeParameter.constraint, scope)
+        : [];
+      for (const key of keys) {
+        res.props[key] = createProperty(
+          key,
+          node.typeAnnotation || { type: "TSAnyKeyword" },
+          scope,
+          !!node.optional && node.optional !== "-",
+        );
+      }
+      return res;
+    }
+    case "TSTypeReference": {
+      const name = getEntityName(node.typeName);
+      const params = node.typeParameters && node.typeParameters.params;
+      const resolved = resolveTypeReference(ctx, node.typeName, scope);
+      if (resolved) {
+        return resolveTypeElements(ctx, resolved, resolved._ownerScope);
+      }
+      if (params && SupportedUtilityTypes.has(name)) {
+        return resolveUtilityType(ctx, name, params, scope);
+      }
+      throw new Error(
+        `[@vue/compiler-sfc] Unresolvable type reference or unsupported built-in ` +
+          `utility type "${name}" in ${scope.filename}`,
+      );
+    }
+  }
+  throw new Error(`[@vue/compiler-sfc] Unresolvable type: ${node.type} in ${scope.filename}`);
+}
+
+function typeElementsToMap(elements: TSTypeElement[], scope: TypeScope): ResolvedElements {
+  const res: ResolvedElements = { props: {}, calls: [] };
+  for (const e of elements) {
+    if (e.type === "TSPropertySignature" || e.type === "TSMethodSignature") {
+      const key = getPropertyKey(e.key, e.computed);
+      if (key !== undefined) {
+        res.props[key] = Object.assign(e, { _ownerScope: scope });
+      }
+    } else if (e.type === "TSCallSignatureDeclaration") {
+      res.calls.push(e);
+    }
+  }
+  return res;
+}
+
+function mergeElements(
+  maps: ResolvedElements[],
+  type: "TSUnionType" | "TSIntersectionType",
+): ResolvedElements {
+  if (maps.length === 1) return maps[0];
+  const res: ResolvedElements = { props: {}, calls: [] };
+  for (const { props, calls } of maps) {
+    for (const key in props) {
+      const prop = props[key];
+      if (!(key in res.props)) {
+        res.props[key] = prop;
+      } else {
+        // the same key declared more than once: accept either type
+        const existing = res.props[key];
+        res.props[key] = createProperty(
+          key,
+          // each member type keeps its own scope to resolve references in
+          { type, types: [getPropType(existing), getPropType(prop)] } as TSType,
+          existing._ownerScope,
+          !!existing.optional || !!prop.optional,
+        );
+      }
+    }
+    res.calls.push(...calls);
+  }
+  if (type === "TSUnionType") {
+    // a prop that is missing from one of the union members is optional
+    for (const key in res.props) {
+      if (maps.some((m) => !(key in m.props))) {
+        res.props[key] = createProperty(
+          key,
+          getPropType(res.props[key]),
+          res.props[key]._ownerScope,
+          true,
+        );
+      }
+    }
+  }
+  return res;
+}
+
+function getPropType(prop: ResolvedProp): TSType & { _ownerScope?: TypeScope } {
+  if (prop.type === "TSMethodSignature") {
+    return { type: "TSFunctionType", parameters: prop.parameters } as TSFunctionType;
+  }
+  const type = prop.typeAnnotation
+    ? prop.typeAnnotation.typeAnnotation
+    : ({ type: "TSAnyKeyword" } as TSType);
+  return Object.assign(type, { _ownerScope: prop._ownerScope });
+}
+
+function createProperty(
+  key: string,
+  typeAnnotation: Node,
+  scope: TypeScope,
+  optional: boolean,
+): ResolvedProp {
+  return {
+    type: "TSPropertySignature",
+    key: { type: "Identifier", name: key },
+    kind: "get",
+    computed: false,
+    optional,
+    typeAnnotation: {
+      type: "TSTypeAnnotation",
+      typeAnnotation: typeAnnotation as TSType,
+    },
+    _ownerScope: scope,
+  } as ResolvedProp;
+}
+
+const SupportedUtilityTypes = new Set(["Partial", "Required", "Readonly", "Pick", "Omit"]);
+
+function resolveUtilityType(
+  ctx: TypeResolveContext,
+  name: string,
+  params: TSType[],
+  scope: TypeScope,
+): ResolvedElements {
+  const res = resolveTypeElements(ctx, params[0], scope);
+  switch (name) {
+    case "Partial": {
+      const partial: ResolvedElements = { props: {}, calls: res.calls };
+      for (const key in res.props) {
+        partial.props[key] = { ...res.props[key], optional: true };
+      }
+      return partial;
+    }
+    case "Required": {
+      const required: ResolvedElements = { props: {}, calls: res.calls };
+      for (const key in res.props) {
+        required.props[key] = { ...res.props[key], optional: false };
+      }
+      return required;
+    }
+    case "Readonly":
+      return res;
+    case "Pick": {
+      const picked: ResolvedElements = { props: {}, calls: res.calls };
+      for (const key of resolveStringKeys(ctx, params[1], scope)) {
+        if (key in res.props) picked.props[key] = res.props[key];
+      }
+      return picked;
+    }
+    default: {
+      // Omit
+      const omitted = new Set(resolveStringKeys(ctx, params[1], scope));
+      const rest: ResolvedElements = { props: {}, calls: res.calls };
+      for (const key in res.props) {
+        if (!omitted.has(key)) rest.props[key] = res.props[key];
+      }
+      return rest;
+    }
+  }
+}
+
+/**
+ * Resolve the keys described by a type, e.g. `"a" | "b"` or `keyof Props`.
+ */
+export function resolveStringKeys(
+  ctx: TypeResolveContext,
+  node: Node,
+  scope: TypeScope = ctx.scope,
+): string[] {
+  switch (node.type) {
+    case "TSLiteralType":
+      return node.literal.type === "StringLiteral" ? [node.literal.value] : [];
+    case "TSUnionType":
+      return node.types.flatMap((t) => resolveStringKeys(ctx, t, scope));
+    case "TSParenthesizedType":
+    case "TSTypeAliasDeclaration":
+      return resolveStringKeys(ctx, node.typeAnnotation, scope);
+    case "TSTypeOperator":
+      if (node.operator === "keyof") {
+        return Object.keys(resolveTypeElements(ctx, node.typeAnnotation, scope).props);
+      }
+      break;
+    case "TSTypeReference": {
+      const resolved = resolveTypeReference(ctx, node.typeName, scope);
+      if (resolved) {
+        return resolveStringKeys(ctx, resolved, resolved._ownerScope);
+      }
+    }
+  }
+  throw new Error(
+    `[@vue/compiler-sfc] Failed to resolve the keys of type ${node.type} in ${scope.filename}`,
+  );
+}
+
+function resolveTypeReference(
+  ctx: TypeResolveContext,
+  name: TSEntityName,
+  scope: TypeScope,
+): ScopeTypeNode | undefined {
+  if (name.type !== "Identifier") return;
+  if (scope.types[name.name]) {
+    return scope.types[name.name];
+  }
+  const imported = scope.imports[name.name];
+  if (imported) {
+    return resolveImportedType(ctx, imported.source, imported.imported, scope);
+  }
+}
+
+function resolveImportedType(
+  ctx: TypeResolveContext,
+  source: string,
+  imported: string,
+  scope: TypeScope,
+  seen: Set<TypeScope> = new Set(),
+): ScopeTypeNode | undefined {
+  // only relative imports are resolved, types from packages fall back to
+  // their unknown runtime type
+  if (!source.startsWith(".")) return;
+
+  const fileScope = loadFileScope(ctx, resolveImportPath(ctx, source, scope.filename));
+  if (seen.has(fileScope)) return;
+  seen.add(fileScope);
+
+  if (fileScope.exportedTypes[imported]) {
+    return fileScope.exportedTypes[imported];
+  }
+  const reExport = fileScope.reExports[imported];
+  if (reExport) {
+    return resolveImportedType(ctx, reExport.source, reExport.imported, fileScope, seen);
+  }
+  for (const s of fileScope.exportAll) {
+    const resolved = resolveImportedType(ctx, s, imported, fileScope, seen);
+    if (resolved) return resolved;
+  }
+}
+
+function resolveImportPath(ctx: TypeResolveContext, source: string, from: string): string {
+  const fs = ctx.fs;
+  if (!fs) {
+    throw new Error(
+      `[@vue/compiler-sfc] No fs option provided to compileScript. ` +
+        `File system access is required for resolving imported types.`,
+    );
+  }
+  const base = joinPaths(dirname(from), source.replace(/\.js$/, ""));
+  for (const file of [
+    base,
+    `${base}.ts`,
+    `${base}.d.ts`,
+    `${base}/index.ts`,
+    `${base}/index.d.ts`,
+  ]) {
+    if (file.endsWith(".ts") && fs.fileExists(file)) {
+      return file;
+    }
+  }
+  throw new Error(`[@vue/compiler-sfc] Failed to resolve import source "${source}" in ${from}`);
+}
+
+function loadFileScope(ctx: TypeResolveContext, filename: string): TypeScope {
+  const cached = ctx.fileScopes.get(filename);
+  if (cached) return cached;
+
+  const content = ctx.fs!.readFile(filename) || "";
+  const body = _parse(content, {
+    sourceType: "module",
+    plugins: [["typescript", { dts: filename.endsWith(".d.ts") }]],
+  }).program.body;
+  const scope = createScope(filename, body);
+  ctx.fileScopes.set(filename, scope);
+  return scope;
+}
+
+/**
+ * Infer the runtime constructors (`String`, `Array`, ...) a type may have at
+ * runtime. `"null"` stands for a type that can't be checked at runtime.
+ */
+export function inferRuntimeType(
+  ctx: TypeResolveContext,
+  node: Node,
+  scope: TypeScope = ctx.scope,
+): string[] {
+  switch (node.type) {
+    case "TSStringKeyword":
+    case "TSTemplateLiteralType":
+      return ["String"];
+    case "TSNumberKeyword":
+      return ["Number"];
+    case "TSBooleanKeyword":
+      return ["Boolean"];
+    case "TSBigIntKeyword":
+      return ["BigInt"];
+    case "TSSymbolKeyword":
+      return ["Symbol"];
+    case "TSObjectKeyword":
+    case "TSInterfaceDeclaration":
+    case "TSMappedType":
+      return ["Object"];
+    case "TSTypeLiteral": {
+      // a type literal with only call signatures is a function
+      const isCallable =
+        node.members.length > 0 &&
+        node.members.every(
+          (m) =>
+            m.type === "TSCallSignatureDeclaration" || m.type === "TSConstructSignatureDeclaration",
+        );
+      return [isCallable ? "Function" : "Object"];
+    }
+    case "TSFunctionType":
+    case "TSConstructorType":
+      return ["Function"];
+    case "TSArrayType":
+    case "TSTupleType":
+      return ["Array"];
+    case "TSLiteralType":
+      switch (node.literal.type) {
+        case "StringLiteral":
+        case "TemplateLiteral":
+          return ["String"];
+        case "BooleanLiteral":
+          return ["Boolean"];
+        case "NumericLiteral":
+          return ["Number"];
+        case "BigIntLiteral":
+          return ["BigInt"];
+        default:
+          return [UNKNOWN_TYPE];
+      }
+    case "TSParenthesizedType":
+    case "TSTypeAliasDeclaration":
+    case "TSOptionalType":
+      return inferRuntimeType(ctx, node.typeAnnotation, scope);
+    case "TSTypeOperator":
+      if (node.operator === "keyof") {
+        return ["String", "Number", "Symbol"];
+      }
+      // readonly string[]
+      return inferRuntimeType(ctx, node.typeAnnotation, scope);
+    case "TSEnumDeclaration":
+      return inferEnumType(node);
+    case "TSUnionType":
+    case "TSIntersectionType": {
+      const types = new Set<string>();
+      for (const t of node.types) {
+        // null / undefined only make the prop optional
+        if (t.type === "TSNullKeyword" || t.type === "TSUndefinedKeyword") continue;
+        const ownerScope = (t as { _ownerScope?: TypeScope })._ownerScope || scope;
+        for (const r of inferRuntimeType(ctx, t, ownerScope)) types.add(r);
+      }
+      if (types.size > 1) types.delete(UNKNOWN_TYPE);
+      return types.size ? [...types] : [UNKNOWN_TYPE];
+    }
+    case "TSTypeReference": {
+      const resolved = resolveTypeReference(ctx, node.typeName, scope);
+      if (resolved) {
+        return inferRuntimeType(ctx, resolved, resolved._ownerScope);
+      }
+      if (node.typeName.type !== "Identifier") {
+        return ["Object"];
+      }
+      const name = node.typeName.name;
+      switch (name) {
+        case "Array":
+        case "ReadonlyArray":
+          return ["Array"];
+        case "Function":
+        case "Object":
+        case "String":
+        case "Number":
+        case "Boolean":
+        case "Symbol":
+        case "BigInt":
+        case "Date":
+        case "Map":
+        case "Set":
+        case "WeakMap":
+        case "WeakSet":
+        case "Promise":
+        case "RegExp":
+        case "Error":
+          return [name];
+        case "Record":
+        case "Partial":
+        case "Required":
+        case "Readonly":
+        case "Pick":
+        case "Omit":
+          return ["Object"];
+        case "Uppercase":
+        case "Lowercase":
+        case "Capitalize":
+        case "Uncapitalize":
+          return ["String"];
+        case "NonNullable":
+          if (node.typeParameters && node.typeParameters.params[0]) {
+            return inferRuntimeType(ctx, node.typeParameters.params[0], scope);
+          }
+      }
+    }
+  }
+  return [UNKNOWN_TYPE];
+}
+
+function inferEnumType(node: TSEnumDeclaration): string[] {
+  const types = new Set<string>();
+  for (const m of node.members) {
+    if (m.initializer && m.initializer.type === "StringLiteral") {
+      types.add("String");
+    } else {
+      types.add("Number");
+    }
+  }
+  return types.size ? [...types] : ["Number"];
+}
+
+function getPropertyKey(key: Node, computed: boolean | null | undefined): string | undefined {
+  if (key.type === "Identifier" && !computed) return key.name;
+  if (key.type === "StringLiteral" || key.type === "NumericLiteral") return String(key.value);
+}
+
+function getEntityName(node: TSEntityName): string {
+  return node.type === "Identifier" ? node.name : `${getEntityName(node.left)}.${node.right.name}`;
+}
+
+function dirname(file: string): string {
+  const i = file.lastIndexOf("/");
+  return i > 0 ? file.slice(0, i) : i === 0 ? "/" : ".";
+}
+
+function joinPaths(base: string, relative: string): string {
+  const segments = base.split("/");
+  for (const seg of relative.split("/")) {
+    if (seg === "..") {
+      segments.pop();
+    } else if (seg !== "." && seg !== "") {
+      segments.push(seg);
+    }
+  }
+  return segments.join("/");
+}
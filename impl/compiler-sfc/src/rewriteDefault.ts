@@ -1,21 +1,52 @@
 import { parse } from "@babel/parser";
 import MagicString from "magic-string";
+import { type RawSourceMap, mergeSourceMaps } from "@chibivue/compiler-core";
 
 const defaultExportRE = /((?:^|\n|;)\s*)export(\s*)default/;
 const namedDefaultExportRE = /((?:^|\n|;)\s*)export(.+)(?:as)?(\s*)default/s;
 
 export function rewriteDefault(input: string, as: string): string {
+  return rewrite(input, as).toString();
+}
+
+/**
+ * Same as `rewriteDefault()`, but also returns the source map of the rewrite.
+ * When `inMap` (the map of `input` itself, e.g. from `compileScript()`) is
+ * given, the returned map points to the original source instead of `input`.
+ */
+export function rewriteDefaultWithMap(
+  input: string,
+  as: string,
+  filename: string,
+  inMap?: RawSourceMap,
+): { code: string; map: RawSourceMap } {
+  const s = rewrite(input, as);
+  let map = s.generateMap({
+    source: filename,
+    hires: true,
+    includeContent: true,
+  }) as unknown as RawSourceMap;
+  if (inMap) {
+    map = mergeSourceMaps(map, inMap);
+  }
+  return { code: s.toString(), map };
+}
+
+function rewrite(input: string, as: string): MagicString {
+  const s = new MagicString(input);
   if (!hasDefaultExport(input)) {
-    return input + `\nconst ${as} = {}`;
+    s.append(`\nconst ${as} = {}`);
+    return s;
   }
 
   const replaced: string | undefined = input.replace(defaultExportRE, `$1const ${as} =`);
 
   if (!hasDefaultExport(replaced)) {
-    return replaced;
+    const match = defaultExportRE.exec(input)!;
+    s.overwrite(match.index + match[1].length, match.index + match[0].length, `const ${as} =`);
+    return s;
   }
 
-  const s = new MagicString(input);
   const ast = parse(input, {
     sourceType: "module",
   }).program.body;
@@ -64,7 +95,7 @@ export function rewriteDefault(input: string, as: string): string {
     }
   });
 
-  return s.toString();
+  return s;
 }
 
 export function hasDefaultExport(input: string): boolean {
@@ -1,6 +1,7 @@
 import {
   type BlockStatement,
   type CallExpression,
+  type CompilerError,
   type CompilerOptions,
   ElementTypes,
   type IfStatement,
@@ -12,6 +13,7 @@ import {
   createBlockStatement,
   createCallExpression,
   createTemplateLiteral,
+  defaultOnError,
 } from "@chibivue/compiler-core";
 import { escapeHtml, isString } from "@chibivue/shared";
 import { SSR_INTERPOLATE, ssrHelpers } from "./runtimeHelpers";
@@ -25,7 +27,7 @@ export interface SSRTransformContext {
   options: CompilerOptions;
   body: (JSChildNode | IfStatement)[];
   helpers: Set<symbol>;
-  onError: (error: Error) => void;
+  onError: (error: CompilerError) => void;
   helper<T extends symbol>(name: T): T;
   pushStringPart(part: TemplateLiteral["elements"][0]): void;
   pushStatement(statement: IfStatement | CallExpression): void;
@@ -44,9 +46,7 @@ function createSSRTransformContext(
     options,
     body,
     helpers,
-    onError: (e: Error) => {
-      throw e;
-    },
+    onError: options.onError || defaultOnError,
     helper<T extends symbol>(name: T): T {
       helpers.add(name);
       return name;
@@ -1,11 +1,58 @@
-import { hasChanged, isObject } from "@chibivue/shared";
-import { ITERATE_KEY, track, trigger } from "./effect";
+import { hasChanged, hasOwn, isArray, isIntegerKey, isObject } from "@chibivue/shared";
+import {
+  ITERATE_KEY,
+  pauseScheduling,
+  pauseTracking,
+  resetScheduling,
+  resetTracking,
+  track,
+  trigger,
+} from "./effect";
+import { TrackOpTypes, TriggerOpTypes } from "./operations";
 import { ReactiveFlags, type Target, isReadonly, reactive, readonly, toRaw } from "./reactive";
 
 const get = createGetter();
 const shallowGet = createGetter(false, true);
 const readonlyGet = createGetter(true);
 
+const arrayInstrumentations: Record<string, Function> = /*#__PURE__*/ createArrayInstrumentations();
+
+function createArrayInstrumentations() {
+  const instrumentations: Record<string, Function> = {};
+  // instrument identity-sensitive Array methods to account for possible reactive
+  // values
+  (["includes", "indexOf", "lastIndexOf"] as const).forEach((key) => {
+    instrumentations[key] = function (this: unknown[], ...args: unknown[]) {
+      const arr = toRaw(this) as any;
+      for (let i = 0, l = this.length; i < l; i++) {
+        track(arr, TrackOpTypes.GET, i + "");
+      }
+      // we run the method using the original args first (which may be reactive)
+      const res = arr[key](...args);
+      if (res === -1 || res === false) {
+        // if that didn't work, run it again using raw values.
+        return arr[key](...args.map(toRaw));
+      } else {
+        return res;
+      }
+    };
+  });
+  // instrument length-altering mutation methods so that they don't track
+  // `length`: an effect that pushes to an array it also reads would otherwise
+  // keep re-triggering itself (or another effect doing the same).
+  (["push", "pop", "shift", "unshift", "splice"] as const).forEach((key) => {
+    instrumentations[key] = function (this: unknown[], ...args: unknown[]) {
+      pauseTracking();
+      pauseScheduling();
+      const res = (toRaw(this) as any)[key].apply(this, args);
+      resetScheduling();
+      resetTracking();
+      return res;
+    };
+  });
+  return instrumentations;
+}
+
 function createGetter(isReadonly = false, shallow = false) {
   return function get(target: Target, key: string | symbol, receiver: object) {
     if (key === ReactiveFlags.IS_REACTIVE) {
@@ -14,8 +61,13 @@ function createGetter(isReadonly = false, shallow = false) {
       return isReadonly;
     } else if (key === ReactiveFlags.IS_SHALLOW) {
       return shallow;
+    } else if (key === ReactiveFlags.RAW) {
+      return target;
     } else {
-      track(target, key);
+      if (!isReadonly && isArray(target) && hasOwn(arrayInstrumentations, key)) {
+        return Reflect.get(arrayInstrumentations, key, receiver);
+      }
+      track(target, TrackOpTypes.GET, key);
       const res = Reflect.get(target, key, receiver);
       if (isObject(res)) {
         return isReadonly ? readonly(res) : reactive(res);
@@ -44,22 +96,49 @@ function createSetter(shallow = false) {
     } else {
     }
 
+    const hadKey =
+      isArray(target) && isIntegerKey(key) ? Number(key) < target.length : hasOwn(target, key);
     const result = Reflect.set(target, key, value, receiver);
-    if (hasChanged(value, oldValue)) {
-      trigger(target, key);
+    // don't trigger if target is something up in the prototype chain of original
+    if (target === toRaw(receiver)) {
+      if (!hadKey) {
+        trigger(target, TriggerOpTypes.ADD, key, value);
+      } else if (hasChanged(value, oldValue)) {
+        trigger(target, TriggerOpTypes.SET, key, value, oldValue);
+      }
     }
 
     return result;
   };
 }
 
+function deleteProperty(target: object, key: string | symbol): boolean {
+  const hadKey = hasOwn(target, key);
+  const oldValue = (target as any)[key];
+  const result = Reflect.deleteProperty(target, key);
+  if (result && hadKey) {
+    trigger(target, TriggerOpTypes.DELETE, key, undefined, oldValue);
+  }
+  return result;
+}
+
+function has(target: object, key: string | symbol): boolean {
+  const result = Reflect.has(target, key);
+  track(target, TrackOpTypes.HAS, key);
+  return result;
+}
+
+function ownKeys(target: object): (string | symbol)[] {
+  track(target, TrackOpTypes.ITERATE, isArray(target) ? "length" : ITERATE_KEY);
+  return Reflect.ownKeys(target);
+}
+
 export const mutableHandlers: ProxyHandler<object> = {
   get,
   set,
-  ownKeys(target) {
-    track(target, ITERATE_KEY);
-    return Reflect.ownKeys(target);
-  },
+  deleteProperty,
+  has,
+  ownKeys,
 };
 
 export const readonlyHandlers: ProxyHandler<object> = {
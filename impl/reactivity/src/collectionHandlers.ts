@@ -1,5 +1,6 @@
 import { hasChanged, hasOwn, isMap } from "@chibivue/shared";
-import { ITERATE_KEY, track, trigger } from "./effect";
+import { ITERATE_KEY, MAP_KEY_ITERATE_KEY, track, trigger } from "./effect";
+import { TrackOpTypes, TriggerOpTypes } from "./operations";
 import { ReactiveFlags, toRaw, toReactive, toReadonly } from "./reactive";
 
 export type CollectionTypes = IterableCollections | WeakCollections;
@@ -17,7 +18,7 @@ function get(target: MapTypes, key: unknown, isReadonly = false, isShallow = fal
   target = (target as any)[ReactiveFlags.RAW];
   const rawTarget = toRaw(target);
   const rawKey = toRaw(key);
-  track(rawTarget, rawKey);
+  track(rawTarget, TrackOpTypes.GET, rawKey);
 
   const { has } = getProto(rawTarget);
   const wrap = isShallow ? toShallow : isReadonly ? toReadonly : toReactive;
@@ -34,13 +35,13 @@ function has(this: CollectionTypes, key: unknown): boolean {
   const target = (this as any)[ReactiveFlags.RAW];
   const rawTarget = toRaw(target);
   const rawKey = toRaw(key);
-  track(rawTarget, rawKey);
+  track(rawTarget, TrackOpTypes.HAS, rawKey);
   return target.has(key) || target.has(rawKey);
 }
 
 function size(target: IterableCollections) {
   target = (target as any)[ReactiveFlags.RAW];
-  track(target, ITERATE_KEY);
+  track(toRaw(target), TrackOpTypes.ITERATE, ITERATE_KEY);
   return Reflect.get(toRaw(target), "size", target);
 }
 
@@ -52,7 +53,7 @@ function add(this: SetTypes, value: unknown) {
   const hadKey = proto.has.call(target, value);
   if (!hadKey) {
     target.add(value);
-    trigger(target, ITERATE_KEY);
+    trigger(target, TriggerOpTypes.ADD, value, value);
   }
   return this;
 }
@@ -63,25 +64,32 @@ function set(this: MapTypes, key: unknown, value: unknown) {
 
   const { has, get } = getProto(target);
   let hadKey = has.call(target, key);
-  if (!hadKey) hadKey = has.call(target, key);
+  if (!hadKey) {
+    key = toRaw(key);
+    hadKey = has.call(target, key);
+  }
 
   const oldValue = get.call(target, key);
   target.set(key, value);
   if (!hadKey) {
-    trigger(target, ITERATE_KEY);
+    trigger(target, TriggerOpTypes.ADD, key, value);
   } else if (hasChanged(value, oldValue)) {
-    trigger(target, ITERATE_KEY);
+    trigger(target, TriggerOpTypes.SET, key, value, oldValue);
   }
   return this;
 }
 
 function deleteEntry(this: CollectionTypes, key: unknown) {
   const target = toRaw(this);
-  const { has } = getProto(target);
+  const { has, get } = getProto(target);
   let hadKey = has.call(target, key);
-  if (!hadKey) hadKey = has.call(target, key);
+  if (!hadKey) {
+    key = toRaw(key);
+    hadKey = has.call(target, key);
+  }
+  const oldValue = get ? get.call(target, key) : undefined;
   const result = target.delete(key);
-  if (hadKey) trigger(target, key);
+  if (hadKey) trigger(target, TriggerOpTypes.DELETE, key, undefined, oldValue);
   return result;
 }
 
@@ -89,7 +97,7 @@ function clear(this: IterableCollections) {
   const target = toRaw(this);
   const hadItems = target.size !== 0;
   const result = target.clear();
-  if (hadItems) trigger(target);
+  if (hadItems) trigger(target, TriggerOpTypes.CLEAR, undefined, undefined);
   return result;
 }
 
@@ -99,7 +107,7 @@ function createForEach(isReadonly: boolean, isShallow: boolean) {
     const target = observed[ReactiveFlags.RAW];
     const rawTarget = toRaw(target);
     const wrap = isShallow ? toShallow : isReadonly ? toReadonly : toReactive;
-    !isReadonly && track(rawTarget, ITERATE_KEY);
+    !isReadonly && track(rawTarget, TrackOpTypes.ITERATE, ITERATE_KEY);
     return target.forEach((value: unknown, key: unknown) => {
       return callback.call(thisArg, wrap(value), wrap(key), observed);
     });
@@ -125,8 +133,10 @@ function createIterableMethod(method: string | symbol) {
     const rawTarget = toRaw(target);
     const targetIsMap = isMap(rawTarget);
     const isPair = method === "entries" || (method === Symbol.iterator && targetIsMap);
+    const isKeyOnly = method === "keys" && targetIsMap;
     const innerIterator = target[method](...args);
-    track(rawTarget, ITERATE_KEY);
+    // iterating map keys doesn't care about value changes
+    track(rawTarget, TrackOpTypes.ITERATE, isKeyOnly ? MAP_KEY_ITERATE_KEY : ITERATE_KEY);
     return {
       next() {
         const { value, done } = innerIterator.next();
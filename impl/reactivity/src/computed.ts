@@ -1,6 +1,6 @@
-import { isFunction } from "@chibivue/shared";
+import { hasChanged, isFunction } from "@chibivue/shared";
 import type { Dep } from "./dep";
-import { ReactiveEffect } from "./effect";
+import { type DebuggerOptions, DirtyLevels, ReactiveEffect } from "./effect";
 import { type Ref, trackRefValue, triggerRefValue } from "./ref";
 
 export interface ComputedRef<T = any> extends WritableComputedRef<T> {
@@ -24,27 +24,21 @@ export class ComputedRefImpl<T> {
   public readonly effect: ReactiveEffect<T>;
   public readonly __v_isRef = true;
 
-  public _dirty = true;
-
   constructor(
     getter: ComputedGetter<T>,
     private readonly _setter: ComputedSetter<T>,
   ) {
-    this.effect = new ReactiveEffect(getter, () => {
-      if (!this._dirty) {
-        this._dirty = true;
-        triggerRefValue(this);
-      }
-    });
+    // subscribers are only told that they *may* be dirty; whether they really
+    // are is decided lazily, when they check `effect.dirty`.
+    this.effect = new ReactiveEffect(getter, () => triggerRefValue(this, DirtyLevels.MaybeDirty));
     this.effect.computed = this;
   }
 
   get value() {
-    trackRefValue(this);
-    if (this._dirty) {
-      this._dirty = false;
-      this._value = this.effect.run()!;
+    if (this.effect.dirty && hasChanged(this._value, (this._value = this.effect.run()!))) {
+      triggerRefValue(this, DirtyLevels.Dirty, this._value);
     }
+    trackRefValue(this);
     return this._value;
   }
 
@@ -53,9 +47,18 @@ export class ComputedRefImpl<T> {
   }
 }
 
-export function computed<T>(getterOrOptions: ComputedGetter<T>): ComputedRef<T>;
-export function computed<T>(getterOrOptions: WritableComputedOptions<T>): Ref<T>;
-export function computed<T>(getterOrOptions: ComputedGetter<T> | WritableComputedOptions<T>) {
+export function computed<T>(
+  getterOrOptions: ComputedGetter<T>,
+  debugOptions?: DebuggerOptions,
+): ComputedRef<T>;
+export function computed<T>(
+  getterOrOptions: WritableComputedOptions<T>,
+  debugOptions?: DebuggerOptions,
+): Ref<T>;
+export function computed<T>(
+  getterOrOptions: ComputedGetter<T> | WritableComputedOptions<T>,
+  debugOptions?: DebuggerOptions,
+) {
   let getter: ComputedGetter<T>;
   let setter: ComputedSetter<T>;
 
@@ -68,5 +71,12 @@ export function computed<T>(getterOrOptions: ComputedGetter<T> | WritableCompute
     getter = getterOrOptions.get;
     setter = getterOrOptions.set;
   }
-  return new ComputedRefImpl(getter, setter) as any;
+  const cRef = new ComputedRefImpl(getter, setter);
+
+  if (debugOptions) {
+    cRef.effect.onTrack = debugOptions.onTrack;
+    cRef.effect.onTrigger = debugOptions.onTrigger;
+  }
+
+  return cRef as any;
 }
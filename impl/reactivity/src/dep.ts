@@ -1,8 +1,19 @@
+import type { ComputedRefImpl } from "./computed";
 import type { ReactiveEffect } from "./effect";
 
-export type Dep = Set<ReactiveEffect>;
+/**
+ * A dep maps each subscribed effect to the `_trackId` of the run that
+ * tracked it. Entries whose id doesn't match the effect's current id are
+ * leftovers from a previous run and are cleaned up once that run finishes.
+ */
+export type Dep = Map<ReactiveEffect, number> & {
+  cleanup: () => void;
+  computed?: ComputedRefImpl<any>;
+};
 
-export const createDep = (effects?: ReactiveEffect[]): Dep => {
-  const dep: Dep = new Set<ReactiveEffect>(effects);
+export const createDep = (cleanup: () => void, computed?: ComputedRefImpl<any>): Dep => {
+  const dep = new Map() as Dep;
+  dep.cleanup = cleanup;
+  dep.computed = computed;
   return dep;
 };
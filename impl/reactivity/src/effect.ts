@@ -1,7 +1,8 @@
-import { isArray, isIntegerKey } from "@chibivue/shared";
+import { isArray, isIntegerKey, isMap, isSymbol } from "@chibivue/shared";
 import type { ComputedRefImpl } from "./computed";
 import { type Dep, createDep } from "./dep";
 import { type EffectScope, recordEffectScope } from "./effectScope";
+import { type TrackOpTypes, TriggerOpTypes } from "./operations";
 
 type KeyToDepMap = Map<any, Dep>;
 const targetMap = new WeakMap<any, KeyToDepMap>();
@@ -10,15 +11,56 @@ export let activeEffect: ReactiveEffect | undefined;
 
 export type EffectScheduler = (...args: any[]) => any;
 
+export type DebuggerEvent = {
+  effect: ReactiveEffect;
+} & DebuggerEventExtraInfo;
+
+export type DebuggerEventExtraInfo = {
+  target: object;
+  type: TrackOpTypes | TriggerOpTypes;
+  key: any;
+  newValue?: any;
+  oldValue?: any;
+};
+
+export interface DebuggerOptions {
+  onTrack?: (event: DebuggerEvent) => void;
+  onTrigger?: (event: DebuggerEvent) => void;
+}
+
 export const ITERATE_KEY: unique symbol = Symbol();
+export const MAP_KEY_ITERATE_KEY: unique symbol = Symbol();
+
+export const enum DirtyLevels {
+  NotDirty = 0,
+  MaybeDirty = 1,
+  Dirty = 2,
+}
 
 export class ReactiveEffect<T = any> {
   active = true;
-  parent: ReactiveEffect | undefined = undefined;
+  deps: Dep[] = [];
   computed?: ComputedRefImpl<T>;
 
   private deferStop?: boolean;
   onStop?: () => void;
+  // debugger hooks, see `DebuggerOptions`
+  onTrack?: (event: DebuggerEvent) => void;
+  onTrigger?: (event: DebuggerEvent) => void;
+
+  /**
+   * NotDirty: nothing this effect depends on has changed since the last run.
+   * MaybeDirty: an upstream computed was invalidated, but its value may still
+   * turn out to be the same.
+   * Dirty: a dependency has definitely changed.
+   */
+  _dirtyLevel: DirtyLevels = DirtyLevels.Dirty;
+  // incremented on every run, tags the deps tracked during that run
+  _trackId = 0;
+  // number of deps tracked so far in the current run
+  _depsLength = 0;
+  // > 0 while the effect is running (it may be running nested in itself)
+  _runnings = 0;
 
   constructor(
     public fn: () => T,
@@ -28,19 +70,56 @@ export class ReactiveEffect<T = any> {
     recordEffectScope(this, scope);
   }
 
+  /**
+   * Whether the effect needs to re-run. For a MaybeDirty effect this
+   * re-evaluates the upstream computeds (in the order they were tracked) and
+   * stops as soon as one of them actually produced a new value.
+   */
+  get dirty(): boolean {
+    if (this._dirtyLevel === DirtyLevels.MaybeDirty) {
+      pauseTracking();
+      for (let i = 0; i < this._depsLength; i++) {
+        const dep = this.deps[i];
+        if (dep.computed) {
+          // reading the value re-runs the computed if needed, and marks this
+          // effect as Dirty when the value has changed
+          dep.computed.value;
+          if (this._dirtyLevel >= DirtyLevels.Dirty) {
+            break;
+          }
+        }
+      }
+      if (this._dirtyLevel < DirtyLevels.Dirty) {
+        this._dirtyLevel = DirtyLevels.NotDirty;
+      }
+      resetTracking();
+    }
+    return this._dirtyLevel >= DirtyLevels.Dirty;
+  }
+
+  set dirty(v: boolean) {
+    this._dirtyLevel = v ? DirtyLevels.Dirty : DirtyLevels.NotDirty;
+  }
+
   run(): T | undefined {
+    this._dirtyLevel = DirtyLevels.NotDirty;
     if (!this.active) {
       return this.fn();
     }
 
+    const lastShouldTrack = shouldTrack;
+    const lastEffect = activeEffect;
     try {
-      this.parent = activeEffect;
+      shouldTrack = true;
       activeEffect = this;
-      const res = this.fn();
-      return res;
+      this._runnings++;
+      preCleanupEffect(this);
+      return this.fn();
     } finally {
-      activeEffect = this.parent;
-      this.parent = undefined;
+      postCleanupEffect(this);
+      this._runnings--;
+      activeEffect = lastEffect;
+      shouldTrack = lastShouldTrack;
       if (this.deferStop) {
         this.stop();
       }
@@ -51,6 +130,8 @@ export class ReactiveEffect<T = any> {
     if (activeEffect === this) {
       this.deferStop = true;
     } else if (this.active) {
+      preCleanupEffect(this);
+      postCleanupEffect(this);
       if (this.onStop) {
         this.onStop();
       }
@@ -59,7 +140,47 @@ export class ReactiveEffect<T = any> {
   }
 }
 
-export function track(target: object, key: unknown): void {
+function preCleanupEffect(effect: ReactiveEffect) {
+  effect._trackId++;
+  effect._depsLength = 0;
+}
+
+// drop every dep that was not tracked again during the last run
+function postCleanupEffect(effect: ReactiveEffect) {
+  if (effect.deps.length > effect._depsLength) {
+    for (let i = effect._depsLength; i < effect.deps.length; i++) {
+      cleanupDepEffect(effect.deps[i], effect);
+    }
+    effect.deps.length = effect._depsLength;
+  }
+}
+
+function cleanupDepEffect(dep: Dep, effect: ReactiveEffect) {
+  const trackId = dep.get(effect);
+  if (trackId !== undefined && effect._trackId !== trackId) {
+    dep.delete(effect);
+    if (dep.size === 0) {
+      dep.cleanup();
+    }
+  }
+}
+
+export let shouldTrack = true;
+const trackStack: boolean[] = [];
+
+export function pauseTracking(): void {
+  trackStack.push(shouldTrack);
+  shouldTrack = false;
+}
+
+export function resetTracking(): void {
+  const last = trackStack.pop();
+  shouldTrack = last === undefined ? true : last;
+}
+
+export function track(target: object, type: TrackOpTypes, key: unknown): void {
+  if (!shouldTrack || !activeEffect) return;
+
   let depsMap = targetMap.get(target);
   if (!depsMap) {
     targetMap.set(target, (depsMap = new Map()));
@@ -67,59 +188,151 @@ export function track(target: object, key: unknown): void {
 
   let dep = depsMap.get(key);
   if (!dep) {
-    depsMap.set(key, (dep = createDep()));
+    depsMap.set(key, (dep = createDep(() => depsMap!.delete(key))));
   }
 
-  trackEffects(dep);
+  trackEffects(dep, { target, type, key });
 }
 
-export function trackEffects(dep: Dep): void {
-  if (activeEffect) {
-    dep.add(activeEffect);
+export function trackEffects(dep: Dep, debuggerEventExtraInfo?: DebuggerEventExtraInfo): void {
+  const effect = activeEffect;
+  if (!shouldTrack || !effect || dep.get(effect) === effect._trackId) {
+    return;
+  }
+  dep.set(effect, effect._trackId);
+  if (effect.onTrack && debuggerEventExtraInfo) {
+    effect.onTrack({ effect, ...debuggerEventExtraInfo });
+  }
+  // deps are usually tracked in the same order on every run, so the dep at
+  // this position can be reused instead of being unsubscribed and re-added
+  const oldDep = effect.deps[effect._depsLength];
+  if (oldDep !== dep) {
+    if (oldDep) {
+      cleanupDepEffect(oldDep, effect);
+    }
+    effect.deps[effect._depsLength++] = dep;
+  } else {
+    effect._depsLength++;
   }
 }
 
-export function trigger(target: object, key?: unknown): void {
+export function trigger(
+  target: object,
+  type: TriggerOpTypes,
+  key?: unknown,
+  newValue?: unknown,
+  oldValue?: unknown,
+): void {
   const depsMap = targetMap.get(target);
   if (!depsMap) return;
 
   let deps: (Dep | undefined)[] = [];
-  if (key !== void 0) {
-    deps.push(depsMap.get(key));
-  }
+  if (type === TriggerOpTypes.CLEAR) {
+    // collection being cleared
+    // trigger all effects for target
+    deps = [...depsMap.values()];
+  } else if (key === "length" && isArray(target)) {
+    // shrinking an array removes every index at or above the new length
+    const newLength = Number(newValue);
+    depsMap.forEach((dep, key) => {
+      if (key === "length" || (!isSymbol(key) && key >= newLength)) {
+        deps.push(dep);
+      }
+    });
+  } else {
+    // schedule runs for SET | ADD | DELETE
+    if (key !== void 0) {
+      deps.push(depsMap.get(key));
+    }
 
-  if (!isArray(target)) {
-    deps.push(depsMap.get(ITERATE_KEY));
-  } else if (isIntegerKey(key)) {
-    deps.push(depsMap.get("length"));
+    // also run for iteration key on ADD | DELETE | Map.SET
+    switch (type) {
+      case TriggerOpTypes.ADD:
+        if (!isArray(target)) {
+          deps.push(depsMap.get(ITERATE_KEY));
+          if (isMap(target)) {
+            deps.push(depsMap.get(MAP_KEY_ITERATE_KEY));
+          }
+        } else if (isIntegerKey(key)) {
+          // new index added to array -> length changes
+          deps.push(depsMap.get("length"));
+        }
+        break;
+      case TriggerOpTypes.DELETE:
+        if (!isArray(target)) {
+          deps.push(depsMap.get(ITERATE_KEY));
+          if (isMap(target)) {
+            deps.push(depsMap.get(MAP_KEY_ITERATE_KEY));
+          }
+        }
+        break;
+      case TriggerOpTypes.SET:
+        if (isMap(target)) {
+          deps.push(depsMap.get(ITERATE_KEY));
+        }
+        break;
+    }
   }
 
+  pauseScheduling();
   for (const dep of deps) {
     if (dep) {
-      triggerEffects(dep);
+      triggerEffects(dep, DirtyLevels.Dirty, { target, type, key, newValue, oldValue });
     }
   }
+  resetScheduling();
 }
 
-export function triggerEffects(dep: Dep | ReactiveEffect[]): void {
-  const effects = isArray(dep) ? dep : [...dep];
-  for (const effect of effects) {
-    if (effect.computed) {
-      triggerEffect(effect);
-    }
+let pauseScheduleStack = 0;
+const queueEffectSchedulers: ReactiveEffect[] = [];
+
+export function pauseScheduling(): void {
+  pauseScheduleStack++;
+}
+
+export function resetScheduling(): void {
+  pauseScheduleStack--;
+  while (!pauseScheduleStack && queueEffectSchedulers.length) {
+    triggerEffect(queueEffectSchedulers.shift()!);
   }
+}
 
-  for (const effect of effects) {
-    if (!effect.computed) {
-      triggerEffect(effect);
+/**
+ * Mark every effect subscribed to `dep` with `dirtyLevel`. Computed effects
+ * propagate the change right away (as MaybeDirty) so that the whole chain is
+ * marked before any other effect is scheduled.
+ */
+export function triggerEffects(
+  dep: Dep,
+  dirtyLevel: DirtyLevels,
+  debuggerEventExtraInfo?: DebuggerEventExtraInfo,
+): void {
+  pauseScheduling();
+  for (const effect of dep.keys()) {
+    // an effect does not re-trigger itself while it is running
+    if (effect._dirtyLevel >= dirtyLevel || effect._runnings > 0) {
+      continue;
+    }
+    const shouldSchedule = effect._dirtyLevel === DirtyLevels.NotDirty;
+    effect._dirtyLevel = dirtyLevel;
+    if (effect.onTrigger && debuggerEventExtraInfo) {
+      effect.onTrigger({ effect, ...debuggerEventExtraInfo });
+    }
+    if (shouldSchedule) {
+      if (effect.computed) {
+        triggerEffect(effect);
+      } else {
+        queueEffectSchedulers.push(effect);
+      }
     }
   }
+  resetScheduling();
 }
 
 function triggerEffect(effect: ReactiveEffect) {
   if (effect.scheduler) {
     effect.scheduler();
-  } else {
+  } else if (effect.dirty) {
     effect.run();
   }
 }
@@ -133,12 +346,15 @@ export interface ReactiveEffectRunner<T = any> {
   effect: ReactiveEffect;
 }
 
-export function effect<T = any>(fn: () => T): ReactiveEffectRunner {
+export function effect<T = any>(fn: () => T, options?: DebuggerOptions): ReactiveEffectRunner {
   if ((fn as ReactiveEffectRunner).effect instanceof ReactiveEffect) {
     fn = (fn as ReactiveEffectRunner).effect.fn;
   }
 
   const _effect = new ReactiveEffect(fn);
+  if (options) {
+    Object.assign(_effect, options);
+  }
   _effect.run();
 
   const runner = _effect.run.bind(_effect) as ReactiveEffectRunner;
@@ -36,6 +36,7 @@ export {
 } from "./ref";
 export * from "./computed";
 export * from "./effect";
+export { TrackOpTypes, TriggerOpTypes } from "./operations";
 export {
   EffectScope,
   effectScope,
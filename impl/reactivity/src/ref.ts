@@ -1,7 +1,9 @@
 import { type IfAny, isArray } from "@chibivue/shared";
 import type { CollectionTypes } from "./collectionHandlers";
 import { type Dep, createDep } from "./dep";
-import { getDepFromReactive, trackEffects, triggerEffects } from "./effect";
+import { DirtyLevels, getDepFromReactive, trackEffects, triggerEffects } from "./effect";
+import { ComputedRefImpl } from "./computed";
+import { TrackOpTypes, TriggerOpTypes } from "./operations";
 import { type ShallowReactiveMarker, isReactive, toReactive } from "./reactive";
 
 declare const RefSymbol: unique symbol;
@@ -18,11 +20,29 @@ export interface Ref<T = any> {
 }
 
 export function trackRefValue(ref: RefBase<any>): void {
-  trackEffects(ref.dep || (ref.dep = createDep()));
+  trackEffects(
+    ref.dep ||
+      (ref.dep = createDep(
+        () => (ref.dep = undefined),
+        ref instanceof ComputedRefImpl ? ref : undefined,
+      )),
+    { target: ref, type: TrackOpTypes.GET, key: "value" },
+  );
 }
 
-export function triggerRefValue(ref: RefBase<any>): void {
-  if (ref.dep) triggerEffects(ref.dep);
+export function triggerRefValue(
+  ref: RefBase<any>,
+  dirtyLevel: DirtyLevels = DirtyLevels.Dirty,
+  newVal?: unknown,
+): void {
+  if (ref.dep) {
+    triggerEffects(ref.dep, dirtyLevel, {
+      target: ref,
+      type: TriggerOpTypes.SET,
+      key: "value",
+      newValue: newVal,
+    });
+  }
 }
 
 export function isRef<T>(r: Ref<T> | unknown): r is Ref<T>;
@@ -87,12 +107,12 @@ class RefImpl<T> {
 
   set value(newVal) {
     this._value = this.__v_isShallow ? newVal : toReactive(newVal);
-    triggerRefValue(this);
+    triggerRefValue(this, DirtyLevels.Dirty, newVal);
   }
 }
 
 export function triggerRef(ref: Ref): void {
-  triggerRefValue(ref);
+  triggerRefValue(ref, DirtyLevels.Dirty, ref.value);
 }
 
 export type MaybeRef<T = any> = T | Ref<T>;
@@ -1,7 +1,8 @@
 import { ref } from "@chibivue/reactivity";
 import { isFunction, isObject } from "@chibivue/shared";
 import type { Component, ComponentInternalInstance } from "./component";
-import { currentInstance } from "./component";
+import { currentInstance, isInSSRComponentSetup } from "./component";
+import { ErrorCodes, handleError } from "./errorHandling";
 import type { VNode } from "./vnode";
 import { createVNode } from "./vnode";
 
@@ -15,6 +16,7 @@ export interface AsyncComponentOptions<T = any> {
   errorComponent?: Component;
   delay?: number;
   timeout?: number;
+  suspensible?: boolean;
   onError?: (error: Error, retry: () => void, fail: () => void, attempts: number) => any;
 }
 
@@ -31,6 +33,7 @@ export function defineAsyncComponent<T extends Component = { new (): any }>(
     errorComponent,
     delay = 200,
     timeout,
+    suspensible = true,
     onError: userOnError,
   } = source;
 
@@ -95,12 +98,25 @@ export function defineAsyncComponent<T extends Component = { new (): any }>(
       const onError = (err: Error): void => {
         pendingRequest = null;
         error.value = err;
+        handleError(err, instance, ErrorCodes.ASYNC_COMPONENT_LOADER);
       };
 
       const loaded = ref(false);
       const error = ref<Error | undefined>();
       const delayed = ref(!!delay);
 
+      // suspense-controlled or SSR.
+      if ((suspensible && instance.suspense) || isInSSRComponentSetup) {
+        return load()
+          .then((comp) => {
+            return () => createInnerComp(comp, instance);
+          })
+          .catch((err) => {
+            onError(err);
+            return () => (errorComponent ? createVNode(errorComponent, { error: err }) : null);
+          });
+      }
+
       if (delay) {
         setTimeout(() => {
           delayed.value = false;
@@ -138,8 +154,13 @@ export function defineAsyncComponent<T extends Component = { new (): any }>(
   } as any;
 }
 
+export const isAsyncWrapper = (i: ComponentInternalInstance | VNode): boolean =>
+  !!(i.type as any).__asyncLoader;
+
 function createInnerComp(comp: Component, parent: ComponentInternalInstance): VNode {
-  const { props, children } = parent.vnode;
+  const { ref, props, children } = parent.vnode;
   const vnode = createVNode(comp, props, children);
+  // ensure inner component inherits the async wrapper's ref owner
+  vnode.ref = ref;
   return vnode;
 }
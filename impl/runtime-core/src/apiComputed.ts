@@ -1,5 +1,5 @@
 import { computed as _computed } from "@chibivue/reactivity";
 
-export const computed = ((getter: any) => {
-  return _computed(getter);
+export const computed = ((getterOrOptions: any, debugOptions?: any) => {
+  return _computed(getterOrOptions, debugOptions);
 }) as typeof _computed;
@@ -1,17 +1,24 @@
-import { createVNode } from "./vnode";
+import { cloneVNode, createVNode } from "./vnode";
 import type { ComponentPublicInstance } from "./componentPublicInstance";
-import type { RootRenderFunction } from "./renderer";
+import type { ElementNamespace, RootRenderFunction } from "./renderer";
+import type { RootHydrateFunction } from "./hydration";
 import type { Component } from "./component";
 import type { InjectionKey } from "./apiInject";
 
 export interface AppConfig {
   globalProperties: Record<string, any>;
+  errorHandler?: (err: unknown, instance: ComponentPublicInstance | null, info: string) => void;
+  warnHandler?: (msg: string, instance: ComponentPublicInstance | null, trace: string) => void;
 }
 
 export interface App<HostElement = any> {
   use(plugin: Plugin, ...options: any[]): App;
   component(name: string, component: Component): this;
-  mount(rootContainer: HostElement | string): void;
+  mount(
+    rootContainer: HostElement | string,
+    isHydrate?: boolean,
+    namespace?: ElementNamespace,
+  ): void;
   provide<T>(key: InjectionKey<T> | string, value: T): this;
   config: AppConfig;
   /** @internal */
@@ -26,8 +33,15 @@ export type CreateAppFunction<HostElement> = (rootComponent: Component) => App<H
 
 export interface AppContext {
   app: App; // for devtools
+  config: AppConfig;
   provides: Record<string | symbol, any>;
   components: Record<string, Component>;
+  /**
+   * Remounts the root component. Used by HMR when the root component itself
+   * is reloaded.
+   * @internal
+   */
+  reload?: () => void;
 }
 
 export type Plugin = {
@@ -37,6 +51,11 @@ export type Plugin = {
 export function createAppContext(): AppContext {
   return {
     app: null as any,
+    config: {
+      globalProperties: {},
+      errorHandler: undefined,
+      warnHandler: undefined,
+    },
     provides: Object.create(null),
     components: Object.create(null),
   };
@@ -44,20 +63,17 @@ export function createAppContext(): AppContext {
 
 export function createAppAPI<HostElement>(
   render: RootRenderFunction<HostElement>,
+  hydrate?: RootHydrateFunction,
 ): CreateAppFunction<HostElement> {
   return function createApp(rootComponent) {
     const context = createAppContext();
     const installedPlugins = new Set();
 
-    const config: AppConfig = {
-      globalProperties: {},
-    };
-
     const app: App = (context.app = {
       _component: rootComponent,
       _props: null,
       _context: context,
-      config,
+      config: context.config,
 
       use(plugin: Plugin, ...options: any[]) {
         // skip duplicate plugins
@@ -73,10 +89,18 @@ export function createAppAPI<HostElement>(
         return app;
       },
 
-      mount(rootContainer: HostElement) {
+      mount(rootContainer: HostElement, isHydrate?: boolean, namespace?: ElementNamespace) {
         const vnode = createVNode(rootComponent as ComponentPublicInstance);
         vnode.appContext = context;
-        render(vnode, rootContainer, null);
+
+        context.reload = () => {
+          render(cloneVNode(vnode), rootContainer, null, namespace);
+        };
+        if (isHydrate && hydrate) {
+          hydrate(vnode, rootContainer as any);
+        } else {
+          render(vnode, rootContainer, null, namespace);
+        }
       },
 
       provide(key, value) {
@@ -1,6 +1,9 @@
+import type { DebuggerEvent } from "@chibivue/reactivity";
 import type { VaporComponentInternalInstance } from "@chibivue/runtime-vapor";
 import { type ComponentInternalInstance, currentInstance, setCurrentInstance } from "./component";
+import type { ComponentPublicInstance } from "./componentPublicInstance";
 import { LifecycleHooks } from "./enums";
+import { callWithAsyncErrorHandling } from "./errorHandling";
 
 export function injectHook(
   type: LifecycleHooks,
@@ -11,7 +14,7 @@ export function injectHook(
     const hooks = (target as any)[type] || ((target as any)[type] = []);
     const wrappedHook = (...args: unknown[]) => {
       setCurrentInstance(target);
-      const res = hook(...args);
+      const res = callWithAsyncErrorHandling(hook, target as ComponentInternalInstance, type, args);
       return res;
     };
     hooks.push(wrappedHook);
@@ -40,3 +43,24 @@ export const onBeforeUnmount: LifecycleHookFn = createHook(LifecycleHooks.BEFORE
 export const onUnmounted: LifecycleHookFn = createHook(LifecycleHooks.UNMOUNTED);
 export const onActivated: LifecycleHookFn = createHook(LifecycleHooks.ACTIVATED);
 export const onDeactivated: LifecycleHookFn = createHook(LifecycleHooks.DEACTIVATED);
+
+export type DebuggerHook = (e: DebuggerEvent) => void;
+export const onRenderTriggered: LifecycleHookFn<DebuggerHook> = createHook<DebuggerHook>(
+  LifecycleHooks.RENDER_TRIGGERED,
+);
+export const onRenderTracked: LifecycleHookFn<DebuggerHook> = createHook<DebuggerHook>(
+  LifecycleHooks.RENDER_TRACKED,
+);
+
+export type ErrorCapturedHook<TError = unknown> = (
+  err: TError,
+  instance: ComponentPublicInstance | null,
+  info: string,
+) => boolean | void;
+
+export function onErrorCaptured<TError = Error>(
+  hook: ErrorCapturedHook<TError>,
+  target: ComponentInternalInstance | null = currentInstance as ComponentInternalInstance | null,
+): void {
+  injectHook(LifecycleHooks.ERROR_CAPTURED, hook, target);
+}
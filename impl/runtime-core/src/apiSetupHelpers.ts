@@ -0,0 +1,80 @@
+import { isArray, isFunction } from "@chibivue/shared";
+import {
+  type ComponentInternalInstance,
+  type SetupContext,
+  createSetupContext,
+  getCurrentInstance,
+} from "./component";
+import type { EmitsOptions, ObjectEmitsOptions } from "./componentEmits";
+import type { ComponentObjectPropsOptions, ComponentPropsOptions } from "./componentProps";
+import { warn } from "./warning";
+
+// `<script setup>` compiler macros are compile-time only and are replaced by
+// `compileScript`. The helpers below are what the compiled code calls instead.
+
+export function useSlots(): SetupContext["slots"] {
+  return getContext().slots;
+}
+
+export function useAttrs(): SetupContext["attrs"] {
+  return getContext().attrs;
+}
+
+function getContext(): SetupContext {
+  const i = getCurrentInstance() as ComponentInternalInstance | null;
+  if (!i) {
+    warn(`useContext() called without active instance.`);
+  }
+  return i!.setupContext || (i!.setupContext = createSetupContext(i!));
+}
+
+function normalizePropsOrEmits(
+  props: ComponentPropsOptions | EmitsOptions,
+): ComponentObjectPropsOptions | ObjectEmitsOptions {
+  return isArray(props)
+    ? props.reduce(
+        (normalized, p) => ((normalized[p] = null), normalized),
+        {} as Record<string, null>,
+      )
+    : (props as ComponentObjectPropsOptions | ObjectEmitsOptions);
+}
+
+/**
+ * Runtime helper for merging default declarations. Used by `withDefaults()`
+ * when its defaults argument is not an object literal.
+ */
+export function mergeDefaults(
+  raw: ComponentPropsOptions,
+  defaults: Record<string, any>,
+): ComponentObjectPropsOptions {
+  const props = normalizePropsOrEmits(raw) as ComponentObjectPropsOptions;
+  for (const key in defaults) {
+    if (key.startsWith("__skip")) continue;
+    let opt = props[key];
+    if (opt) {
+      if (isArray(opt) || isFunction(opt)) {
+        opt = props[key] = { type: opt, default: defaults[key] };
+      } else {
+        opt.default = defaults[key];
+      }
+    } else if (opt === null) {
+      opt = props[key] = { default: defaults[key] };
+    } else {
+      warn(`props default key "${key}" has no corresponding declaration.`);
+    }
+  }
+  return props;
+}
+
+/**
+ * Runtime helper for merging model declarations from `defineModel()` into the
+ * props / emits declared with `defineProps()` / `defineEmits()`.
+ */
+export function mergeModels(
+  a: ComponentPropsOptions | EmitsOptions,
+  b: ComponentPropsOptions | EmitsOptions,
+): ComponentPropsOptions | EmitsOptions {
+  if (!a || !b) return a || b;
+  if (isArray(a) && isArray(b)) return a.concat(b);
+  return Object.assign({}, normalizePropsOrEmits(a), normalizePropsOrEmits(b));
+}
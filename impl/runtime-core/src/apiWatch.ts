@@ -1,4 +1,10 @@
-import { type ComputedRef, ReactiveEffect, type Ref, isRef } from "@chibivue/reactivity";
+import {
+  type ComputedRef,
+  type DebuggerOptions,
+  ReactiveEffect,
+  type Ref,
+  isRef,
+} from "@chibivue/reactivity";
 import {
   hasChanged,
   isArray,
@@ -8,6 +14,8 @@ import {
   isPlainObject,
   isSet,
 } from "@chibivue/shared";
+import { type ComponentInternalInstance, currentInstance } from "./component";
+import { ErrorCodes, callWithAsyncErrorHandling, callWithErrorHandling } from "./errorHandling";
 
 export type WatchEffect = () => void;
 
@@ -21,7 +29,7 @@ export type WatchCallback<V = any, OV = any> = (
 
 const INITIAL_WATCHER_VALUE = {};
 
-export interface WatchOptions<Immediate = boolean> {
+export interface WatchOptions<Immediate = boolean> extends DebuggerOptions {
   immediate?: Immediate;
   deep?: boolean;
 }
@@ -36,8 +44,8 @@ export function watch<T>(
   return doWatch(source, cb, option);
 }
 
-export function watchEffect(source: WatchEffect): void {
-  doWatch(source, null);
+export function watchEffect(source: WatchEffect, options?: DebuggerOptions): void {
+  doWatch(source, null, options);
 }
 
 function doWatch(
@@ -45,10 +53,11 @@ function doWatch(
   cb: WatchCallback | null,
   option: WatchOptions = {},
 ) {
+  const instance = currentInstance as ComponentInternalInstance | null;
   let getter: () => any;
   let isMultiSource = false;
   if (isFunction(source)) {
-    getter = () => source();
+    getter = () => callWithErrorHandling(source, instance, ErrorCodes.WATCH_GETTER);
   } else if (isRef(source)) {
     getter = () => source.value;
   } else if (isArray(source)) {
@@ -67,7 +76,7 @@ function doWatch(
   let cleanup: () => void;
   let onCleanup: OnCleanup = (fn: () => void) => {
     cleanup = effect.onStop = () => {
-      fn();
+      callWithErrorHandling(fn, instance, ErrorCodes.WATCH_CLEANUP);
     };
   };
 
@@ -76,6 +85,9 @@ function doWatch(
     : INITIAL_WATCHER_VALUE;
 
   const job = () => {
+    if (!effect.active || !effect.dirty) {
+      return;
+    }
     if (cb) {
       const newValue = effect.run();
       if (
@@ -88,7 +100,11 @@ function doWatch(
         if (cleanup) {
           cleanup();
         }
-        cb(newValue, oldValue, onCleanup);
+        callWithAsyncErrorHandling(cb, instance, ErrorCodes.WATCH_CALLBACK, [
+          newValue,
+          oldValue,
+          onCleanup,
+        ]);
         oldValue = newValue;
       }
     } else {
@@ -98,6 +114,8 @@ function doWatch(
   };
 
   const effect = new ReactiveEffect(getter, job);
+  effect.onTrack = option.onTrack;
+  effect.onTrigger = option.onTrigger;
 
   // initial run
   if (option.immediate) {
@@ -1,11 +1,17 @@
 import { type VaporComponentInternalInstance, isVapor } from "@chibivue/runtime-vapor";
 import { EffectScope, type ReactiveEffect, proxyRefs } from "@chibivue/reactivity";
-import { isFunction, isObject } from "@chibivue/shared";
+import { NOOP, isFunction, isObject, isPromise } from "@chibivue/shared";
 
 import { type AppContext, createAppContext } from "./apiCreateApp";
-import { type EmitFn, type EmitsOptions, type ObjectEmitsOptions, emit } from "./componentEmits";
+import {
+  type EmitFn,
+  type EmitsOptions,
+  type ObjectEmitsOptions,
+  emit,
+  normalizeEmitsOptions,
+} from "./componentEmits";
 import { type ComponentOptions, applyOptions } from "./componentOptions";
-import { type NormalizedProps, initProps } from "./componentProps";
+import { type NormalizedPropsOptions, initProps, normalizePropsOptions } from "./componentProps";
 import {
   type ComponentPublicInstance,
   PublicInstanceProxyHandlers,
@@ -16,8 +22,11 @@ import {
   type UnwrapSlotsType,
   initSlots,
 } from "./componentSlots";
+import type { SuspenseBoundary } from "./components/Suspense";
 import { LifecycleHooks } from "./enums";
+import { ErrorCodes, callWithErrorHandling } from "./errorHandling";
 import type { VNode, VNodeChild } from "./vnode";
+import { warn } from "./warning";
 
 export type Data = Record<string, unknown>;
 
@@ -41,7 +50,7 @@ export interface ComponentInternalInstance {
 
   components: Record<string, ConcreteComponent> | null;
 
-  propsOptions: NormalizedProps;
+  propsOptions: NormalizedPropsOptions;
   emitsOptions: ObjectEmitsOptions | null;
 
   subTree: VNode;
@@ -53,16 +62,28 @@ export interface ComponentInternalInstance {
   exposed: Record<string, any> | null;
   exposeProxy: Record<string, any> | null;
   ctx: Data;
+  refs: Data;
   data: Data;
   props: Data;
+  attrs: Data;
   slots: InternalSlots;
   emit: EmitFn;
 
   setupState: Data;
   setupContext: SetupContext | null;
 
+  // resolved props default values, cached so that factories run only once
+  propsDefaults: Data;
+
+  // suspense related
+  suspense: SuspenseBoundary | null;
+  suspenseId: number;
+  asyncDep: Promise<any> | null;
+  asyncResolved: boolean;
+
   // lifecycle
   isMounted: boolean;
+  isUnmounted: boolean;
   isDeactivated: boolean;
   [LifecycleHooks.BEFORE_MOUNT]: LifecycleHook;
   [LifecycleHooks.MOUNTED]: LifecycleHook;
@@ -72,9 +93,13 @@ export interface ComponentInternalInstance {
   [LifecycleHooks.UNMOUNTED]: LifecycleHook;
   [LifecycleHooks.ACTIVATED]: LifecycleHook;
   [LifecycleHooks.DEACTIVATED]: LifecycleHook;
+  [LifecycleHooks.ERROR_CAPTURED]: LifecycleHook;
+  [LifecycleHooks.RENDER_TRACKED]: LifecycleHook;
+  [LifecycleHooks.RENDER_TRIGGERED]: LifecycleHook;
 }
 
 export type SetupContext<E = EmitsOptions, S extends SlotsType = {}> = {
+  attrs: Data;
   slots: UnwrapSlotsType<S>;
   emit: EmitFn<E>;
   expose: (exposed?: Record<string, any>) => void;
@@ -92,6 +117,7 @@ let uid = 0;
 export function createComponentInstance(
   vnode: VNode,
   parent: ComponentInternalInstance | VaporComponentInternalInstance | null,
+  suspense: SuspenseBoundary | null = null,
 ): ComponentInternalInstance {
   const type = vnode.type as ConcreteComponent;
   const appContext = (parent ? parent.appContext : vnode.appContext) || createAppContext();
@@ -112,21 +138,31 @@ export function createComponentInstance(
 
     provides: parent ? parent.provides : Object.create(appContext.provides),
     components: null,
-    propsOptions: type.props || {},
-    emitsOptions: type.emits || {},
+    propsOptions: normalizePropsOptions(type),
+    emitsOptions: normalizeEmitsOptions(type),
     emit: null!, // to be set immediately
 
     exposed: null,
     exposeProxy: null,
+    refs: {},
     ctx: {},
     data: {},
     props: {},
+    attrs: {},
     slots: {},
 
     setupState: {},
     setupContext: null,
 
+    propsDefaults: {},
+
+    suspense,
+    suspenseId: suspense ? suspense.pendingId : 0,
+    asyncDep: null,
+    asyncResolved: false,
+
     isMounted: false,
+    isUnmounted: false,
     isDeactivated: false,
     [LifecycleHooks.BEFORE_MOUNT]: null,
     [LifecycleHooks.MOUNTED]: null,
@@ -136,6 +172,9 @@ export function createComponentInstance(
     [LifecycleHooks.UNMOUNTED]: null,
     [LifecycleHooks.ACTIVATED]: null,
     [LifecycleHooks.DEACTIVATED]: null,
+    [LifecycleHooks.ERROR_CAPTURED]: null,
+    [LifecycleHooks.RENDER_TRACKED]: null,
+    [LifecycleHooks.RENDER_TRIGGERED]: null,
   };
 
   instance.ctx = { _: instance };
@@ -171,7 +210,14 @@ export const unsetCurrentInstance = (): void => {
   currentInstance = null;
 };
 
-export const setupComponent = (instance: ComponentInternalInstance): void => {
+export let isInSSRComponentSetup = false;
+
+export const setupComponent = (
+  instance: ComponentInternalInstance,
+  isSSR = false,
+): Promise<void> | undefined => {
+  isInSSRComponentSetup = isSSR;
+
   const { props, children } = instance.vnode;
   initProps(instance, props);
   initSlots(instance, children);
@@ -185,15 +231,46 @@ export const setupComponent = (instance: ComponentInternalInstance): void => {
   if (setup) {
     const setupContext = (instance.setupContext = createSetupContext(instance));
     setCurrentInstance(instance);
-    const setupResult = setup(instance.props, setupContext);
-    if (isFunction(setupResult)) {
-      instance.render = setupResult as InternalRenderFunction;
-    } else if (isObject(setupResult)) {
-      instance.setupState = proxyRefs(setupResult);
-    }
+    const setupResult = callWithErrorHandling(setup, instance, ErrorCodes.SETUP_FUNCTION, [
+      instance.props,
+      setupContext,
+    ]);
     unsetCurrentInstance();
+
+    if (isPromise(setupResult)) {
+      isInSSRComponentSetup = false;
+      if (isSSR) {
+        // return the promise so server-renderer can wait on it
+        return setupResult.then((resolvedResult: unknown) => {
+          handleSetupResult(instance, resolvedResult);
+        });
+      } else {
+        // async setup returned Promise.
+        // bail here and wait for re-entry.
+        instance.asyncDep = setupResult;
+        return;
+      }
+    }
+    handleSetupResult(instance, setupResult);
+  } else {
+    finishComponentSetup(instance);
   }
 
+  isInSSRComponentSetup = false;
+};
+
+export function handleSetupResult(instance: ComponentInternalInstance, setupResult: unknown): void {
+  if (isFunction(setupResult)) {
+    instance.render = setupResult as InternalRenderFunction;
+  } else if (isObject(setupResult)) {
+    instance.setupState = proxyRefs(setupResult);
+  }
+  finishComponentSetup(instance);
+}
+
+function finishComponentSetup(instance: ComponentInternalInstance): void {
+  const Component = instance.type as ComponentOptions;
+
   if (compile && !Component.render) {
     const template = Component.template ?? "";
     if (template) {
@@ -205,11 +282,19 @@ export const setupComponent = (instance: ComponentInternalInstance): void => {
     instance.render = Component.render as any;
   }
 
+  if (!instance.render) {
+    // an async setup() that rejected has no render function either
+    if (!instance.asyncDep) {
+      warn(`Component is missing template or render function.`);
+    }
+    instance.render = NOOP as any;
+  }
+
   // Options API
   setCurrentInstance(instance);
   applyOptions(instance);
   unsetCurrentInstance();
-};
+}
 
 export function getExposeProxy(
   instance: ComponentInternalInstance,
@@ -242,5 +327,5 @@ export function createSetupContext(instance: ComponentInternalInstance): SetupCo
   const expose: SetupContext["expose"] = (exposed) => {
     instance.exposed = exposed || {};
   };
-  return { slots: instance.slots, emit: instance.emit, expose };
+  return { attrs: instance.attrs, slots: instance.slots, emit: instance.emit, expose };
 }
@@ -1,5 +1,17 @@
-import { type UnionToIntersection, camelize, toHandlerKey } from "@chibivue/shared";
-import type { ComponentInternalInstance } from "./component";
+import {
+  type UnionToIntersection,
+  camelize,
+  hasOwn,
+  hyphenate,
+  isArray,
+  isOn,
+  isString,
+  looseToNumber,
+  toHandlerKey,
+} from "@chibivue/shared";
+import type { ComponentInternalInstance, ConcreteComponent } from "./component";
+import { ErrorCodes, callWithAsyncErrorHandling } from "./errorHandling";
+import { getModelModifiers } from "./helpers/useModel";
 
 export type ObjectEmitsOptions = Record<string, ((...args: any[]) => any) | null>;
 
@@ -22,7 +34,52 @@ export function emit(instance: ComponentInternalInstance, event: string, ...rawA
   const props = instance.vnode.props || {};
   let args = rawArgs;
 
+  // for v-model update:xxx events, apply modifiers on args
+  const isModelListener = event.startsWith("update:");
+  const modifiers = isModelListener && getModelModifiers(props, event.slice(7));
+  if (modifiers) {
+    if (modifiers.trim) {
+      args = rawArgs.map((a) => (isString(a) ? a.trim() : a));
+    }
+    if (modifiers.number) {
+      args = rawArgs.map(looseToNumber);
+    }
+  }
+
   let handler = props[toHandlerKey(event)] || props[toHandlerKey(camelize(event))];
 
-  if (handler) handler(...args);
+  if (handler) {
+    callWithAsyncErrorHandling(handler, instance, ErrorCodes.COMPONENT_EVENT_HANDLER, args);
+  }
+}
+
+export function normalizeEmitsOptions(comp: ConcreteComponent): ObjectEmitsOptions | null {
+  const raw = (comp as { emits?: EmitsOptions }).emits;
+  if (!raw) {
+    return null;
+  }
+
+  const normalized: ObjectEmitsOptions = {};
+  if (isArray(raw)) {
+    raw.forEach((key) => (normalized[key] = null));
+  } else {
+    Object.assign(normalized, raw);
+  }
+  return normalized;
+}
+
+// Check if an incoming prop key is a declared emit event listener.
+// e.g. With `emits: { click: null }`, props named `onClick` and `onclick` are
+// both considered matched listeners.
+export function isEmitListener(options: ObjectEmitsOptions | null, key: string): boolean {
+  if (!options || !isOn(key)) {
+    return false;
+  }
+
+  key = key.slice(2).replace(/Once$/, "");
+  return (
+    hasOwn(options, key[0].toLowerCase() + key.slice(1)) ||
+    hasOwn(options, hyphenate(key)) ||
+    hasOwn(options, key)
+  );
 }
@@ -2,6 +2,7 @@ import { isArray, isFunction, isObject, isString } from "@chibivue/shared";
 
 import {
   type ComputedGetter,
+  type DebuggerEvent,
   type Ref,
   type WritableComputedOptions,
   computed,
@@ -15,6 +16,8 @@ import {
   onBeforeUnmount,
   onBeforeUpdate,
   onMounted,
+  onRenderTracked,
+  onRenderTriggered,
   onUnmounted,
   onUpdated,
 } from "./apiLifecycle";
@@ -27,7 +30,7 @@ import type {
 } from "./componentPublicInstance";
 import type { SlotsType } from "./componentSlots";
 import type { PropType } from "./componentProps";
-import type { EmitsOptions, ObjectEmitsOptions } from "./componentEmits";
+import type { EmitsOptions } from "./componentEmits";
 
 import type { VNode, VNodeChild } from "./vnode";
 
@@ -53,12 +56,13 @@ export type ComponentOptions<
   watch?: ComponentWatchOptions;
   provide?: ComponentProvideOptions;
   inject?: I | II[];
-  emits?: ObjectEmitsOptions;
+  emits?: EmitsOptions;
   slots?: S;
   setup?: (props: ResolveProps<P>, ctx: SetupContext<E, S>) => (() => VNode) | B;
   render?: (ctx: CreateComponentPublicInstance<ResolveProps<P>, B, D, C, M, I, S, E, EE>) => VNode;
   template?: string;
   components?: Record<string, ConcreteComponent>;
+  inheritAttrs?: boolean;
 
   beforeCreate?(): void;
   created?(): void;
@@ -68,6 +72,23 @@ export type ComponentOptions<
   updated?(): void;
   beforeUnmount?(): void;
   unmounted?(): void;
+  renderTracked?: (e: DebuggerEvent) => void;
+  renderTriggered?: (e: DebuggerEvent) => void;
+
+  /**
+   * Set by `vite-plugin-chibivue` in dev to identify the SFC for HMR.
+   * @internal
+   */
+  __hmrId?: string;
+  /**
+   * @internal
+   */
+  __file?: string;
+  /**
+   * Class name maps of `<style module>` blocks, keyed by their name.
+   * @internal
+   */
+  __cssModules?: Data;
 } & ThisType<CreateComponentPublicInstance<ResolveProps<P>, B, D, C, M, I, S, E, EE>>;
 
 export type ResolveProps<T> = { [K in keyof T]: InferPropType<T[K]> };
@@ -138,6 +159,8 @@ export function applyOptions(instance: ComponentInternalInstance): void {
     updated,
     beforeUnmount,
     unmounted,
+    renderTracked,
+    renderTriggered,
   } = options;
 
   if (injectOptions) {
@@ -209,6 +232,8 @@ export function applyOptions(instance: ComponentInternalInstance): void {
   registerLifecycleHook(onUpdated, updated);
   registerLifecycleHook(onBeforeUnmount, beforeUnmount);
   registerLifecycleHook(onUnmounted, unmounted);
+  registerLifecycleHook(onRenderTracked, renderTracked);
+  registerLifecycleHook(onRenderTriggered, renderTriggered);
 }
 
 export function resolveInjections(injectOptions: ComponentInjectOptions, ctx: any): void {
@@ -1,30 +1,133 @@
-import { reactive } from "@chibivue/reactivity";
-import { camelize, hasOwn, isReservedProp } from "@chibivue/shared";
-import type { ComponentInternalInstance, Data } from "./component";
+import { reactive, toRaw } from "@chibivue/reactivity";
+import {
+  camelize,
+  capitalize,
+  hasOwn,
+  hyphenate,
+  isArray,
+  isFunction,
+  isObject,
+  isReservedProp,
+  isString,
+  toRawType,
+} from "@chibivue/shared";
+import {
+  type ComponentInternalInstance,
+  type ConcreteComponent,
+  type Data,
+  currentInstance,
+  setCurrentInstance,
+  unsetCurrentInstance,
+} from "./component";
+import { isEmitListener } from "./componentEmits";
+import { setCurrentRenderingInstance } from "./componentRenderContext";
+import { warn } from "./warning";
+
+export type ComponentPropsOptions<P = Data> = ComponentObjectPropsOptions<P> | string[];
+
+export type ComponentObjectPropsOptions<P = Data> = {
+  [K in keyof P]: Prop<P[K]> | null;
+};
+
+export type Prop<T> = PropOptions<T> | PropType<T>;
+
+type DefaultFactory<T> = (props: Data) => T | null | undefined;
 
-export type NormalizedProps = Record<string, PropOptions | null>;
 export interface PropOptions<T = any> {
   type?: PropType<T> | true | null;
   required?: boolean;
-  default?: null | undefined | object;
+  default?: T | DefaultFactory<T> | null | undefined | object;
+  validator?(value: unknown, props: Data): boolean;
+}
+
+export type PropType<T> = PropConstructor<T> | PropConstructor<T>[];
+
+type PropConstructor<T = any> = { new (...args: any[]): T & {} } | { (): T };
+
+const enum BooleanFlags {
+  shouldCast,
+  shouldCastTrue,
 }
-export type PropType<T> = { new (...args: any[]): T & {} } | { (): T };
+
+type NormalizedProp = PropOptions & {
+  [BooleanFlags.shouldCast]?: boolean;
+  [BooleanFlags.shouldCastTrue]?: boolean;
+};
+
+export type NormalizedProps = Record<string, NormalizedProp>;
+// normalized options and the keys that need a default value or boolean casting
+export type NormalizedPropsOptions = [NormalizedProps, string[]] | [];
 
 export function initProps(instance: ComponentInternalInstance, rawProps: Data | null): void {
   const props: Data = {};
-  setFullProps(instance, rawProps, props);
+  const attrs: Data = {};
+
+  setFullProps(instance, rawProps, props, attrs);
+
+  // ensure all declared prop keys are present
+  for (const key in instance.propsOptions[0]) {
+    if (!(key in props)) {
+      props[key] = undefined;
+    }
+  }
+
+  validateProps(rawProps || {}, props, instance);
+
   instance.props = reactive(props);
+  instance.attrs = attrs;
 }
 
-export function updateProps(instance: ComponentInternalInstance, rawProps: Data | null): void {
-  const { props } = instance;
-  Object.entries(rawProps ?? {}).forEach(([key, value]) => {
-    props[camelize(key)] = value;
-  });
+export function updateProps(
+  instance: ComponentInternalInstance,
+  rawProps: Data | null,
+  rawPrevProps: Data | null,
+): void {
+  const { props, attrs } = instance;
+  const rawCurrentProps = toRaw(props);
+  const [options] = instance.propsOptions;
+
+  setFullProps(instance, rawProps, props, attrs);
+
+  // props that are no longer passed fall back to their default (or are
+  // removed when they were never declared)
+  let kebabKey: string;
+  for (const key in rawCurrentProps) {
+    if (
+      !rawProps ||
+      (!hasOwn(rawProps, key) &&
+        ((kebabKey = hyphenate(key)) === key || !hasOwn(rawProps, kebabKey)))
+    ) {
+      if (options) {
+        if (
+          rawPrevProps &&
+          (rawPrevProps[key] !== undefined || rawPrevProps[kebabKey!] !== undefined)
+        ) {
+          props[key] = resolvePropValue(options, rawCurrentProps, key, undefined, instance, true);
+        }
+      } else {
+        delete props[key];
+      }
+    }
+  }
+
+  // remove attrs that are no longer passed
+  for (const key in attrs) {
+    if (!rawProps || !hasOwn(rawProps, key)) {
+      delete attrs[key];
+    }
+  }
+
+  validateProps(rawProps || {}, props, instance);
 }
 
-function setFullProps(instance: ComponentInternalInstance, rawProps: Data | null, props: Data) {
-  const options = instance.propsOptions;
+function setFullProps(
+  instance: ComponentInternalInstance,
+  rawProps: Data | null,
+  props: Data,
+  attrs: Data,
+) {
+  const [options, needCastKeys] = instance.propsOptions;
+  let rawCastValues: Data | undefined;
 
   if (rawProps) {
     for (let key in rawProps) {
@@ -35,8 +138,291 @@ function setFullProps(instance: ComponentInternalInstance, rawProps: Data | null
       // kebab -> camel
       let camelKey;
       if (options && hasOwn(options, (camelKey = camelize(key)))) {
-        props[camelKey] = value;
+        if (!needCastKeys || !needCastKeys.includes(camelKey)) {
+          props[camelKey] = value;
+        } else {
+          (rawCastValues || (rawCastValues = {}))[camelKey] = value;
+        }
+      } else if (!isEmitListener(instance.emitsOptions, key)) {
+        // undeclared attributes (and listeners that are not declared emits)
+        // fall through to the root element
+        if (!(key in attrs) || value !== attrs[key]) {
+          attrs[key] = value;
+        }
+      }
+    }
+  }
+
+  if (needCastKeys) {
+    const rawCurrentProps = toRaw(props);
+    const castValues = rawCastValues || {};
+    for (let i = 0; i < needCastKeys.length; i++) {
+      const key = needCastKeys[i];
+      props[key] = resolvePropValue(
+        options!,
+        rawCurrentProps,
+        key,
+        castValues[key],
+        instance,
+        !hasOwn(castValues, key),
+      );
+    }
+  }
+}
+
+function resolvePropValue(
+  options: NormalizedProps,
+  props: Data,
+  key: string,
+  value: unknown,
+  instance: ComponentInternalInstance,
+  isAbsent: boolean,
+) {
+  const opt = options[key];
+  if (opt != null) {
+    const hasDefault = hasOwn(opt, "default");
+    // default values
+    if (hasDefault && value === undefined) {
+      const defaultValue = opt.default;
+      if (opt.type !== Function && isFunction(defaultValue)) {
+        // factories are only called once per instance so that object defaults
+        // keep their identity across updates
+        const { propsDefaults } = instance;
+        if (key in propsDefaults) {
+          value = propsDefaults[key];
+        } else {
+          const prev = currentInstance;
+          setCurrentInstance(instance);
+          value = propsDefaults[key] = defaultValue.call(null, props);
+          prev ? setCurrentInstance(prev) : unsetCurrentInstance();
+        }
+      } else {
+        value = defaultValue;
+      }
+    }
+    // boolean casting
+    if (opt[BooleanFlags.shouldCast]) {
+      if (isAbsent && !hasDefault) {
+        value = false;
+      } else if (opt[BooleanFlags.shouldCastTrue] && (value === "" || value === hyphenate(key))) {
+        value = true;
       }
     }
   }
+  return value;
+}
+
+export function normalizePropsOptions(comp: ConcreteComponent): NormalizedPropsOptions {
+  const raw = (comp as { props?: ComponentPropsOptions }).props;
+  if (!raw) {
+    return [];
+  }
+
+  const normalized: NormalizedProps = {};
+  const needCastKeys: string[] = [];
+
+  if (isArray(raw)) {
+    for (let i = 0; i < raw.length; i++) {
+      if (!isString(raw[i])) {
+        warn(`props must be strings when using array syntax.`, raw[i]);
+      }
+      const normalizedKey = camelize(raw[i]);
+      if (validatePropName(normalizedKey)) {
+        normalized[normalizedKey] = {};
+      }
+    }
+  } else {
+    if (!isObject(raw)) {
+      warn(`invalid props options`, raw);
+    }
+    for (const key in raw) {
+      const normalizedKey = camelize(key);
+      if (validatePropName(normalizedKey)) {
+        const opt = raw[key];
+        const prop: NormalizedProp = (normalized[normalizedKey] =
+          isArray(opt) || isFunction(opt) ? { type: opt } : Object.assign({}, opt));
+        const booleanIndex = getTypeIndex(Boolean, prop.type);
+        const stringIndex = getTypeIndex(String, prop.type);
+        prop[BooleanFlags.shouldCast] = booleanIndex > -1;
+        prop[BooleanFlags.shouldCastTrue] = stringIndex < 0 || booleanIndex < stringIndex;
+        // if the prop needs boolean casting or default value
+        if (booleanIndex > -1 || hasOwn(prop, "default")) {
+          needCastKeys.push(normalizedKey);
+        }
+      }
+    }
+  }
+
+  return [normalized, needCastKeys];
+}
+
+function validatePropName(key: string) {
+  if (key[0] !== "$" && !isReservedProp(key)) {
+    return true;
+  } else {
+    warn(`Invalid prop name: "${key}" is a reserved property.`);
+  }
+  return false;
+}
+
+// use function string name to check type constructors
+// so that it works across vms / iframes.
+function getType(ctor: Prop<any> | null): string {
+  if (ctor === null) {
+    return "null";
+  }
+  if (isFunction(ctor)) {
+    return ctor.name || "";
+  }
+  return "";
+}
+
+function isSameType(a: Prop<any> | null, b: Prop<any> | null): boolean {
+  return getType(a) === getType(b);
+}
+
+function getTypeIndex(type: Prop<any>, expectedTypes: PropType<any> | true | null | undefined) {
+  if (isArray(expectedTypes)) {
+    return expectedTypes.findIndex((t) => isSameType(t, type));
+  } else if (isFunction(expectedTypes)) {
+    return isSameType(expectedTypes, type) ? 0 : -1;
+  }
+  return -1;
+}
+
+function validateProps(rawProps: Data, props: Data, instance: ComponentInternalInstance) {
+  const [options] = instance.propsOptions;
+  if (!options) return;
+  // warnings are reported with the component that receives the props on top
+  // of the component trace
+  const prev = setCurrentRenderingInstance(instance);
+  const resolvedValues = toRaw(props);
+  for (const key in options) {
+    validateProp(
+      key,
+      resolvedValues[key],
+      options[key],
+      resolvedValues,
+      !hasOwn(rawProps, key) && !hasOwn(rawProps, hyphenate(key)),
+    );
+  }
+  setCurrentRenderingInstance(prev);
+}
+
+function validateProp(
+  name: string,
+  value: unknown,
+  prop: PropOptions,
+  props: Data,
+  isAbsent: boolean,
+) {
+  const { type, required, validator } = prop;
+  // required!
+  if (required && isAbsent) {
+    warn(`Missing required prop: "${name}"`);
+    return;
+  }
+  // missing but optional
+  if (value == null && !required) {
+    return;
+  }
+  // type check
+  if (type != null && type !== true) {
+    let isValid = false;
+    const types = isArray(type) ? type : [type];
+    const expectedTypes = [];
+    // value is valid as long as one of the specified types match
+    for (let i = 0; i < types.length && !isValid; i++) {
+      const { valid, expectedType } = assertType(value, types[i]);
+      expectedTypes.push(expectedType || "");
+      isValid = valid;
+    }
+    if (!isValid) {
+      warn(getInvalidTypeMessage(name, value, expectedTypes));
+      return;
+    }
+  }
+  // custom validator
+  if (validator && !validator(value, props)) {
+    warn(`Invalid prop: custom validator check failed for prop "${name}".`);
+  }
+}
+
+const isSimpleType = (t: string) =>
+  ["String", "Number", "Boolean", "Function", "Symbol", "BigInt"].includes(t);
+
+type AssertionResult = {
+  valid: boolean;
+  expectedType: string;
+};
+
+function assertType(value: unknown, type: PropConstructor | null): AssertionResult {
+  let valid;
+  const expectedType = getType(type);
+  if (isSimpleType(expectedType)) {
+    const t = typeof value;
+    valid = t === expectedType.toLowerCase();
+    // for primitive wrapper objects
+    if (!valid && t === "object") {
+      valid = value instanceof (type as PropConstructor);
+    }
+  } else if (expectedType === "Object") {
+    valid = isObject(value);
+  } else if (expectedType === "Array") {
+    valid = isArray(value);
+  } else if (expectedType === "null") {
+    valid = value === null;
+  } else {
+    valid = value instanceof (type as PropConstructor);
+  }
+  return {
+    valid,
+    expectedType,
+  };
+}
+
+function getInvalidTypeMessage(name: string, value: unknown, expectedTypes: string[]): string {
+  if (expectedTypes.length === 0) {
+    return `Prop type [] for prop "${name}" won't match anything. Did you mean to use type Array instead?`;
+  }
+  let message =
+    `Invalid prop: type check failed for prop "${name}".` +
+    ` Expected ${expectedTypes.map(capitalize).join(" | ")}`;
+  const expectedType = expectedTypes[0];
+  const receivedType = toRawType(value);
+  const expectedValue = styleValue(value, expectedType);
+  const receivedValue = styleValue(value, receivedType);
+  // check if we need to specify expected value
+  if (
+    expectedTypes.length === 1 &&
+    isExplicable(expectedType) &&
+    !isBoolean(expectedType, receivedType)
+  ) {
+    message += ` with value ${expectedValue}`;
+  }
+  message += `, got ${receivedType} `;
+  // check if we need to specify received value
+  if (isExplicable(receivedType)) {
+    message += `with value ${receivedValue}.`;
+  }
+  return message;
+}
+
+function styleValue(value: unknown, type: string): string {
+  if (type === "String") {
+    return `"${value}"`;
+  } else if (type === "Number") {
+    return `${Number(value)}`;
+  } else {
+    return `${value}`;
+  }
+}
+
+function isExplicable(type: string): boolean {
+  const explicitTypes = ["string", "number", "boolean"];
+  return explicitTypes.some((elem) => type.toLowerCase() === elem);
+}
+
+function isBoolean(...args: string[]): boolean {
+  return args.some((elem) => elem.toLowerCase() === "boolean");
 }
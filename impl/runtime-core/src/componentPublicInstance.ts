@@ -1,7 +1,9 @@
+import { isVapor } from "@chibivue/runtime-vapor";
 import { hasOwn } from "@chibivue/shared";
-import type { ComponentInternalInstance, Data } from "./component";
+import { type ComponentInternalInstance, type Data, getExposeProxy } from "./component";
 import type { EmitFn, EmitsOptions } from "./componentEmits";
 import type {
+  ComponentOptions,
   ComponentInjectOptions,
   ComputedOptions,
   ExtractComputedReturns,
@@ -10,7 +12,7 @@ import type {
   ResolveProps,
 } from "./componentOptions";
 import type { SlotsType, UnwrapSlotsType } from "./componentSlots";
-import type { nextTick } from "./scheduler";
+import { nextTick, queueJob } from "./scheduler";
 
 export type ComponentPublicInstanceConstructor<
   T extends ComponentPublicInstance<Props, RawBindings, D, C, M, I, S, E, EE> =
@@ -54,7 +56,9 @@ export type ComponentPublicInstance<
   $: ComponentInternalInstance;
   $data: D;
   $props: ResolveProps<P>;
+  $attrs: Data;
   $slots: UnwrapSlotsType<S>;
+  $refs: Data;
   $parent: ComponentPublicInstance | null;
   $emit: EmitFn<E>;
   $el: any;
@@ -72,6 +76,32 @@ export interface ComponentRenderContext {
   _: ComponentInternalInstance;
 }
 
+type PublicPropertiesMap = Record<string, (i: ComponentInternalInstance) => any>;
+
+const getPublicInstance = (
+  i: ComponentInternalInstance["parent"],
+): ComponentPublicInstance | Record<string, any> | null => {
+  if (!i || isVapor(i)) return null;
+  return getExposeProxy(i) || i.proxy;
+};
+
+export const publicPropertiesMap: PublicPropertiesMap = Object.assign(Object.create(null), {
+  $: (i) => i,
+  $el: (i) => i.vnode.el,
+  $data: (i) => i.data,
+  $props: (i) => i.props,
+  $attrs: (i) => i.attrs,
+  $slots: (i) => i.slots,
+  $refs: (i) => i.refs,
+  $parent: (i) => getPublicInstance(i.parent),
+  $emit: (i) => i.emit,
+  $forceUpdate: (i) => () => {
+    i.effect.dirty = true;
+    queueJob(i.update);
+  },
+  $nextTick: (i) => nextTick.bind(i.proxy!),
+} as PublicPropertiesMap);
+
 const hasSetupBinding = (state: Data, key: string) => hasOwn(state, key);
 
 export const PublicInstanceProxyHandlers: ProxyHandler<any> = {
@@ -83,11 +113,24 @@ export const PublicInstanceProxyHandlers: ProxyHandler<any> = {
       return setupState[key];
     } else if (hasOwn(data, key)) {
       return data[key];
-    } else if ((normalizedProps = instance.propsOptions) && hasOwn(normalizedProps, key)) {
+    } else if ((normalizedProps = instance.propsOptions[0]) && hasOwn(normalizedProps, key)) {
       return props![key];
     } else if (hasOwn(ctx, key)) {
       return ctx[key];
     }
+
+    // public $xxx properties
+    const publicGetter = publicPropertiesMap[key];
+    let cssModule;
+    if (publicGetter) {
+      return publicGetter(instance);
+    } else if (
+      // css module (injected by vite-plugin-chibivue)
+      (cssModule = (instance.type as ComponentOptions).__cssModules) &&
+      (cssModule = cssModule[key])
+    ) {
+      return cssModule;
+    }
   },
   set({ _: instance }: ComponentRenderContext, key: string, value: any): boolean {
     const { ctx, data, setupState } = instance;
@@ -107,7 +150,8 @@ export const PublicInstanceProxyHandlers: ProxyHandler<any> = {
     return (
       hasOwn(setupState, key) ||
       ((normalizedProps = propsOptions[0]) && hasOwn(normalizedProps, key)) ||
-      hasOwn(ctx, key)
+      hasOwn(ctx, key) ||
+      hasOwn(publicPropertiesMap, key)
     );
   },
 };
@@ -1,4 +1,5 @@
 import type { ComponentInternalInstance } from "./component";
+import { setBlockTracking } from "./vnode";
 
 export let currentRenderingInstance: ComponentInternalInstance | null = null;
 
@@ -9,3 +10,46 @@ export function setCurrentRenderingInstance(
   currentRenderingInstance = instance;
   return prev;
 }
+
+export type ContextualRenderFn = {
+  (...args: any[]): any;
+  _c?: boolean; // compiled marker
+  _d?: boolean; // disableTracking flag
+};
+
+/**
+ * Wrap a slot function to memoize current rendering instance
+ */
+export function withCtx<T extends (...args: any[]) => any>(
+  fn: T,
+  ctx: ComponentInternalInstance | null = currentRenderingInstance,
+): T {
+  if (!ctx) return fn;
+
+  const renderFnWithContext: ContextualRenderFn = (...args: any[]) => {
+    // If a user calls a compiled slot inside a render function, it can mess up
+    // block tracking, so by default we disable block tracking when invoking a
+    // compiled slot (indicated by the ._d flag).
+    // This isn't necessary if rendering a compiled `<slot>`, so we flip the
+    // ._d flag off when invoking the wrapped fn inside `renderSlot`.
+    if (renderFnWithContext._d) {
+      setBlockTracking(-1);
+    }
+    const prevInstance = setCurrentRenderingInstance(ctx);
+    try {
+      return fn(...args);
+    } finally {
+      setCurrentRenderingInstance(prevInstance);
+      if (renderFnWithContext._d) {
+        setBlockTracking(1);
+      }
+    }
+  };
+
+  // mark this as compiled by default
+  renderFnWithContext._c = true;
+  // disable block tracking by default
+  renderFnWithContext._d = true;
+
+  return renderFnWithContext as T;
+}
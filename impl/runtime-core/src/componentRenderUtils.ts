@@ -1,10 +1,128 @@
-import type { ComponentInternalInstance } from "./component";
+import { isVapor } from "@chibivue/runtime-vapor";
+import { ShapeFlags } from "@chibivue/shared";
+import type { ComponentInternalInstance, Data } from "./component";
 import { setCurrentRenderingInstance } from "./componentRenderContext";
-import { type VNode, normalizeVNode } from "./vnode";
+import { ErrorCodes, handleError } from "./errorHandling";
+import {
+  Comment,
+  Fragment,
+  type VNode,
+  type VNodeArrayChildren,
+  blockStack,
+  cloneVNode,
+  createVNode,
+  isVNode,
+  normalizeVNode,
+} from "./vnode";
+import { warn } from "./warning";
 
 export function renderComponentRoot(instance: ComponentInternalInstance): VNode {
   setCurrentRenderingInstance(instance);
   const { proxy, render, data, ctx } = instance;
-  const result = normalizeVNode(render!.call(proxy, proxy!, data, ctx));
+  let result: VNode;
+  try {
+    result = normalizeVNode(render!.call(proxy, proxy!, data, ctx));
+  } catch (err) {
+    // a throwing render function may leave blocks open
+    blockStack.length = 0;
+    handleError(err, instance, ErrorCodes.RENDER_FUNCTION);
+    result = createVNode(Comment);
+  }
+  result = inheritAttrs(instance, result);
+  // a component child of <Transition> / <TransitionGroup> animates its root
+  if (instance.vnode.transition) {
+    result.transition = instance.vnode.transition;
+  }
   return result;
 }
+
+/**
+ * Apply the attributes the component did not declare as props or emits
+ * (`class`, `style`, `id`, listeners...) to its root element or component,
+ * unless the component opts out with `inheritAttrs: false`.
+ */
+export function inheritAttrs(instance: ComponentInternalInstance, result: VNode): VNode {
+  const { type, attrs } = instance;
+  if (type.inheritAttrs === false) return result;
+
+  const keys = Object.keys(attrs);
+  if (!keys.length) return result;
+
+  const [root, setRoot] = getChildRoot(result);
+  if (root.shapeFlag & (ShapeFlags.ELEMENT | ShapeFlags.COMPONENT)) {
+    const fallthroughAttrs: Data = {};
+    for (const key of keys) fallthroughAttrs[key] = attrs[key];
+    const cloned = cloneVNode(root, fallthroughAttrs);
+    if (setRoot) {
+      setRoot(cloned);
+      return result;
+    }
+    return cloned;
+  } else if (root.type !== Comment) {
+    warn(
+      `Extraneous non-props attributes (${keys.join(", ")}) ` +
+        `were passed to component but could not be automatically inherited ` +
+        `because component renders fragment or text root nodes.`,
+    );
+  }
+  return result;
+}
+
+type SetRootFn = ((root: VNode) => void) | undefined;
+
+/**
+ * Compiled templates are always wrapped in a fragment, so look through it for
+ * the single element the template actually renders. Comments are ignored
+ * since they are not rendered as part of the root.
+ */
+function getChildRoot(vnode: VNode): [VNode, SetRootFn] {
+  if (vnode.type !== Fragment) {
+    return [vnode, undefined];
+  }
+  const rawChildren = vnode.children as VNodeArrayChildren;
+  const dynamicChildren = vnode.dynamicChildren;
+  const childRoot =
+    filterSingleRoot(rawChildren) ||
+    (rawChildren.length === 1 && isVNode(rawChildren[0]) ? rawChildren[0] : undefined);
+  if (!childRoot) {
+    return [vnode, undefined];
+  }
+  const index = rawChildren.indexOf(childRoot);
+  const dynamicIndex = dynamicChildren ? dynamicChildren.indexOf(childRoot) : -1;
+  const setRoot: SetRootFn = (updatedRoot: VNode) => {
+    rawChildren[index] = updatedRoot;
+    if (dynamicChildren) {
+      if (dynamicIndex > -1) {
+        dynamicChildren[dynamicIndex] = updatedRoot;
+      } else if (updatedRoot.patchFlag > 0) {
+        // a hoisted root is not tracked by the block, but its props are
+        // dynamic now that attrs have been merged into them
+        vnode.dynamicChildren = [...dynamicChildren, updatedRoot];
+      }
+    }
+  };
+  return [normalizeVNode(childRoot), setRoot];
+}
+
+function filterSingleRoot(children: VNodeArrayChildren): VNode | undefined {
+  let singleRoot: VNode | undefined;
+  for (let i = 0; i < children.length; i++) {
+    const child = children[i];
+    if (!isVNode(child)) return;
+    if (child.type !== Comment) {
+      if (singleRoot) return;
+      singleRoot = child;
+    }
+  }
+  return singleRoot;
+}
+
+export function updateHOCHostEl(
+  { vnode, parent }: ComponentInternalInstance,
+  el: typeof vnode.el, // HostNode
+): void {
+  while (parent && !isVapor(parent) && parent.subTree === vnode) {
+    (vnode = parent.vnode).el = el;
+    parent = parent.parent;
+  }
+}
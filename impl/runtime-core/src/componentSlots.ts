@@ -1,7 +1,8 @@
 import { toRaw } from "@chibivue/reactivity";
-import type { IfAny, Prettify } from "@chibivue/shared";
+import { type IfAny, type Prettify, isArray, isFunction } from "@chibivue/shared";
 import type { ComponentInternalInstance } from "./component";
-import type { VNode, VNodeNormalizedChildren } from "./vnode";
+import type { ContextualRenderFn } from "./componentRenderContext";
+import type { VNode, VNodeChild, VNodeNormalizedChildren } from "./vnode";
 
 export type Slot<T extends any = any> = (
   ...args: IfAny<T, any[], [T] | (T extends undefined ? [] : never)>
@@ -32,40 +33,53 @@ export type UnwrapSlotsType<S extends SlotsType, T = NonNullable<S[typeof SlotSy
       }>
     >;
 
+const normalizeSlotValue = (value: unknown): VNode[] =>
+  (isArray(value) ? value : value == null ? [] : [value as VNodeChild]) as VNode[];
+
+const normalizeSlot = (rawSlot: Function): Slot => {
+  // compiled slots always return an array
+  if ((rawSlot as ContextualRenderFn)._c) {
+    return rawSlot as Slot;
+  }
+  // a slot written by hand (e.g. passed to `h()`) may return a single vnode
+  return (...args: any[]) => normalizeSlotValue(rawSlot(...args));
+};
+
+const normalizeSlots = (slots: InternalSlots, children: VNodeNormalizedChildren) => {
+  if (isArray(children)) {
+    // Array children should be converted to a default slot function
+    slots.default = () => children as VNode[];
+  } else if (children !== null && typeof children === "object") {
+    // an object with slot functions (compiled slots / createSlots / `h()`)
+    const rawSlots = toRaw(children as RawSlots);
+    for (const key in rawSlots) {
+      const value = rawSlots[key];
+      if (isFunction(value)) {
+        slots[key] = normalizeSlot(value);
+      } else if (value != null) {
+        const normalized = normalizeSlotValue(value);
+        slots[key] = () => normalized;
+      }
+    }
+  }
+};
+
 export const initSlots = (
   instance: ComponentInternalInstance,
   children: VNodeNormalizedChildren,
 ): void => {
-  if (children === null || children === undefined) {
-    instance.slots = {};
-  } else if (Array.isArray(children)) {
-    // Array children should be converted to a default slot function
-    instance.slots = {
-      default: () => children as VNode[],
-    };
-  } else if (typeof children === "object") {
-    // Already an object with slot functions
-    instance.slots = toRaw(children as InternalSlots);
-  } else {
-    instance.slots = {};
-  }
+  instance.slots = {};
+  normalizeSlots(instance.slots, children);
 };
 
 export const updateSlots = (
   instance: ComponentInternalInstance,
   children: VNodeNormalizedChildren,
 ): void => {
-  if (children === null || children === undefined) {
-    instance.slots = {};
-  } else if (Array.isArray(children)) {
-    // Array children should be converted to a default slot function
-    instance.slots = {
-      default: () => children as VNode[],
-    };
-  } else if (typeof children === "object") {
-    // Already an object with slot functions
-    instance.slots = toRaw(children as InternalSlots);
-  } else {
-    instance.slots = {};
+  // update in place so that `slots` captured from the setup context stays in sync
+  const { slots } = instance;
+  for (const key in slots) {
+    delete slots[key];
   }
+  normalizeSlots(slots, children);
 };
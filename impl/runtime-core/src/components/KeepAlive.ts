@@ -5,6 +5,8 @@ import type { VNode } from "../vnode";
 import { cloneVNode, isSameVNodeType } from "../vnode";
 import { queuePostFlushCb } from "../scheduler";
 import { setCurrentInstance, unsetCurrentInstance } from "../component";
+import type { SuspenseBoundary } from "./Suspense";
+import type { ElementNamespace } from "../renderer";
 
 export interface KeepAliveProps {
   include?: MatchPattern;
@@ -21,6 +23,7 @@ export interface KeepAliveContext extends ComponentInternalInstance {
     container: any,
     anchor: any | null,
     parentComponent: ComponentInternalInstance | null,
+    namespace: ElementNamespace,
   ) => void;
   deactivate: (vnode: VNode) => void;
 }
@@ -32,9 +35,16 @@ interface KeepAliveRenderer {
     container: any,
     anchor: any | null,
     parentComponent: ComponentInternalInstance | null,
+    parentSuspense?: SuspenseBoundary | null,
+    namespace?: ElementNamespace,
   ) => void;
   m: (vnode: VNode, container: any, anchor: any | null) => void;
-  um: (vnode: VNode) => void;
+  um: (
+    vnode: VNode,
+    parentComponent?: ComponentInternalInstance | null,
+    parentSuspense?: SuspenseBoundary | null,
+    doRemove?: boolean,
+  ) => void;
   o: {
     createElement: (type: string) => any;
   };
@@ -62,11 +72,11 @@ const KeepAliveImpl = {
     // Create a hidden container for holding deactivated components
     const storageContainer = instance.renderer.o.createElement("div");
 
-    instance.activate = (vnode, container, anchor, _parentComponent) => {
+    instance.activate = (vnode, container, anchor, _parentComponent, namespace) => {
       const instance = vnode.component!;
       move(vnode, container, anchor);
       // in case props have changed
-      patch(instance.vnode, vnode, container, anchor, parentComponent);
+      patch(instance.vnode, vnode, container, anchor, parentComponent, namespace);
       queuePostFlushCb(() => {
         instance.isDeactivated = false;
         if (instance.a) {
@@ -96,13 +106,14 @@ const KeepAliveImpl = {
       container: any,
       anchor: any | null,
       parentComponent: ComponentInternalInstance | null,
+      namespace: ElementNamespace,
     ): void {
-      instance.renderer.p(n1, n2, container, anchor, parentComponent);
+      instance.renderer.p(n1, n2, container, anchor, parentComponent, null, namespace);
     }
 
     function unmount(vnode: VNode): void {
       resetShapeFlag(vnode);
-      instance.renderer.um(vnode);
+      instance.renderer.um(vnode, instance, null, true);
     }
 
     function pruneCache(filter?: (name: string) => boolean): void {
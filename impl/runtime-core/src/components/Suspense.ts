@@ -0,0 +1,533 @@
+import { ShapeFlags, isArray, isFunction } from "@chibivue/shared";
+import type { ComponentInternalInstance } from "../component";
+import { handleSetupResult } from "../component";
+import { updateHOCHostEl } from "../componentRenderUtils";
+import { ErrorCodes, handleError } from "../errorHandling";
+import type {
+  ElementNamespace,
+  RendererElement,
+  RendererNode,
+  RendererOptions,
+  SetupRenderEffectFn,
+} from "../renderer";
+import { type SchedulerJob, type SchedulerJobs, queuePostFlushCb } from "../scheduler";
+import {
+  Comment,
+  Fragment,
+  type VNode,
+  type VNodeProps,
+  createVNode,
+  isSameVNodeType,
+  normalizeVNode,
+} from "../vnode";
+
+export interface SuspenseProps {
+  onResolve?: () => void;
+  onPending?: () => void;
+  onFallback?: () => void;
+  timeout?: string | number;
+}
+
+export const isSuspense = (type: any): boolean => type.__isSuspense;
+
+// incrementing unique id for every pending branch
+let suspenseId = 0;
+
+export interface SuspenseImpl {
+  name: string;
+  __isSuspense: true;
+  process: (
+    n1: VNode | null,
+    n2: VNode,
+    container: RendererElement,
+    anchor: RendererNode | null,
+    parentComponent: ComponentInternalInstance | null,
+    parentSuspense: SuspenseBoundary | null,
+    namespace: ElementNamespace,
+    internals: SuspenseInternals,
+  ) => void;
+}
+
+export const SuspenseImpl: SuspenseImpl = {
+  name: "Suspense",
+  // the renderer checks for the __isSuspense flag on a vnode's type and calls
+  // `process`, passing in renderer internals (same as Teleport).
+  __isSuspense: true,
+  process(n1, n2, container, anchor, parentComponent, parentSuspense, namespace, internals) {
+    if (n1 == null) {
+      mountSuspense(n2, container, anchor, parentComponent, parentSuspense, namespace, internals);
+    } else {
+      patchSuspense(n1, n2, container, anchor, parentComponent, namespace, internals);
+    }
+  },
+};
+
+export const Suspense = SuspenseImpl as unknown as {
+  __isSuspense: true;
+  new (): {
+    $props: VNodeProps & SuspenseProps;
+    $slots: {
+      default(): VNode[];
+      fallback(): VNode[];
+    };
+  };
+};
+
+export interface SuspenseInternals {
+  p: (
+    n1: VNode | null,
+    n2: VNode,
+    container: RendererElement,
+    anchor: RendererNode | null,
+    parentComponent: ComponentInternalInstance | null,
+    parentSuspense: SuspenseBoundary | null,
+    namespace?: ElementNamespace,
+  ) => void;
+  um: (
+    vnode: VNode,
+    parentComponent?: ComponentInternalInstance | null,
+    parentSuspense?: SuspenseBoundary | null,
+    doRemove?: boolean,
+  ) => void;
+  m: (vnode: VNode, container: RendererElement, anchor: RendererNode | null) => void;
+  n: (vnode: VNode) => RendererNode | null;
+  o: RendererOptions;
+}
+
+export interface SuspenseBoundary {
+  vnode: VNode;
+  parent: SuspenseBoundary | null;
+  parentComponent: ComponentInternalInstance | null;
+  container: RendererElement;
+  hiddenContainer: RendererElement;
+  namespace: ElementNamespace;
+  anchor: RendererNode | null;
+  activeBranch: VNode | null;
+  pendingBranch: VNode | null;
+  deps: number;
+  pendingId: number;
+  timeout: number;
+  isInFallback: boolean;
+  isUnmounted: boolean;
+  effects: SchedulerJob[];
+  resolve(force?: boolean): void;
+  fallback(fallbackVNode: VNode): void;
+  move(container: RendererElement, anchor: RendererNode | null): void;
+  next(): RendererNode | null;
+  registerDep(instance: ComponentInternalInstance, setupRenderEffect: SetupRenderEffectFn): void;
+  unmount(parentSuspense: SuspenseBoundary | null, doRemove?: boolean): void;
+}
+
+function triggerEvent(vnode: VNode, name: "onResolve" | "onPending" | "onFallback"): void {
+  const eventListener = vnode.props && vnode.props[name];
+  if (isFunction(eventListener)) {
+    eventListener();
+  }
+}
+
+function mountSuspense(
+  vnode: VNode,
+  container: RendererElement,
+  anchor: RendererNode | null,
+  parentComponent: ComponentInternalInstance | null,
+  parentSuspense: SuspenseBoundary | null,
+  namespace: ElementNamespace,
+  internals: SuspenseInternals,
+): void {
+  const {
+    p: patch,
+    o: { createElement },
+  } = internals;
+  const hiddenContainer = createElement("div");
+  const suspense = (vnode.suspense = createSuspenseBoundary(
+    vnode,
+    parentSuspense,
+    parentComponent,
+    container,
+    hiddenContainer,
+    anchor,
+    namespace,
+    internals,
+  ));
+
+  // start mounting the content subtree in an off-dom container
+  patch(
+    null,
+    (suspense.pendingBranch = vnode.ssContent!),
+    hiddenContainer,
+    null,
+    parentComponent,
+    suspense,
+    namespace,
+  );
+
+  // now check if we have encountered any async deps
+  if (suspense.deps > 0) {
+    // has async
+    // invoke @pending and @fallback event
+    triggerEvent(vnode, "onPending");
+    triggerEvent(vnode, "onFallback");
+
+    // mount the fallback tree
+    patch(
+      null,
+      vnode.ssFallback!,
+      container,
+      anchor,
+      parentComponent,
+      null, // fallback tree will not have suspense context
+      namespace,
+    );
+    setActiveBranch(suspense, vnode.ssFallback!);
+  } else {
+    // Suspense has no async deps. Just resolve.
+    suspense.resolve();
+  }
+}
+
+function patchSuspense(
+  n1: VNode,
+  n2: VNode,
+  container: RendererElement,
+  anchor: RendererNode | null,
+  parentComponent: ComponentInternalInstance | null,
+  namespace: ElementNamespace,
+  { p: patch, um: unmount, o: { createElement } }: SuspenseInternals,
+): void {
+  const suspense = (n2.suspense = n1.suspense)!;
+  suspense.vnode = n2;
+  n2.el = n1.el;
+  const newBranch = n2.ssContent!;
+  const newFallback = n2.ssFallback!;
+
+  const { activeBranch, pendingBranch, isInFallback } = suspense;
+  if (pendingBranch) {
+    suspense.pendingBranch = newBranch;
+    if (isSameVNodeType(newBranch, pendingBranch)) {
+      // same root type but content may have changed.
+      patch(
+        pendingBranch,
+        newBranch,
+        suspense.hiddenContainer,
+        null,
+        parentComponent,
+        suspense,
+        namespace,
+      );
+      if (suspense.deps <= 0) {
+        suspense.resolve();
+      } else if (isInFallback) {
+        patch(activeBranch, newFallback, container, anchor, parentComponent, null, namespace);
+        setActiveBranch(suspense, newFallback);
+      }
+    } else {
+      // toggled before pending tree is resolved
+      // increment pending ID. this is used to invalidate async callbacks
+      suspense.pendingId = suspenseId++;
+      unmount(pendingBranch, parentComponent, suspense);
+
+      // reset suspense state
+      suspense.deps = 0;
+      // discard effects from pending branch
+      suspense.effects.length = 0;
+      // discard previous container
+      suspense.hiddenContainer = createElement("div");
+
+      if (isInFallback) {
+        // already in fallback state
+        patch(
+          null,
+          newBranch,
+          suspense.hiddenContainer,
+          null,
+          parentComponent,
+          suspense,
+          namespace,
+        );
+        if (suspense.deps <= 0) {
+          suspense.resolve();
+        } else {
+          patch(activeBranch, newFallback, container, anchor, parentComponent, null, namespace);
+          setActiveBranch(suspense, newFallback);
+        }
+      } else if (activeBranch && isSameVNodeType(newBranch, activeBranch)) {
+        // toggled "back" to current active branch
+        patch(activeBranch, newBranch, container, anchor, parentComponent, suspense, namespace);
+        // force resolve
+        suspense.resolve(true);
+      } else {
+        // switched to a 3rd branch
+        patch(
+          null,
+          newBranch,
+          suspense.hiddenContainer,
+          null,
+          parentComponent,
+          suspense,
+          namespace,
+        );
+        if (suspense.deps <= 0) {
+          suspense.resolve();
+        }
+      }
+    }
+  } else {
+    if (activeBranch && isSameVNodeType(newBranch, activeBranch)) {
+      // root did not change, just normal patch
+      patch(activeBranch, newBranch, container, anchor, parentComponent, suspense, namespace);
+      setActiveBranch(suspense, newBranch);
+    } else {
+      // root node toggled
+      // invoke @pending event
+      triggerEvent(n2, "onPending");
+      // mount pending branch in off-dom container
+      suspense.pendingBranch = newBranch;
+      suspense.pendingId = suspenseId++;
+      patch(null, newBranch, suspense.hiddenContainer, null, parentComponent, suspense, namespace);
+      if (suspense.deps <= 0) {
+        // incoming branch has no async deps, resolve now.
+        suspense.resolve();
+      } else {
+        const { timeout, pendingId } = suspense;
+        if (timeout > 0) {
+          setTimeout(() => {
+            if (suspense.pendingId === pendingId) {
+              suspense.fallback(newFallback);
+            }
+          }, timeout);
+        } else if (timeout === 0) {
+          suspense.fallback(newFallback);
+        }
+      }
+    }
+  }
+}
+
+function createSuspenseBoundary(
+  vnode: VNode,
+  parentSuspense: SuspenseBoundary | null,
+  parentComponent: ComponentInternalInstance | null,
+  container: RendererElement,
+  hiddenContainer: RendererElement,
+  anchor: RendererNode | null,
+  namespace: ElementNamespace,
+  internals: SuspenseInternals,
+): SuspenseBoundary {
+  const {
+    p: patch,
+    m: move,
+    um: unmount,
+    n: next,
+    o: { parentNode, remove },
+  } = internals;
+
+  const timeout = vnode.props ? Number(vnode.props.timeout) : NaN;
+
+  const suspense: SuspenseBoundary = {
+    vnode,
+    parent: parentSuspense,
+    parentComponent,
+    container,
+    hiddenContainer,
+    namespace,
+    anchor,
+    deps: 0,
+    pendingId: suspenseId++,
+    timeout: isNaN(timeout) ? -1 : timeout,
+    activeBranch: null,
+    pendingBranch: null,
+    isInFallback: true,
+    isUnmounted: false,
+    effects: [],
+
+    resolve(resume = false) {
+      const { vnode, activeBranch, pendingBranch, effects, parentComponent, container } = suspense;
+
+      if (!resume) {
+        // this is initial anchor on mount
+        let { anchor } = suspense;
+        // unmount current active tree
+        if (activeBranch) {
+          // if the fallback tree was mounted, it may have been moved
+          // as part of a parent suspense. get the latest anchor for insertion
+          anchor = next(activeBranch);
+          unmount(activeBranch, parentComponent, suspense, true);
+        }
+        // move content from off-dom container to actual container
+        move(pendingBranch!, container, anchor);
+      }
+
+      setActiveBranch(suspense, pendingBranch!);
+      suspense.pendingBranch = null;
+      suspense.isInFallback = false;
+
+      // flush buffered effects
+      // check if there is a pending parent suspense
+      let parent = suspense.parent;
+      let hasUnresolvedAncestor = false;
+      while (parent) {
+        if (parent.pendingBranch) {
+          // found a pending parent suspense, merge buffered post jobs
+          // into that parent
+          parent.effects.push(...effects);
+          hasUnresolvedAncestor = true;
+          break;
+        }
+        parent = parent.parent;
+      }
+      // no pending parent suspense, flush all jobs
+      if (!hasUnresolvedAncestor) {
+        queuePostFlushCb(effects);
+      }
+      suspense.effects = [];
+
+      // invoke @resolve event
+      triggerEvent(vnode, "onResolve");
+    },
+
+    fallback(fallbackVNode) {
+      if (!suspense.pendingBranch) {
+        return;
+      }
+
+      const { vnode, activeBranch, parentComponent, container, namespace } = suspense;
+
+      // invoke @fallback event
+      triggerEvent(vnode, "onFallback");
+
+      const anchor = next(activeBranch!);
+      suspense.isInFallback = true;
+      unmount(activeBranch!, parentComponent, null, true);
+      patch(
+        null,
+        fallbackVNode,
+        container,
+        anchor,
+        parentComponent,
+        null, // fallback tree will not have suspense context
+        namespace,
+      );
+      setActiveBranch(suspense, fallbackVNode);
+    },
+
+    move(container, anchor) {
+      suspense.activeBranch && move(suspense.activeBranch, container, anchor);
+      suspense.container = container;
+    },
+
+    next() {
+      return suspense.activeBranch && next(suspense.activeBranch);
+    },
+
+    registerDep(instance, setupRenderEffect) {
+      const isInPendingSuspense = !!suspense.pendingBranch;
+      if (isInPendingSuspense) {
+        suspense.deps++;
+      }
+      instance
+        .asyncDep!.catch((err) => {
+          handleError(err, instance, ErrorCodes.SETUP_FUNCTION);
+        })
+        .then((asyncSetupResult) => {
+          // retry when the setup() promise resolves.
+          // component may have been unmounted before resolve.
+          if (
+            instance.isUnmounted ||
+            suspense.isUnmounted ||
+            suspense.pendingId !== instance.suspenseId
+          ) {
+            return;
+          }
+          // retry from this component
+          instance.asyncResolved = true;
+          const { vnode } = instance;
+          handleSetupResult(instance, asyncSetupResult);
+          // the async component is rendered in place of its placeholder comment
+          const placeholder = instance.subTree.el;
+          setupRenderEffect(
+            instance,
+            vnode,
+            parentNode(placeholder)!,
+            next(instance.subTree),
+            suspense,
+            suspense.namespace,
+          );
+          remove(placeholder);
+          updateHOCHostEl(instance, vnode.el);
+          // only decrease deps count if suspense is not already resolved
+          if (isInPendingSuspense && --suspense.deps === 0) {
+            suspense.resolve();
+          }
+        });
+    },
+
+    unmount(parentSuspense, doRemove) {
+      suspense.isUnmounted = true;
+      if (suspense.activeBranch) {
+        unmount(suspense.activeBranch, parentComponent, parentSuspense, doRemove);
+      }
+      if (suspense.pendingBranch) {
+        unmount(suspense.pendingBranch, parentComponent, parentSuspense, doRemove);
+      }
+    },
+  };
+
+  return suspense;
+}
+
+export function normalizeSuspenseChildren(vnode: VNode): void {
+  const { shapeFlag, children } = vnode;
+  const isSlotChildren = shapeFlag & ShapeFlags.SLOTS_CHILDREN;
+  vnode.ssContent = normalizeSuspenseSlot(
+    isSlotChildren ? (children as Record<string, unknown>).default : children,
+  );
+  vnode.ssFallback = isSlotChildren
+    ? normalizeSuspenseSlot((children as Record<string, unknown>).fallback)
+    : createVNode(Comment);
+}
+
+function normalizeSuspenseSlot(s: unknown): VNode {
+  if (isFunction(s)) {
+    s = s();
+  }
+  if (isArray(s)) {
+    // compiled slots may contain whitespace text around the single root
+    const roots = s.filter((child) => !(typeof child === "string" && !child.trim()));
+    s = roots.length === 1 ? roots[0] : createVNode(Fragment, null, roots);
+  }
+  return normalizeVNode(s as VNode);
+}
+
+export function queueEffectWithSuspense(
+  fn: SchedulerJobs,
+  suspense: SuspenseBoundary | null,
+): void {
+  if (suspense && suspense.pendingBranch) {
+    if (isArray(fn)) {
+      suspense.effects.push(...fn);
+    } else {
+      suspense.effects.push(fn);
+    }
+  } else {
+    queuePostFlushCb(fn);
+  }
+}
+
+function setActiveBranch(suspense: SuspenseBoundary, branch: VNode): void {
+  suspense.activeBranch = branch;
+  const { vnode, parentComponent } = suspense;
+  let el = branch.el;
+  // if branch has no el after patch, it's a HOC wrapping async components
+  // drill and locate the placeholder comment node
+  while (!el && branch.component) {
+    branch = branch.component.subTree;
+    el = branch.el;
+  }
+  vnode.el = el;
+  // in case suspense is the root node of a component,
+  // recursively update the HOC el
+  if (parentComponent && parentComponent.subTree === vnode) {
+    parentComponent.vnode.el = el;
+    updateHOCHostEl(parentComponent, el);
+  }
+}
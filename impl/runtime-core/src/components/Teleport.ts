@@ -1,7 +1,15 @@
 import { ShapeFlags } from "@chibivue/shared";
-import type { RendererElement, RendererNode, RendererOptions } from "../renderer";
+import {
+  type ElementNamespace,
+  type RendererElement,
+  type RendererNode,
+  type RendererOptions,
+  traverseStaticChildren,
+} from "../renderer";
 import type { VNode, VNodeArrayChildren } from "../vnode";
 import type { ComponentInternalInstance } from "../component";
+import type { SuspenseBoundary } from "./Suspense";
+import type { HydrateChildrenFn } from "../hydration";
 
 export const TeleportSymbol: unique symbol = Symbol();
 
@@ -20,10 +28,13 @@ export interface TeleportImpl {
     container: RendererElement,
     anchor: RendererNode | null,
     parentComponent: ComponentInternalInstance | null,
+    parentSuspense: SuspenseBoundary | null,
+    namespace: ElementNamespace,
     internals: TeleportInternals,
   ) => void;
-  remove: (vnode: TeleportVNode, internals: TeleportInternals) => void;
+  remove: (vnode: TeleportVNode, internals: TeleportInternals, doRemove: boolean) => void;
   move: typeof moveTeleport;
+  hydrate: typeof hydrateTeleport;
 }
 
 export const Teleport: TeleportImpl = {
@@ -34,6 +45,8 @@ export const Teleport: TeleportImpl = {
     container: RendererElement,
     anchor: RendererNode | null,
     parentComponent: ComponentInternalInstance | null,
+    parentSuspense: SuspenseBoundary | null,
+    namespace: ElementNamespace,
     internals: TeleportInternals,
   ) {
     const {
@@ -44,7 +57,7 @@ export const Teleport: TeleportImpl = {
     } = internals;
 
     const disabled = isTeleportDisabled(n2.props);
-    const { shapeFlag, children } = n2;
+    const { shapeFlag, children, dynamicChildren } = n2;
 
     if (n1 == null) {
       // mount
@@ -58,11 +71,24 @@ export const Teleport: TeleportImpl = {
 
       if (target) {
         insert(targetAnchor, target);
+        // the children are created in the namespace of the target
+        if (namespace === "svg" || isTargetSVG(target)) {
+          namespace = "svg";
+        } else if (namespace === "mathml" || isTargetMathML(target)) {
+          namespace = "mathml";
+        }
       }
 
       const mount = (container: RendererElement, anchor: RendererNode | null) => {
         if (shapeFlag & ShapeFlags.ARRAY_CHILDREN) {
-          mountChildren(children as VNodeArrayChildren, container, anchor, parentComponent);
+          mountChildren(
+            children as VNodeArrayChildren,
+            container,
+            anchor,
+            parentComponent,
+            parentSuspense,
+            namespace,
+          );
         }
       };
 
@@ -77,11 +103,40 @@ export const Teleport: TeleportImpl = {
       const mainAnchor = (n2.anchor = n1.anchor!);
       const target = (n2.target = n1.target!);
       const targetAnchor = (n2.targetAnchor = n1.targetAnchor!);
+      if (namespace === "svg" || isTargetSVG(target)) {
+        namespace = "svg";
+      } else if (namespace === "mathml" || isTargetMathML(target)) {
+        namespace = "mathml";
+      }
       const wasDisabled = isTeleportDisabled(n1.props);
       const currentContainer = wasDisabled ? container : target;
       const currentAnchor = wasDisabled ? mainAnchor : targetAnchor;
 
-      patchChildren(n1, n2, currentContainer, currentAnchor, parentComponent);
+      if (dynamicChildren && n1.dynamicChildren) {
+        // fast path when the teleport happens to be a block root
+        patchBlockChildren(
+          n1.dynamicChildren,
+          dynamicChildren,
+          currentContainer,
+          parentComponent,
+          parentSuspense,
+          namespace,
+        );
+        // even in block tree mode we need to make sure all root-level nodes
+        // in the teleport inherit previous DOM references so that they can
+        // be moved in future patches.
+        traverseStaticChildren(n1, n2, true);
+      } else {
+        patchChildren(
+          n1,
+          n2,
+          currentContainer,
+          currentAnchor,
+          parentComponent,
+          parentSuspense,
+          namespace,
+        );
+      }
 
       if (disabled) {
         if (!wasDisabled) {
@@ -103,20 +158,31 @@ export const Teleport: TeleportImpl = {
     }
   },
 
-  remove(vnode: TeleportVNode, { um: unmount, o: { remove: hostRemove } }: TeleportInternals) {
-    const { shapeFlag, children, anchor, targetAnchor, target } = vnode;
+  remove(
+    vnode: TeleportVNode,
+    { um: unmount, o: { remove: hostRemove } }: TeleportInternals,
+    doRemove: boolean,
+  ) {
+    const { shapeFlag, children, el, anchor, targetAnchor, target, props } = vnode;
     if (target) {
       hostRemove(targetAnchor!);
     }
-    hostRemove(anchor!);
+    if (doRemove) {
+      hostRemove(el!);
+      hostRemove(anchor!);
+    }
     if (shapeFlag & ShapeFlags.ARRAY_CHILDREN) {
+      // children living in the target are not detached together with the
+      // teleport's parent, so they always have to be removed.
+      const shouldRemove = doRemove || !isTeleportDisabled(props);
       for (let i = 0; i < (children as VNode[]).length; i++) {
-        unmount((children as VNode[])[i]);
+        unmount((children as VNode[])[i], null, null, shouldRemove);
       }
     }
   },
 
   move: moveTeleport,
+  hydrate: hydrateTeleport,
 };
 
 export interface TeleportInternals {
@@ -125,6 +191,8 @@ export interface TeleportInternals {
     container: RendererElement,
     anchor: RendererNode | null,
     parentComponent: ComponentInternalInstance | null,
+    parentSuspense?: SuspenseBoundary | null,
+    namespace?: ElementNamespace,
   ) => void;
   pc: (
     n1: VNode | null,
@@ -132,15 +200,23 @@ export interface TeleportInternals {
     container: RendererElement,
     anchor: RendererNode | null,
     parentComponent: ComponentInternalInstance | null,
+    parentSuspense?: SuspenseBoundary | null,
+    namespace?: ElementNamespace,
   ) => void;
   pbc: (
-    n1: VNode | null,
-    n2: VNode,
-    container: RendererElement,
-    anchor: RendererNode | null,
+    oldChildren: VNode[],
+    newChildren: VNode[],
+    fallbackContainer: RendererElement,
     parentComponent: ComponentInternalInstance | null,
+    parentSuspense: SuspenseBoundary | null,
+    namespace: ElementNamespace,
+  ) => void;
+  um: (
+    vnode: VNode,
+    parentComponent?: ComponentInternalInstance | null,
+    parentSuspense?: SuspenseBoundary | null,
+    doRemove?: boolean,
   ) => void;
-  um: (vnode: VNode) => void;
   m: (vnode: VNode, container: RendererElement, anchor: RendererNode | null) => void;
   o: RendererOptions;
 }
@@ -151,6 +227,12 @@ function isTeleportDisabled(props: TeleportProps | null): boolean {
   return props !== null && !!props.disabled;
 }
 
+const isTargetSVG = (target: RendererElement): boolean =>
+  typeof SVGElement !== "undefined" && target instanceof SVGElement;
+
+const isTargetMathML = (target: RendererElement): boolean =>
+  typeof MathMLElement === "function" && target instanceof MathMLElement;
+
 function resolveTarget<T = RendererElement>(
   props: TeleportProps | null,
   select: RendererOptions["querySelector"],
@@ -201,3 +283,49 @@ function moveTeleport(
     insert(anchor!, container, parentAnchor);
   }
 }
+
+function hydrateTeleport(
+  node: Node,
+  vnode: TeleportVNode,
+  parentComponent: ComponentInternalInstance | null,
+  parentSuspense: SuspenseBoundary | null,
+  {
+    mc: mountChildren,
+    o: { nextSibling, parentNode, querySelector, insert, createText },
+  }: TeleportInternals,
+  hydrateChildren: HydrateChildrenFn,
+): Node | null {
+  const target = (vnode.target = resolveTarget(vnode.props, querySelector));
+  if (isTeleportDisabled(vnode.props)) {
+    // disabled teleport children are rendered inline, between the
+    // `teleport start` and `teleport end` markers
+    vnode.anchor = hydrateChildren(
+      nextSibling(node) as Node | null,
+      vnode,
+      parentNode(node) as Element,
+      parentComponent,
+      parentSuspense,
+    );
+  } else {
+    vnode.anchor = nextSibling(node);
+  }
+
+  const targetAnchor = (vnode.targetAnchor = createText(""));
+  if (target) {
+    insert(targetAnchor, target);
+    // the server renderer leaves the target empty, so enabled teleport
+    // children are mounted there on the client
+    if (!isTeleportDisabled(vnode.props) && vnode.shapeFlag & ShapeFlags.ARRAY_CHILDREN) {
+      mountChildren(
+        vnode.children as VNodeArrayChildren,
+        target,
+        targetAnchor,
+        parentComponent,
+        parentSuspense,
+        isTargetSVG(target) ? "svg" : isTargetMathML(target) ? "mathml" : undefined,
+      );
+    }
+  }
+
+  return vnode.anchor && (nextSibling(vnode.anchor) as Node | null);
+}
@@ -1,7 +1,9 @@
 import { isFunction } from "@chibivue/shared";
+import { traverse } from "./apiWatch";
 import type { ComponentInternalInstance } from "./component";
 import type { ComponentPublicInstance } from "./componentPublicInstance";
 import { currentRenderingInstance } from "./componentRenderContext";
+import { ErrorCodes, callWithAsyncErrorHandling } from "./errorHandling";
 import type { VNode } from "./vnode";
 
 export interface DirectiveBinding<V = any> {
@@ -9,6 +11,7 @@ export interface DirectiveBinding<V = any> {
   value: V;
   oldValue: V | null;
   arg?: string;
+  modifiers: DirectiveModifiers;
   dir: ObjectDirective<any>;
 }
 
@@ -27,13 +30,20 @@ export interface ObjectDirective<T = any> {
   updated?: DirectiveHook<T>;
   beforeUnmount?: DirectiveHook<T>;
   unmounted?: DirectiveHook<T>;
+  /**
+   * Track the nested properties of the value as well, so that e.g. pushing to
+   * an array bound with `v-model` updates the directive.
+   */
   deep?: boolean;
 }
 
+export type DirectiveModifiers = Record<string, boolean>;
+
 export type DirectiveArguments = Array<
   | [ObjectDirective | undefined]
   | [ObjectDirective | undefined, any]
-  | [ObjectDirective | undefined, any, string]
+  | [ObjectDirective | undefined, any, string | undefined]
+  | [ObjectDirective | undefined, any, string | undefined, DirectiveModifiers]
 >;
 
 export function withDirectives<T extends VNode>(vnode: T, directives: DirectiveArguments): T {
@@ -44,7 +54,7 @@ export function withDirectives<T extends VNode>(vnode: T, directives: DirectiveA
 
   const bindings: DirectiveBinding[] = vnode.dirs || (vnode.dirs = []);
   for (let i = 0; i < directives.length; i++) {
-    let [dir, value, arg] = directives[i];
+    let [dir, value, arg, modifiers = {}] = directives[i];
     if (dir) {
       if (isFunction(dir)) {
         dir = {
@@ -52,12 +62,16 @@ export function withDirectives<T extends VNode>(vnode: T, directives: DirectiveA
           updated: dir,
         } as ObjectDirective;
       }
+      if (dir.deep) {
+        traverse(value);
+      }
       bindings.push({
         dir,
         instance,
         value,
         oldValue: void 0,
         arg,
+        modifiers,
       });
     }
   }
@@ -67,6 +81,7 @@ export function withDirectives<T extends VNode>(vnode: T, directives: DirectiveA
 export function invokeDirectiveHook(
   vnode: VNode,
   prevVNode: VNode | null,
+  instance: ComponentInternalInstance | null,
   name: keyof ObjectDirective,
 ): void {
   const bindings = vnode.dirs!;
@@ -79,7 +94,12 @@ export function invokeDirectiveHook(
 
     const hook = binding.dir[name] as DirectiveHook | undefined;
     if (hook) {
-      hook(vnode.el, binding, vnode, prevVNode);
+      callWithAsyncErrorHandling(hook, instance, ErrorCodes.DIRECTIVE_HOOK, [
+        vnode.el,
+        binding,
+        vnode,
+        prevVNode,
+      ]);
     }
   }
 }
@@ -7,4 +7,7 @@ export const enum LifecycleHooks {
   UNMOUNTED = "um",
   ACTIVATED = "a",
   DEACTIVATED = "da",
+  ERROR_CAPTURED = "ec",
+  RENDER_TRACKED = "rtc",
+  RENDER_TRIGGERED = "rtg",
 }
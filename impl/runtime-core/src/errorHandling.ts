@@ -0,0 +1,131 @@
+import { isArray, isFunction, isPromise } from "@chibivue/shared";
+import type { ComponentInternalInstance } from "./component";
+import { LifecycleHooks } from "./enums";
+
+// contexts where user provided function may be executed, in addition to
+// lifecycle hooks.
+export const enum ErrorCodes {
+  SETUP_FUNCTION,
+  RENDER_FUNCTION,
+  WATCH_GETTER,
+  WATCH_CALLBACK,
+  WATCH_CLEANUP,
+  NATIVE_EVENT_HANDLER,
+  COMPONENT_EVENT_HANDLER,
+  DIRECTIVE_HOOK,
+  APP_ERROR_HANDLER,
+  APP_WARN_HANDLER,
+  FUNCTION_REF,
+  ASYNC_COMPONENT_LOADER,
+  SCHEDULER,
+}
+
+export type ErrorTypes = LifecycleHooks | ErrorCodes;
+
+export const ErrorTypeStrings: Record<ErrorTypes, string> = {
+  [LifecycleHooks.BEFORE_MOUNT]: "beforeMount hook",
+  [LifecycleHooks.MOUNTED]: "mounted hook",
+  [LifecycleHooks.BEFORE_UPDATE]: "beforeUpdate hook",
+  [LifecycleHooks.UPDATED]: "updated hook",
+  [LifecycleHooks.BEFORE_UNMOUNT]: "beforeUnmount hook",
+  [LifecycleHooks.UNMOUNTED]: "unmounted hook",
+  [LifecycleHooks.ACTIVATED]: "activated hook",
+  [LifecycleHooks.DEACTIVATED]: "deactivated hook",
+  [LifecycleHooks.ERROR_CAPTURED]: "errorCaptured hook",
+  [LifecycleHooks.RENDER_TRACKED]: "renderTracked hook",
+  [LifecycleHooks.RENDER_TRIGGERED]: "renderTriggered hook",
+  [ErrorCodes.SETUP_FUNCTION]: "setup function",
+  [ErrorCodes.RENDER_FUNCTION]: "render function",
+  [ErrorCodes.WATCH_GETTER]: "watcher getter",
+  [ErrorCodes.WATCH_CALLBACK]: "watcher callback",
+  [ErrorCodes.WATCH_CLEANUP]: "watcher cleanup function",
+  [ErrorCodes.NATIVE_EVENT_HANDLER]: "native event handler",
+  [ErrorCodes.COMPONENT_EVENT_HANDLER]: "component event handler",
+  [ErrorCodes.DIRECTIVE_HOOK]: "directive hook",
+  [ErrorCodes.APP_ERROR_HANDLER]: "app errorHandler",
+  [ErrorCodes.APP_WARN_HANDLER]: "app warnHandler",
+  [ErrorCodes.FUNCTION_REF]: "ref function",
+  [ErrorCodes.ASYNC_COMPONENT_LOADER]: "async component loader",
+  [ErrorCodes.SCHEDULER]: "scheduler flush",
+};
+
+export function callWithErrorHandling(
+  fn: Function,
+  instance: ComponentInternalInstance | null | undefined,
+  type: ErrorTypes,
+  args?: unknown[],
+): any {
+  try {
+    return args ? fn(...args) : fn();
+  } catch (err) {
+    handleError(err, instance, type);
+  }
+}
+
+export function callWithAsyncErrorHandling(
+  fn: Function | Function[],
+  instance: ComponentInternalInstance | null,
+  type: ErrorTypes,
+  args?: unknown[],
+): any {
+  if (isFunction(fn)) {
+    const res = callWithErrorHandling(fn, instance, type, args);
+    if (res && isPromise(res)) {
+      res.catch((err) => {
+        handleError(err, instance, type);
+      });
+    }
+    return res;
+  }
+
+  if (isArray(fn)) {
+    const values = [];
+    for (let i = 0; i < fn.length; i++) {
+      values.push(callWithAsyncErrorHandling(fn[i], instance, type, args));
+    }
+    return values;
+  }
+}
+
+export function handleError(
+  err: unknown,
+  instance: ComponentInternalInstance | null | undefined,
+  type: ErrorTypes,
+): void {
+  if (instance) {
+    let cur = instance.parent as ComponentInternalInstance | null;
+    // the exposed instance is the render proxy to keep it consistent with 2.x
+    const exposedInstance = instance.proxy;
+    const errorInfo = ErrorTypeStrings[type];
+    // walk up the parent chain and invoke each errorCaptured hook.
+    // a hook returning `false` stops the propagation.
+    while (cur) {
+      const errorCapturedHooks = cur.ec;
+      if (errorCapturedHooks) {
+        for (let i = 0; i < errorCapturedHooks.length; i++) {
+          if (errorCapturedHooks[i](err, exposedInstance, errorInfo) === false) {
+            return;
+          }
+        }
+      }
+      cur = cur.parent as ComponentInternalInstance | null;
+    }
+
+    // app-level handling
+    const appErrorHandler = instance.appContext.config.errorHandler;
+    if (appErrorHandler) {
+      callWithErrorHandling(appErrorHandler, null, ErrorCodes.APP_ERROR_HANDLER, [
+        err,
+        exposedInstance,
+        errorInfo,
+      ]);
+      return;
+    }
+  }
+  logError(err);
+}
+
+function logError(err: unknown) {
+  // recover in prod to reduce the impact on end-user
+  console.error(err);
+}
@@ -0,0 +1,79 @@
+import { PatchFlags, isArray } from "@chibivue/shared";
+import type { Data } from "../component";
+import { type ContextualRenderFn, currentRenderingInstance } from "../componentRenderContext";
+import type { Slots } from "../componentSlots";
+import {
+  Comment,
+  Fragment,
+  type VNode,
+  type VNodeArrayChildren,
+  type VNodeChild,
+  createBlock,
+  isVNode,
+  openBlock,
+} from "../vnode";
+
+/**
+ * Compiler runtime helper for rendering `<slot/>`
+ */
+export function renderSlot(
+  slots: Slots,
+  name: string,
+  props: Data = {},
+  // this is not a user-facing function, so the fallback is always generated by
+  // the compiler and guaranteed to be a function returning an array
+  fallback?: () => VNodeArrayChildren,
+): VNode {
+  const slot = slots[name] as ContextualRenderFn | undefined;
+
+  // a compiled slot disables block tracking by default to avoid manual
+  // invocation interfering with template-based block tracking, but in
+  // `renderSlot` we can be sure that it's template-based so we can force
+  // enable it.
+  if (slot && slot._c) {
+    slot._d = false;
+  }
+  openBlock();
+  const validSlotContent = slot && ensureValidVNode(slot(props));
+  // the slot content can only be diffed as a stable fragment when it comes
+  // from a compiled slot whose set of slots does not change between renders.
+  const isStable =
+    !!slot?._c &&
+    !(
+      currentRenderingInstance &&
+      currentRenderingInstance.vnode.patchFlag & PatchFlags.DYNAMIC_SLOTS
+    );
+  const rendered = createBlock(
+    Fragment,
+    {
+      key:
+        (props.key || `_${name}`) +
+        // the fallback is keyed separately so that switching between it and
+        // the slot content does not patch one into the other.
+        (!validSlotContent && fallback ? "_fb" : ""),
+    },
+    validSlotContent || (fallback ? fallback() : []),
+    validSlotContent && isStable ? PatchFlags.STABLE_FRAGMENT : PatchFlags.BAIL,
+  );
+  if (slot && slot._c) {
+    slot._d = true;
+  }
+  return rendered;
+}
+
+function ensureValidVNode(vnodes: VNodeArrayChildren | VNodeChild): VNodeArrayChildren | null {
+  // a slot that was not normalized by `initSlots` may return a single vnode
+  if (!isArray(vnodes)) {
+    vnodes = [vnodes];
+  }
+  return vnodes.some((child) => {
+    if (!isVNode(child)) return true;
+    if (child.type === Comment) return false;
+    if (child.type === Fragment && !ensureValidVNode(child.children as VNodeArrayChildren)) {
+      return false;
+    }
+    return true;
+  })
+    ? vnodes
+    : null;
+}
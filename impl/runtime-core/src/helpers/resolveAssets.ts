@@ -5,6 +5,7 @@ import { type ConcreteComponent, currentInstance } from "../component";
 import type { ComponentOptions } from "../componentOptions";
 import { currentRenderingInstance } from "../componentRenderContext";
 import { KeepAlive } from "../components/KeepAlive";
+import { Suspense } from "../components/Suspense";
 
 export const COMPONENTS = "components";
 
@@ -13,6 +14,7 @@ export type AssetTypes = typeof COMPONENTS;
 // Built-in components that can be resolved by name
 const builtInComponents: Record<string, ConcreteComponent> = {
   KeepAlive,
+  Suspense: Suspense as unknown as ConcreteComponent,
 };
 
 export function resolveComponent(name: string): ConcreteComponent | string {
@@ -0,0 +1,131 @@
+import { type Ref, customRef } from "@chibivue/reactivity";
+import { camelize, hasChanged, hyphenate } from "@chibivue/shared";
+import { watchEffect } from "../apiWatch";
+import { type ComponentInternalInstance, type Data, getCurrentInstance } from "../component";
+import { warn } from "../warning";
+
+type DefineModelOptions<T = any> = {
+  get?: (v: T) => any;
+  set?: (v: T) => any;
+};
+
+export type ModelRef<T, M extends string | number | symbol = string> = Ref<T> &
+  [ModelRef<T, M>, Record<M, true | undefined>];
+
+const NOT_SET = {};
+
+/**
+ * Runtime helper behind `defineModel()`. Returns a ref that reads the prop
+ * `name` and emits `update:name` when written. When the parent does not bind
+ * the prop with v-model, the ref keeps its value locally instead.
+ *
+ * The returned ref can also be destructured as `[model, modifiers]`.
+ */
+export function useModel<M extends string, T extends Record<string, any>, K extends keyof T>(
+  props: T,
+  name: K,
+  options: DefineModelOptions<T[K]> = {},
+): ModelRef<T[K], M> {
+  const i = getCurrentInstance() as ComponentInternalInstance | null;
+  if (!i) {
+    warn(`useModel() called without active instance.`);
+    return customRef(() => ({ get() {}, set() {} })) as any;
+  }
+
+  const key = name as string;
+  if (!i.propsOptions[0] || !(camelize(key) in i.propsOptions[0])) {
+    warn(`useModel() called with prop "${key}" which is not declared.`);
+    return customRef(() => ({ get() {}, set() {} })) as any;
+  }
+
+  const camelizedName = camelize(key);
+  const hyphenatedName = hyphenate(key);
+  const modifiers = getModelModifiers(props, key);
+
+  const res = customRef((track, trigger) => {
+    let localValue: any;
+    let prevSetValue: any = NOT_SET;
+    let prevEmittedValue: any;
+
+    watchEffect(() => {
+      const propValue = props[name];
+      if (hasChanged(localValue, propValue)) {
+        localValue = propValue;
+        trigger();
+      }
+    });
+
+    return {
+      get() {
+        track();
+        return options.get ? options.get(localValue) : localValue;
+      },
+      set(value) {
+        const emittedValue = options.set ? options.set(value) : value;
+        if (
+          !hasChanged(emittedValue, localValue) &&
+          !(prevSetValue !== NOT_SET && hasChanged(value, prevSetValue))
+        ) {
+          return;
+        }
+        const rawProps = i.vnode.props;
+        if (
+          !(
+            rawProps &&
+            // check if parent has passed v-model
+            (key in rawProps || camelizedName in rawProps || hyphenatedName in rawProps) &&
+            (`onUpdate:${key}` in rawProps ||
+              `onUpdate:${camelizedName}` in rawProps ||
+              `onUpdate:${hyphenatedName}` in rawProps)
+          )
+        ) {
+          // no v-model, local update
+          localValue = value;
+          trigger();
+        }
+        i.emit(`update:${key}`, emittedValue);
+        // a setter that transforms the value may emit the same value the parent
+        // already has, in which case the prop doesn't change and the local
+        // value has to be refreshed by hand
+        if (
+          hasChanged(value, emittedValue) &&
+          hasChanged(value, prevSetValue) &&
+          !hasChanged(emittedValue, prevEmittedValue)
+        ) {
+          trigger();
+        }
+        prevSetValue = value;
+        prevEmittedValue = emittedValue;
+      },
+    };
+  });
+
+  // @ts-expect-error
+  res[Symbol.iterator] = () => {
+    let i = 0;
+    return {
+      next() {
+        if (i < 2) {
+          return { value: i++ ? modifiers || {} : res, done: false };
+        } else {
+          return { done: true };
+        }
+      },
+    };
+  };
+
+  return res as any;
+}
+
+export const getModelModifiers = (
+  props: Data,
+  modelName: string,
+): Record<string, boolean> | undefined => {
+  return (
+    modelName === "modelValue" || modelName === "model-value"
+      ? props.modelModifiers
+      : props[`${modelName}Modifiers`] ||
+        props[`${camelize(modelName)}Modifiers`] ||
+        props[`${hyphenate(modelName)}Modifiers`]
+  ) as Record<string, boolean> | undefined;
+};
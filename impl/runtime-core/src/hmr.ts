@@ -0,0 +1,157 @@
+import type {
+  ComponentInternalInstance,
+  ConcreteComponent,
+  InternalRenderFunction,
+} from "./component";
+import type { ComponentOptions } from "./componentOptions";
+import { queueJob, queuePostFlushCb } from "./scheduler";
+
+// The runtime side of hot module replacement for `.vue` files.
+// `vite-plugin-chibivue` gives every SFC an `__hmrId` and calls into the
+// `__VUE_HMR_RUNTIME__` global below when the file is edited.
+
+type HMRComponent = ComponentOptions & { __hmrId?: string; __file?: string };
+
+export interface HMRRuntime {
+  createRecord: typeof createRecord;
+  rerender: typeof rerender;
+  reload: typeof reload;
+}
+
+/**
+ * Set while a component is re-rendered because its render function was
+ * swapped. The new render function may produce a differently shaped tree, so
+ * the renderer must not trust the compiler's patch flags / block tree.
+ */
+export let isHmrUpdating = false;
+
+/**
+ * Components whose definition has been replaced. Vnodes of these components
+ * are never considered the same type, so that they are remounted.
+ */
+export const hmrDirtyComponents: Set<ConcreteComponent> = new Set();
+
+const map = new Map<
+  string,
+  {
+    // the definition the first instance was created with. `reload()` updates it
+    // in place, so that the parent's reference to it stays valid.
+    initialDef: HMRComponent;
+    instances: Set<ComponentInternalInstance>;
+  }
+>();
+
+(globalThis as any).__VUE_HMR_RUNTIME__ = {
+  createRecord: tryWrap(createRecord),
+  rerender: tryWrap(rerender),
+  reload: tryWrap(reload),
+} as HMRRuntime;
+
+export function registerHMR(instance: ComponentInternalInstance): void {
+  const id = (instance.type as HMRComponent).__hmrId!;
+  let record = map.get(id);
+  if (!record) {
+    createRecord(id, instance.type as HMRComponent);
+    record = map.get(id)!;
+  }
+  record.instances.add(instance);
+}
+
+export function unregisterHMR(instance: ComponentInternalInstance): void {
+  map.get((instance.type as HMRComponent).__hmrId!)!.instances.delete(instance);
+}
+
+function createRecord(id: string, initialDef: HMRComponent): boolean {
+  if (map.has(id)) {
+    return false;
+  }
+  map.set(id, { initialDef, instances: new Set() });
+  return true;
+}
+
+/**
+ * Swaps the render function of every live instance of the component and
+ * re-renders them. Component state is kept as is.
+ */
+function rerender(id: string, newRender?: Function): void {
+  const record = map.get(id);
+  if (!record) return;
+
+  record.initialDef.render = newRender as any;
+  [...record.instances].forEach((instance) => {
+    if (newRender) {
+      instance.render = newRender as InternalRenderFunction;
+      (instance.type as HMRComponent).render = newRender as any;
+    }
+    isHmrUpdating = true;
+    instance.effect.dirty = true;
+    instance.update();
+    isHmrUpdating = false;
+  });
+}
+
+/**
+ * Replaces the component definition and remounts every live instance by
+ * re-rendering its parent, so state above the component survives.
+ */
+function reload(id: string, newComp: HMRComponent): void {
+  const record = map.get(id);
+  if (!record) return;
+
+  updateComponentDef(record.initialDef, newComp);
+
+  // copy, since remounting adds new instances to the record
+  const instances = [...record.instances];
+  for (const instance of instances) {
+    const oldComp = instance.type as HMRComponent;
+    if (!hmrDirtyComponents.has(oldComp)) {
+      if (oldComp !== record.initialDef) {
+        updateComponentDef(oldComp, newComp);
+      }
+      hmrDirtyComponents.add(oldComp);
+    }
+
+    const parent = instance.parent;
+    if (parent && !("__is_vapor" in parent)) {
+      // the parent's vnode for this component is no longer the same type, so
+      // re-rendering the parent unmounts the old instance and mounts a new one
+      parent.effect.dirty = true;
+      queueJob(parent.update);
+    } else if (!parent && instance.appContext.reload) {
+      // root component: remount the whole app
+      instance.appContext.reload();
+    } else if (typeof window !== "undefined") {
+      window.location.reload();
+    } else {
+      console.warn("[HMR] Root or manually mounted instance modified. Full reload required.");
+    }
+  }
+
+  queuePostFlushCb(() => {
+    for (const instance of instances) {
+      hmrDirtyComponents.delete(instance.type as ConcreteComponent);
+    }
+  });
+}
+
+function updateComponentDef(oldComp: HMRComponent, newComp: HMRComponent) {
+  Object.assign(oldComp, newComp);
+  for (const key in oldComp) {
+    if (key !== "__file" && !(key in newComp)) {
+      delete (oldComp as any)[key];
+    }
+  }
+}
+
+function tryWrap<T extends (...args: any[]) => any>(fn: T): T {
+  return ((id: string, arg: any) => {
+    try {
+      return fn(id, arg);
+    } catch (e: any) {
+      console.error(e);
+      console.warn(
+        `[HMR] Something went wrong during Vue component hot-reload. Full reload required.`,
+      );
+    }
+  }) as T;
+}
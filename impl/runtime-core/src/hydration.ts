@@ -0,0 +1,426 @@
+import { ShapeFlags, isOn, isReservedProp } from "@chibivue/shared";
+import type { ComponentInternalInstance } from "./component";
+import type { SuspenseBoundary } from "./components/Suspense";
+import type { TeleportImpl, TeleportVNode } from "./components/Teleport";
+import { invokeDirectiveHook } from "./directives";
+import type { ElementNamespace, RendererInternals, RendererOptions } from "./renderer";
+import { setRef } from "./rendererTemplateRef";
+import { flushPostFlushCbs } from "./scheduler";
+import { Comment, Fragment, Static, Text, type VNode, normalizeVNode } from "./vnode";
+import { warn } from "./warning";
+
+export type RootHydrateFunction = (
+  vnode: VNode,
+  container: (Element | ShadowRoot) & { _vnode?: VNode },
+) => void;
+
+export type HydrateNodeFn = (
+  node: Node,
+  vnode: VNode,
+  parentComponent: ComponentInternalInstance | null,
+  parentSuspense: SuspenseBoundary | null,
+) => Node | null;
+
+export type HydrateChildrenFn = (
+  node: Node | null,
+  parentVNode: VNode,
+  container: Element,
+  parentComponent: ComponentInternalInstance | null,
+  parentSuspense: SuspenseBoundary | null,
+) => Node | null;
+
+const enum DOMNodeTypes {
+  ELEMENT = 1,
+  TEXT = 3,
+  COMMENT = 8,
+}
+
+let hasMismatch = false;
+
+const isComment = (node: Node): node is globalThis.Comment =>
+  node.nodeType === DOMNodeTypes.COMMENT;
+
+// the namespace of the elements mounted into `container` on a mismatch
+const getContainerType = (container: Element | ShadowRoot): ElementNamespace => {
+  // a shadow root has no namespace of its own
+  const { namespaceURI, tagName } = container as Element;
+  if (!namespaceURI) return undefined;
+  if (namespaceURI.includes("svg") && tagName !== "foreignObject") return "svg";
+  if (namespaceURI.includes("MathML")) return "mathml";
+  return undefined;
+};
+
+// Note: hydration is DOM-specific
+// But we have to place it in core due to tight coupling with core - splitting
+// it out creates a ton of unnecessary complexity.
+// Hydration also depends on some renderer internal logic which needs to be
+// passed in via arguments.
+export function createHydrationFunctions(
+  rendererInternals: RendererInternals,
+): [RootHydrateFunction, HydrateNodeFn] {
+  const { mt: mountComponent, p: patch } = rendererInternals;
+  const { patchProp, createText, nextSibling, parentNode, remove, insert, createComment } =
+    rendererInternals.o as RendererOptions<Node, Element>;
+
+  const hydrate: RootHydrateFunction = (vnode, container) => {
+    if (!container.hasChildNodes()) {
+      warn(
+        `Attempting to hydrate existing markup but container is empty. ` +
+          `Performing full mount instead.`,
+      );
+      patch(null, vnode, container, null, null, null, getContainerType(container));
+      flushPostFlushCbs();
+      container._vnode = vnode;
+      return;
+    }
+    hasMismatch = false;
+    hydrateNode(container.firstChild!, vnode, null, null);
+    flushPostFlushCbs();
+    container._vnode = vnode;
+    if (hasMismatch) {
+      // this error should show up in production
+      console.error(`Hydration completed but contains mismatches.`);
+    }
+  };
+
+  const hydrateNode: HydrateNodeFn = (node, vnode, parentComponent, parentSuspense) => {
+    const isFragmentStart = isComment(node) && node.data === "[";
+    const onMismatch = () =>
+      handleMismatch(node, vnode, parentComponent, parentSuspense, isFragmentStart);
+
+    const { type, ref, shapeFlag } = vnode;
+    const domType = node.nodeType;
+    vnode.el = node;
+
+    let nextNode: Node | null = null;
+    switch (type) {
+      case Text:
+        if (domType !== DOMNodeTypes.TEXT) {
+          // an empty text vnode renders nothing on the server, so there is no
+          // DOM node for it. create one in place.
+          if (vnode.children === "") {
+            insert((vnode.el = createText("")), parentNode(node)!, node);
+            nextNode = node;
+          } else {
+            nextNode = onMismatch();
+          }
+        } else {
+          if ((node as globalThis.Text).data !== vnode.children) {
+            hasMismatch = true;
+            warn(
+              `Hydration text mismatch:` +
+                `\n- rendered on server: ${JSON.stringify((node as globalThis.Text).data)}` +
+                `\n- expected on client: ${JSON.stringify(vnode.children)}`,
+            );
+            (node as globalThis.Text).data = vnode.children as string;
+          }
+          nextNode = nextSibling(node);
+        }
+        break;
+      case Comment:
+        if (domType !== DOMNodeTypes.COMMENT || isFragmentStart) {
+          nextNode = onMismatch();
+        } else {
+          nextNode = nextSibling(node);
+        }
+        break;
+      case Static:
+        if (domType !== DOMNodeTypes.ELEMENT && domType !== DOMNodeTypes.TEXT) {
+          nextNode = onMismatch();
+        } else {
+          // the static content spans `staticCount` sibling nodes, the last of
+          // which becomes the anchor.
+          nextNode = node;
+          for (let i = 0; i < vnode.staticCount; i++) {
+            if (i === vnode.staticCount - 1) {
+              vnode.anchor = nextNode;
+            }
+            nextNode = nextSibling(nextNode!);
+          }
+        }
+        break;
+      case Fragment:
+        if (!isFragmentStart) {
+          nextNode = onMismatch();
+        } else {
+          nextNode = hydrateFragment(
+            node as globalThis.Comment,
+            vnode,
+            parentComponent,
+            parentSuspense,
+          );
+        }
+        break;
+      default:
+        if (shapeFlag & ShapeFlags.ELEMENT) {
+          if (
+            domType !== DOMNodeTypes.ELEMENT ||
+            (type as string).toLowerCase() !== (node as Element).tagName.toLowerCase()
+          ) {
+            nextNode = onMismatch();
+          } else {
+            nextNode = hydrateElement(node as Element, vnode, parentComponent, parentSuspense);
+          }
+        } else if (shapeFlag & ShapeFlags.COMPONENT) {
+          // when setting up the render effect, if the initial vnode already
+          // has .el set, the component will perform hydration instead of mount
+          // on its sub-tree.
+          const container = parentNode(node)!;
+
+          // Locate the next node.
+          if (isFragmentStart) {
+            // if component root is a fragment, skip to the end of it
+            nextNode = locateClosingAnchor(node);
+          } else if (isComment(node) && node.data === "teleport start") {
+            // if component root is a teleport, skip to the end of it
+            nextNode = locateClosingAnchor(node, node.data, "teleport end");
+          } else {
+            nextNode = nextSibling(node);
+          }
+
+          mountComponent(
+            vnode,
+            container,
+            null,
+            parentComponent,
+            parentSuspense,
+            getContainerType(container as Element),
+          );
+        } else if (shapeFlag & ShapeFlags.TELEPORT) {
+          if (domType !== DOMNodeTypes.COMMENT) {
+            nextNode = onMismatch();
+          } else {
+            nextNode = (type as TeleportImpl).hydrate(
+              node,
+              vnode as TeleportVNode,
+              parentComponent,
+              parentSuspense,
+              rendererInternals,
+              hydrateChildren,
+            );
+          }
+        } else {
+          warn(`Invalid HostVNode type: ${String(type)} (${typeof type})`);
+          nextNode = onMismatch();
+        }
+    }
+
+    // set ref
+    if (ref != null) {
+      setRef(ref, null, parentSuspense, vnode);
+    }
+
+    return nextNode;
+  };
+
+  const hydrateElement = (
+    el: Element,
+    vnode: VNode,
+    parentComponent: ComponentInternalInstance | null,
+    parentSuspense: SuspenseBoundary | null,
+  ): Node | null => {
+    const { type, props, shapeFlag, dirs } = vnode;
+    // inputs and options keep their live value as a DOM property, not an attribute
+    const forcePatch = type === "input" || type === "option";
+
+    dirs && invokeDirectiveHook(vnode, null, parentComponent, "created");
+
+    // props
+    // attributes are already present in the server markup, so only the props
+    // that cannot be expressed in HTML (event listeners, value) are patched.
+    if (props) {
+      for (const key in props) {
+        if ((forcePatch && key.endsWith("value")) || (isOn(key) && !isReservedProp(key))) {
+          patchProp(el, key, null, props[key], undefined, parentComponent);
+        }
+      }
+    }
+
+    dirs && invokeDirectiveHook(vnode, null, parentComponent, "beforeMount");
+
+    // children
+    if (shapeFlag & ShapeFlags.ARRAY_CHILDREN) {
+      let next = hydrateChildren(el.firstChild, vnode, el, parentComponent, parentSuspense);
+      let hasWarned = false;
+      while (next) {
+        hasMismatch = true;
+        if (!hasWarned) {
+          warn(
+            `Hydration children mismatch on <${vnode.type as string}>: ` +
+              `server rendered element contains more child nodes than client vdom.`,
+          );
+          hasWarned = true;
+        }
+        // The SSRed DOM contains more nodes than it should. Remove them.
+        const cur = next;
+        next = next.nextSibling;
+        remove(cur);
+      }
+    } else if (shapeFlag & ShapeFlags.TEXT_CHILDREN) {
+      if (el.textContent !== vnode.children) {
+        hasMismatch = true;
+        warn(
+          `Hydration text content mismatch on <${vnode.type as string}>:` +
+            `\n- rendered on server: ${el.textContent}` +
+            `\n- expected on client: ${vnode.children as string}`,
+        );
+        el.textContent = vnode.children as string;
+      }
+    }
+
+    dirs && invokeDirectiveHook(vnode, null, parentComponent, "mounted");
+
+    return el.nextSibling;
+  };
+
+  const hydrateChildren: HydrateChildrenFn = (
+    node,
+    parentVNode,
+    container,
+    parentComponent,
+    parentSuspense,
+  ) => {
+    const children = parentVNode.children as VNode[];
+    const l = children.length;
+    for (let i = 0; i < l; i++) {
+      const vnode = (children[i] = normalizeVNode(children[i]));
+      const isText = vnode.type === Text;
+      if (node) {
+        if (isText && node.nodeType === DOMNodeTypes.TEXT) {
+          // the server renderer merges consecutive text vnodes into a single
+          // text node, so split it again to give each vnode its own node.
+          if (i + 1 < l && normalizeVNode(children[i + 1]).type === Text) {
+            insert(
+              createText((node as globalThis.Text).data.slice((vnode.children as string).length)),
+              container,
+              nextSibling(node),
+            );
+            (node as globalThis.Text).data = vnode.children as string;
+          }
+        }
+        node = hydrateNode(node, vnode, parentComponent, parentSuspense);
+      } else if (isText && !vnode.children) {
+        // an empty trailing text vnode has no server-rendered node
+        insert((vnode.el = createText("")), container);
+      } else {
+        hasMismatch = true;
+        warn(
+          `Hydration children mismatch on <${String(parentVNode.type)}>: ` +
+            `server rendered element contains fewer child nodes than client vdom.`,
+        );
+        // the SSRed DOM didn't contain enough nodes. Mount the missing ones.
+        patch(
+          null,
+          vnode,
+          container,
+          null,
+          parentComponent,
+          parentSuspense,
+          getContainerType(container),
+        );
+      }
+    }
+    return node;
+  };
+
+  const hydrateFragment = (
+    node: globalThis.Comment,
+    vnode: VNode,
+    parentComponent: ComponentInternalInstance | null,
+    parentSuspense: SuspenseBoundary | null,
+  ): Node | null => {
+    const container = parentNode(node)! as Element;
+    const next = hydrateChildren(
+      nextSibling(node),
+      vnode,
+      container,
+      parentComponent,
+      parentSuspense,
+    );
+    if (next && isComment(next) && next.data === "]") {
+      return nextSibling((vnode.anchor = next));
+    } else {
+      // fragment didn't hydrate successfully, since we didn't get an end anchor
+      // back. This should have led to node/children mismatch warnings.
+      hasMismatch = true;
+      // since the anchor is missing, we need to create one and insert it
+      insert((vnode.anchor = createComment(`]`)), container, next);
+      return next;
+    }
+  };
+
+  const handleMismatch = (
+    node: Node,
+    vnode: VNode,
+    parentComponent: ComponentInternalInstance | null,
+    parentSuspense: SuspenseBoundary | null,
+    isFragment: boolean,
+  ): Node | null => {
+    hasMismatch = true;
+    warn(
+      `Hydration node mismatch:` +
+        `\n- rendered on server: ${nodeToString(node)}` +
+        `\n- expected on client: ${String(vnode.type)}`,
+    );
+    vnode.el = null;
+
+    if (isFragment) {
+      // remove excessive fragment nodes
+      const end = locateClosingAnchor(node);
+      while (true) {
+        const next = nextSibling(node);
+        if (next && next !== end) {
+          remove(next);
+        } else {
+          break;
+        }
+      }
+    }
+
+    const next = nextSibling(node);
+    const container = parentNode(node)!;
+    remove(node);
+
+    patch(
+      null,
+      vnode,
+      container,
+      next,
+      parentComponent,
+      parentSuspense,
+      getContainerType(container as Element),
+    );
+    return next;
+  };
+
+  // looks ahead for the matching close anchor and returns the node after it,
+  // taking nested anchors of the same kind into account.
+  const locateClosingAnchor = (node: Node | null, open = "[", close = "]"): Node | null => {
+    let match = 0;
+    while (node) {
+      node = nextSibling(node);
+      if (node && isComment(node)) {
+        if (node.data === open) match++;
+        if (node.data === close) {
+          if (match === 0) {
+            return nextSibling(node);
+          } else {
+            match--;
+          }
+        }
+      }
+    }
+    return node;
+  };
+
+  return [hydrate, hydrateNode];
+}
+
+function nodeToString(node: Node): string {
+  if (node.nodeType === DOMNodeTypes.TEXT) {
+    return JSON.stringify((node as globalThis.Text).data);
+  } else if (isComment(node)) {
+    return `<!--${node.data}-->`;
+  }
+  return `<${(node as Element).tagName.toLowerCase()}>`;
+}
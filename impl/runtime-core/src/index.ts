@@ -43,10 +43,15 @@ export type {
   UnwrapNestedRefs,
   MaybeRef,
   MaybeRefOrGetter,
+  DebuggerEvent,
+  DebuggerOptions,
+  TrackOpTypes,
+  TriggerOpTypes,
   CustomRefFactory,
 } from "@chibivue/reactivity";
 
 export { computed } from "./apiComputed";
+export { nextTick } from "./scheduler";
 export {
   onBeforeMount,
   onMounted,
@@ -56,6 +61,11 @@ export {
   onUnmounted,
   onActivated,
   onDeactivated,
+  onErrorCaptured,
+  onRenderTracked,
+  onRenderTriggered,
+  type ErrorCapturedHook,
+  type DebuggerHook,
 } from "./apiLifecycle";
 export { provide, inject, hasInjectionContext, type InjectionKey } from "./apiInject";
 export {
@@ -65,34 +75,62 @@ export {
   type WatchSource,
   type WatchCallback,
 } from "./apiWatch";
+export { useSlots, useAttrs, mergeDefaults, mergeModels } from "./apiSetupHelpers";
+export { useModel, type ModelRef } from "./helpers/useModel";
 
 export { h } from "./h";
 
 export { resolveComponent } from "./helpers/resolveAssets";
 export { renderList } from "./helpers/renderList";
+export { renderSlot } from "./helpers/renderSlot";
+export { createSlots } from "./helpers/createSlots";
+export { withCtx } from "./componentRenderContext";
+export { inheritAttrs } from "./componentRenderUtils";
 
 export {
   type VNode,
   type VNodeProps,
+  type VNodeRef,
   type VNodeProps as VNodeData,
   type VNodeArrayChildren,
   createVNode,
   createTextVNode,
   createCommentVNode,
+  createStaticVNode,
   createElementVNode,
+  createBlock,
+  createElementBlock,
+  openBlock,
+  setBlockTracking,
   mergeProps,
   normalizeVNode,
   isVNode,
   Fragment,
   Text,
   Comment,
+  Static,
 } from "./vnode";
 
 export { Teleport, type TeleportProps } from "./components/Teleport";
 export { KeepAlive, type KeepAliveProps } from "./components/KeepAlive";
+export { Suspense, type SuspenseProps, type SuspenseBoundary } from "./components/Suspense";
 
-export { type RendererOptions, type RootRenderFunction, createRenderer } from "./renderer";
-export type { DirectiveBinding, DirectiveHook, ObjectDirective } from "./directives";
+export {
+  type ElementNamespace,
+  type RendererOptions,
+  type RootRenderFunction,
+  type HydrationRenderer,
+  createRenderer,
+  createHydrationRenderer,
+} from "./renderer";
+export type { RootHydrateFunction } from "./hydration";
+export type { HMRRuntime } from "./hmr";
+export type {
+  DirectiveBinding,
+  DirectiveHook,
+  DirectiveModifiers,
+  ObjectDirective,
+} from "./directives";
 
 export { withDirectives } from "./directives";
 
@@ -118,6 +156,14 @@ export {
   setupComponent,
 } from "./component";
 export { LifecycleHooks } from "./enums";
+export {
+  ErrorCodes,
+  type ErrorTypes,
+  callWithErrorHandling,
+  callWithAsyncErrorHandling,
+  handleError,
+} from "./errorHandling";
+export { warn } from "./warning";
 export { type ComponentOptions, type RenderFunction } from "./componentOptions";
 export { type ComponentPublicInstance } from "./componentPublicInstance";
 
@@ -4,7 +4,14 @@ import {
   initialRenderVaporComponent,
 } from "@chibivue/runtime-vapor";
 import { ReactiveEffect } from "@chibivue/reactivity";
-import { ShapeFlags, invokeArrayFns, isFunction } from "@chibivue/shared";
+import {
+  PatchFlags,
+  ShapeFlags,
+  invokeArrayFns,
+  isArray,
+  isFunction,
+  isReservedProp,
+} from "@chibivue/shared";
 
 import { createAppAPI } from "./apiCreateApp";
 import {
@@ -15,8 +22,15 @@ import {
 } from "./component";
 import { updateProps } from "./componentProps";
 import { updateSlots } from "./componentSlots";
-import { renderComponentRoot } from "./componentRenderUtils";
+import { renderComponentRoot, updateHOCHostEl } from "./componentRenderUtils";
 import { invokeDirectiveHook } from "./directives";
+import {
+  type HydrateNodeFn,
+  type RootHydrateFunction,
+  createHydrationFunctions,
+} from "./hydration";
+import { warn } from "./warning";
+import { isHmrUpdating, registerHMR, unregisterHMR } from "./hmr";
 import { setRef } from "./rendererTemplateRef";
 import {
   type SchedulerJob,
@@ -28,33 +42,49 @@ import {
 import {
   Comment,
   Fragment,
+  Static,
   Text,
   type VNode,
   type VNodeArrayChildren,
+  cloneIfMounted,
+  createVNode,
   isSameVNodeType,
   normalizeVNode,
 } from "./vnode";
-import {
-  isTeleport,
-  Teleport,
-  type TeleportInternals,
-  type TeleportVNode,
-} from "./components/Teleport";
+import { isTeleport, Teleport, type TeleportVNode } from "./components/Teleport";
 import { isKeepAlive, type KeepAliveContext } from "./components/KeepAlive";
+import {
+  type SuspenseBoundary,
+  type SuspenseImpl,
+  queueEffectWithSuspense,
+} from "./components/Suspense";
 
 export type RootRenderFunction<HostElement = RendererElement> = (
   vnode: VNode | null,
   container: HostElement,
   parentComponent: ComponentInternalInstance | VaporComponentInternalInstance | null,
+  namespace?: ElementNamespace,
 ) => void;
 
+/**
+ * The namespace an element is created in. `undefined` is the HTML namespace.
+ */
+export type ElementNamespace = "svg" | "mathml" | undefined;
+
 export interface RendererOptions<HostNode = RendererNode, HostElement = RendererElement> {
-  patchProp(el: HostElement, key: string, prevValue: any, nextValue: any): void;
+  patchProp(
+    el: HostElement,
+    key: string,
+    prevValue: any,
+    nextValue: any,
+    namespace?: ElementNamespace,
+    parentComponent?: ComponentInternalInstance | null,
+  ): void;
 
   insert(parentNode: HostNode, newNode: HostNode, anchor?: HostNode | null): void;
   remove(child: HostNode): void;
 
-  createElement(tagName: string): HostElement;
+  createElement(tagName: string, namespace?: ElementNamespace): HostElement;
   createComment(text: string): HostNode;
   createText(text: string): Text;
 
@@ -65,6 +95,14 @@ export interface RendererOptions<HostNode = RendererNode, HostElement = Renderer
   nextSibling(node: HostNode): HostNode | null;
 
   querySelector?(selector: string): HostElement | null;
+  insertStaticContent?(
+    content: string,
+    parent: HostElement,
+    anchor: HostNode | null,
+    namespace: ElementNamespace,
+    start?: HostNode | null,
+    end?: HostNode | null,
+  ): [HostNode, HostNode];
 }
 
 // Renderer Node can technically be any object in the context of core renderer
@@ -86,6 +124,9 @@ type PatchFn = (
   container: RendererElement,
   anchor: RendererNode | null,
   parentComponent: ComponentInternalInstance | VaporComponentInternalInstance | null,
+  parentSuspense?: SuspenseBoundary | null,
+  namespace?: ElementNamespace,
+  optimized?: boolean,
 ) => void;
 
 type ProcessVaporComponentFn = (
@@ -108,6 +149,8 @@ type MountChildrenFn = (
   container: RendererElement,
   anchor: RendererNode | null,
   parentComponent: ComponentInternalInstance | VaporComponentInternalInstance | null,
+  parentSuspense?: SuspenseBoundary | null,
+  namespace?: ElementNamespace,
 ) => void;
 
 type PatchChildrenFn = (
@@ -116,6 +159,17 @@ type PatchChildrenFn = (
   container: RendererElement,
   anchor: RendererNode | null,
   parentComponent: ComponentInternalInstance | VaporComponentInternalInstance | null,
+  parentSuspense?: SuspenseBoundary | null,
+  namespace?: ElementNamespace,
+) => void;
+
+type PatchBlockChildrenFn = (
+  oldChildren: VNode[],
+  newChildren: VNode[],
+  fallbackContainer: RendererElement,
+  parentComponent: ComponentInternalInstance | VaporComponentInternalInstance | null,
+  parentSuspense: SuspenseBoundary | null,
+  namespace: ElementNamespace,
 ) => void;
 
 type MoveFn = (vnode: VNode, container: RendererElement, anchor: RendererNode | null) => void;
@@ -125,29 +179,78 @@ type MountComponentFn = (
   container: RendererElement,
   anchor: RendererNode | null,
   parentComponent: ComponentInternalInstance | VaporComponentInternalInstance | null,
+  parentSuspense: SuspenseBoundary | null,
+  namespace: ElementNamespace,
 ) => void;
 
 type NextFn = (vnode: VNode) => RendererNode | null;
 
-type UnmountFn = (vnode: VNode, parentComponent?: ComponentInternalInstance) => void;
+type UnmountFn = (
+  vnode: VNode,
+  parentComponent?: ComponentInternalInstance | null,
+  parentSuspense?: SuspenseBoundary | null,
+  doRemove?: boolean,
+) => void;
 type RemoveFn = (vnode: VNode) => void;
 
-type UnmountChildrenFn = (children: VNode[]) => void;
+type UnmountChildrenFn = (
+  children: VNode[],
+  parentComponent?: ComponentInternalInstance | null,
+  parentSuspense?: SuspenseBoundary | null,
+  doRemove?: boolean,
+) => void;
 
-type SetupRenderEffectFn = (
+export type SetupRenderEffectFn = (
   instance: ComponentInternalInstance,
   initialVNode: VNode,
   container: RendererElement,
   anchor: RendererNode | null,
+  parentSuspense: SuspenseBoundary | null,
+  namespace: ElementNamespace,
 ) => void;
 
+// An object exposing the internals of a renderer, passed to tree-shakeable
+// features (Teleport, Suspense, hydration) so that they can be decoupled from
+// this file.
+export interface RendererInternals {
+  p: PatchFn;
+  um: UnmountFn;
+  m: MoveFn;
+  mt: MountComponentFn;
+  mc: MountChildrenFn;
+  pc: PatchChildrenFn;
+  pbc: PatchBlockChildrenFn;
+  n: NextFn;
+  o: RendererOptions;
+}
+
+const queuePostRenderEffect = queueEffectWithSuspense;
+
 export interface Renderer {
   render: RootRenderFunction;
   createApp: ReturnType<typeof createAppAPI>;
 }
 
-// implementation
+export interface HydrationRenderer extends Renderer {
+  hydrate: RootHydrateFunction;
+}
+
 export function createRenderer(options: RendererOptions): Renderer {
+  return baseCreateRenderer(options);
+}
+
+// Separate API for creating hydration-enabled renderer.
+// Hydration logic is only used when calling this function, making it
+// tree-shakable.
+export function createHydrationRenderer(options: RendererOptions): HydrationRenderer {
+  return baseCreateRenderer(options, createHydrationFunctions) as HydrationRenderer;
+}
+
+// implementation
+function baseCreateRenderer(
+  options: RendererOptions,
+  createHydrationFns?: typeof createHydrationFunctions,
+): Renderer | HydrationRenderer {
   const {
     insert: hostInsert,
     remove: hostRemove,
@@ -159,9 +262,19 @@ export function createRenderer(options: RendererOptions): Renderer {
     setElementText: hostSetElementText,
     parentNode: hostParentNode,
     nextSibling: hostNextSibling,
+    insertStaticContent: hostInsertStaticContent,
   } = options;
 
-  const patch: PatchFn = (n1, n2, container, anchor, parentComponent = null) => {
+  const patch: PatchFn = (
+    n1,
+    n2,
+    container,
+    anchor,
+    parentComponent = null,
+    parentSuspense = null,
+    namespace = undefined,
+    optimized = !!n2.dynamicChildren,
+  ) => {
     if (n1 === n2) {
       return;
     }
@@ -174,10 +287,15 @@ export function createRenderer(options: RendererOptions): Renderer {
       if (!willBeKeptAlive) {
         anchor = getNextHostNode(n1);
       }
-      unmount(n1, parentComponent as ComponentInternalInstance);
+      unmount(n1, parentComponent as ComponentInternalInstance, parentSuspense, true);
       n1 = null;
     }
 
+    if (n2.patchFlag === PatchFlags.BAIL) {
+      optimized = false;
+      n2.dynamicChildren = null;
+    }
+
     const { type, ref, shapeFlag } = n2;
     if (isFunction(type)) {
       processVaporComponent(n1, n2, container, anchor, parentComponent);
@@ -185,8 +303,14 @@ export function createRenderer(options: RendererOptions): Renderer {
       processText(n1, n2, container, anchor);
     } else if (type === Comment) {
       processCommentNode(n1, n2, container, anchor);
+    } else if (type === Static) {
+      if (n1 == null) {
+        mountStaticNode(n2, container, anchor, namespace);
+      } else {
+        patchStaticNode(n1, n2, container, namespace);
+      }
     } else if (type === Fragment) {
-      processFragment(n1, n2, container, anchor, parentComponent);
+      processFragment(n1, n2, container, anchor, parentComponent, parentSuspense, namespace);
     } else if (shapeFlag & ShapeFlags.TELEPORT) {
       (type as typeof Teleport).process(
         n1 as TeleportVNode,
@@ -194,16 +318,41 @@ export function createRenderer(options: RendererOptions): Renderer {
         container,
         anchor,
         parentComponent as ComponentInternalInstance,
+        parentSuspense,
+        namespace,
+        internals,
+      );
+    } else if (shapeFlag & ShapeFlags.SUSPENSE) {
+      (type as SuspenseImpl).process(
+        n1,
+        n2,
+        container,
+        anchor,
+        parentComponent as ComponentInternalInstance,
+        parentSuspense,
+        namespace,
         internals,
       );
     } else if (shapeFlag & ShapeFlags.ELEMENT) {
-      processElement(n1, n2, container, anchor, parentComponent);
+      processElement(
+        n1,
+        n2,
+        container,
+        anchor,
+        parentComponent,
+        parentSuspense,
+        namespace,
+        optimized,
+      );
     } else if (shapeFlag & ShapeFlags.COMPONENT) {
-      processComponent(n1, n2, container, anchor, parentComponent);
+      processComponent(n1, n2, container, anchor, parentComponent, parentSuspense, namespace);
     }
 
-    if (ref) {
-      setRef(ref, n2);
+    // set ref
+    if (ref != null && parentComponent) {
+      setRef(ref, n1 && n1.ref, parentSuspense, n2);
+    } else if (ref == null && n1 && n1.ref != null) {
+      setRef(n1.ref, null, parentSuspense, n1, true);
     }
   };
 
@@ -261,17 +410,82 @@ export function createRenderer(options: RendererOptions): Renderer {
     }
   };
 
+  const mountStaticNode = (
+    n2: VNode,
+    container: RendererElement,
+    anchor: RendererNode | null,
+    namespace: ElementNamespace,
+  ) => {
+    // static nodes are only present when used with compiler-dom/runtime-dom
+    // which guarantees presence of hostInsertStaticContent.
+    [n2.el, n2.anchor] = hostInsertStaticContent!(
+      n2.children as string,
+      container,
+      anchor,
+      namespace,
+      n2.el,
+      n2.anchor,
+    );
+  };
+
+  const patchStaticNode = (
+    n1: VNode,
+    n2: VNode,
+    container: RendererElement,
+    namespace: ElementNamespace,
+  ) => {
+    // static content only changes when the template itself is replaced
+    if (n2.children !== n1.children) {
+      const anchor = hostNextSibling(n1.anchor!);
+      // remove existing
+      removeFragment(n1.el!, n1.anchor!);
+      // insert new
+      [n2.el, n2.anchor] = hostInsertStaticContent!(
+        n2.children as string,
+        container,
+        anchor,
+        namespace,
+      );
+    } else {
+      n2.el = n1.el;
+      n2.anchor = n1.anchor;
+    }
+  };
+
+  const moveStaticNode = (
+    { el, anchor }: VNode,
+    container: RendererElement,
+    nextSibling: RendererNode | null,
+  ) => {
+    let next;
+    while (el && el !== anchor) {
+      next = hostNextSibling(el);
+      hostInsert(el, container, nextSibling);
+      el = next;
+    }
+    hostInsert(anchor!, container, nextSibling);
+  };
+
   const processElement = (
     n1: VNode | null,
     n2: VNode,
     container: RendererElement,
     anchor: RendererNode | null,
     parentComponent: ComponentInternalInstance | VaporComponentInternalInstance | null,
+    parentSuspense: SuspenseBoundary | null,
+    namespace: ElementNamespace,
+    optimized: boolean,
   ) => {
+    if (n2.type === "svg") {
+      namespace = "svg";
+    } else if (n2.type === "math") {
+      namespace = "mathml";
+    }
+
     if (n1 == null) {
-      mountElement(n2, container, anchor, parentComponent);
+      mountElement(n2, container, anchor, parentComponent, parentSuspense, namespace);
     } else {
-      patchElement(n1, n2, parentComponent);
+      patchElement(n1, n2, parentComponent, parentSuspense, namespace, optimized);
     }
   };
 
@@ -280,46 +494,185 @@ export function createRenderer(options: RendererOptions): Renderer {
     container: RendererElement,
     anchor: RendererNode | null,
     parentComponent: ComponentInternalInstance | VaporComponentInternalInstance | null,
+    parentSuspense: SuspenseBoundary | null,
+    namespace: ElementNamespace,
   ) => {
     let el: RendererElement;
-    const { type, props, shapeFlag, dirs } = vnode;
+    const { type, props, shapeFlag, transition, dirs } = vnode;
 
-    el = vnode.el = hostCreateElement(type as string);
+    el = vnode.el = hostCreateElement(type as string, namespace);
 
     if (shapeFlag & ShapeFlags.TEXT_CHILDREN) {
       hostSetElementText(el, vnode.children as string);
     } else if (shapeFlag & ShapeFlags.ARRAY_CHILDREN) {
-      mountChildren(vnode.children as VNodeArrayChildren, el, null, parentComponent);
+      mountChildren(
+        vnode.children as VNodeArrayChildren,
+        el,
+        null,
+        parentComponent,
+        parentSuspense,
+        resolveChildrenNamespace(vnode, namespace),
+      );
     }
 
-    dirs && invokeDirectiveHook(vnode, null, "created");
+    const instance = parentComponent as ComponentInternalInstance | null;
+    dirs && invokeDirectiveHook(vnode, null, instance, "created");
 
     if (props) {
       for (const key in props) {
-        hostPatchProp(el, key, null, props[key]);
+        if (!isReservedProp(key)) {
+          hostPatchProp(el, key, null, props[key], namespace, instance);
+        }
       }
     }
 
-    dirs && invokeDirectiveHook(vnode, null, "beforeMount");
+    dirs && invokeDirectiveHook(vnode, null, instance, "beforeMount");
+    const needCallTransitionHooks = needTransition(parentSuspense, transition);
+    if (needCallTransitionHooks) {
+      transition.beforeEnter(el);
+    }
     hostInsert(el, container, anchor!);
-    dirs && invokeDirectiveHook(vnode, null, "mounted");
+    dirs && invokeDirectiveHook(vnode, null, instance, "mounted");
+    if (needCallTransitionHooks) {
+      queuePostRenderEffect(() => transition.enter(el), parentSuspense);
+    }
   };
 
   const patchElement = (
     n1: VNode,
     n2: VNode,
     parentComponent: ComponentInternalInstance | VaporComponentInternalInstance | null,
+    parentSuspense: SuspenseBoundary | null,
+    namespace: ElementNamespace,
+    optimized: boolean,
   ) => {
     const el = (n2.el = n1.el!);
-    const { dirs } = n2;
+    let { patchFlag, dynamicChildren, dirs } = n2;
+
+    if (isHmrUpdating) {
+      // the render function was swapped, so the old and new trees may not
+      // have the same shape: force a full diff
+      patchFlag = 0;
+      optimized = false;
+      dynamicChildren = null;
+    }
 
     const oldProps = n1.props ?? {};
     const newProps = n2.props ?? {};
 
-    dirs && invokeDirectiveHook(n2, n1, "beforeUpdate");
-    patchChildren(n1, n2, el, null, parentComponent);
-    patchProps(el, oldProps, newProps);
-    dirs && invokeDirectiveHook(n2, n1, "updated");
+    const instance = parentComponent as ComponentInternalInstance | null;
+    dirs && invokeDirectiveHook(n2, n1, instance, "beforeUpdate");
+
+    if (dynamicChildren) {
+      patchBlockChildren(
+        n1.dynamicChildren!,
+        dynamicChildren,
+        el,
+        parentComponent,
+        parentSuspense,
+        resolveChildrenNamespace(n2, namespace),
+      );
+    } else if (!optimized) {
+      // full diff
+      patchChildren(
+        n1,
+        n2,
+        el,
+        null,
+        parentComponent,
+        parentSuspense,
+        resolveChildrenNamespace(n2, namespace),
+      );
+    }
+
+    if (patchFlag > 0) {
+      // the presence of a patchFlag means this element's render code was
+      // generated by the compiler and can take the fast path.
+      // in this path old node and new node are guaranteed to have the same shape
+      // (i.e. at the exact same position in the source template)
+      if (patchFlag & PatchFlags.FULL_PROPS) {
+        // element props contain dynamic keys, full diff needed
+        patchProps(el, oldProps, newProps, instance, namespace);
+      } else {
+        // class
+        // this flag is matched when the element has dynamic class bindings.
+        if (patchFlag & PatchFlags.CLASS) {
+          if (oldProps.class !== newProps.class) {
+            hostPatchProp(el, "class", null, newProps.class, namespace, instance);
+          }
+        }
+
+        // style
+        // this flag is matched when the element has dynamic style bindings
+        if (patchFlag & PatchFlags.STYLE) {
+          hostPatchProp(el, "style", oldProps.style, newProps.style, namespace, instance);
+        }
+
+        // props
+        // This flag is matched when the element has dynamic prop/attr bindings
+        // other than class and style. The keys of dynamic prop/attrs are saved for
+        // faster iteration.
+        // Note dynamic keys like :[foo]="bar" will cause this optimization to
+        // bail out and go through a full diff because we need to unset the old key
+        if (patchFlag & PatchFlags.PROPS) {
+          const propsToUpdate = n2.dynamicProps!;
+          for (let i = 0; i < propsToUpdate.length; i++) {
+            const key = propsToUpdate[i];
+            const prev = oldProps[key];
+            const next = newProps[key];
+            if (next !== prev) {
+              hostPatchProp(el, key, prev, next, namespace, instance);
+            }
+          }
+        }
+      }
+
+      // text
+      // This flag is matched when the element has only dynamic text children.
+      if (patchFlag & PatchFlags.TEXT) {
+        if (n1.children !== n2.children) {
+          hostSetElementText(el, n2.children as string);
+        }
+      }
+    } else if (!optimized && dynamicChildren == null) {
+      // unoptimized, full diff
+      patchProps(el, oldProps, newProps, instance, namespace);
+    }
+
+    dirs && invokeDirectiveHook(n2, n1, instance, "updated");
+  };
+
+  // The fast path for blocks.
+  const patchBlockChildren: PatchBlockChildrenFn = (
+    oldChildren,
+    newChildren,
+    fallbackContainer,
+    parentComponent,
+    parentSuspense,
+    namespace,
+  ) => {
+    for (let i = 0; i < newChildren.length; i++) {
+      const oldVNode = oldChildren[i];
+      const newVNode = newChildren[i];
+      // Determine the container (parent element) for the patch.
+      const container =
+        // oldVNode may be an errored async setup() component inside Suspense
+        // which will not have a mounted element
+        oldVNode.el &&
+        // - In the case of a Fragment, we need to provide the actual parent
+        // of the Fragment itself so it can move its children.
+        (oldVNode.type === Fragment ||
+          // - In the case of different nodes, there is going to be a replacement
+          // which also requires the correct parent container
+          !isSameVNodeType(oldVNode, newVNode) ||
+          // - In the case of a component, it could contain anything.
+          oldVNode.shapeFlag & (ShapeFlags.COMPONENT | ShapeFlags.TELEPORT | ShapeFlags.SUSPENSE))
+          ? hostParentNode(oldVNode.el)!
+          : // In other cases, the parent container is not actually used so we
+            // just pass the block element here to avoid a DOM parentNode call.
+            fallbackContainer;
+      patch(oldVNode, newVNode, container, null, parentComponent, parentSuspense, namespace, true);
+    }
   };
 
   const processComponent = (
@@ -328,6 +681,8 @@ export function createRenderer(options: RendererOptions): Renderer {
     container: RendererElement,
     anchor: RendererNode | null,
     parentComponent: ComponentInternalInstance | VaporComponentInternalInstance | null = null,
+    parentSuspense: SuspenseBoundary | null = null,
+    namespace: ElementNamespace = undefined,
   ) => {
     if (n1 == null) {
       if (n2.shapeFlag & ShapeFlags.COMPONENT_KEPT_ALIVE) {
@@ -336,27 +691,35 @@ export function createRenderer(options: RendererOptions): Renderer {
           container,
           anchor,
           parentComponent as ComponentInternalInstance,
+          namespace,
         );
       } else {
-        mountComponent(n2, container, anchor, parentComponent);
+        mountComponent(n2, container, anchor, parentComponent, parentSuspense, namespace);
       }
     } else {
       updateComponent(n1, n2);
     }
   };
 
-  const patchProps = (el: RendererElement, oldProps: Data, newProps: Data) => {
+  const patchProps = (
+    el: RendererElement,
+    oldProps: Data,
+    newProps: Data,
+    parentComponent: ComponentInternalInstance | null,
+    namespace: ElementNamespace,
+  ) => {
     for (const key in oldProps) {
-      if (!(key in newProps)) {
-        hostPatchProp(el, key, oldProps[key], null);
+      if (!isReservedProp(key) && !(key in newProps)) {
+        hostPatchProp(el, key, oldProps[key], null, namespace, parentComponent);
       }
     }
     for (const key in newProps) {
+      if (isReservedProp(key)) continue;
       const next = newProps[key];
       const prev = oldProps[key];
       // defer patching value
       if (next !== prev) {
-        hostPatchProp(el, key, prev, next);
+        hostPatchProp(el, key, prev, next, namespace, parentComponent);
       }
     }
   };
@@ -367,10 +730,20 @@ export function createRenderer(options: RendererOptions): Renderer {
     container: RendererElement,
     anchor: RendererNode | null,
     parentComponent: ComponentInternalInstance | VaporComponentInternalInstance | null,
+    parentSuspense: SuspenseBoundary | null,
+    namespace: ElementNamespace,
   ) => {
     const fragmentStartAnchor = (n2.el = n1 ? n1.el : hostCreateText(""))!;
     const fragmentEndAnchor = (n2.anchor = n1 ? n1.anchor : hostCreateText(""))!;
 
+    let { patchFlag, dynamicChildren } = n2;
+
+    if (isHmrUpdating) {
+      // HMR updated, force full diff
+      patchFlag = 0;
+      dynamicChildren = null;
+    }
+
     if (n1 == null) {
       hostInsert(fragmentStartAnchor, container, anchor);
       hostInsert(fragmentEndAnchor, container, anchor);
@@ -379,22 +752,83 @@ export function createRenderer(options: RendererOptions): Renderer {
         container,
         fragmentEndAnchor,
         parentComponent,
+        parentSuspense,
+        namespace,
       );
     } else {
-      patchChildren(n1, n2, container, fragmentEndAnchor, parentComponent);
+      if (
+        patchFlag > 0 &&
+        patchFlag & PatchFlags.STABLE_FRAGMENT &&
+        dynamicChildren &&
+        // a stable fragment may have been hydrated or mounted without its
+        // dynamic children being tracked.
+        n1.dynamicChildren
+      ) {
+        // a stable fragment (template root or <slot>) doesn't need to
+        // patch children order, but it may contain dynamicChildren.
+        patchBlockChildren(
+          n1.dynamicChildren,
+          dynamicChildren,
+          container,
+          parentComponent,
+          parentSuspense,
+          namespace,
+        );
+        if (
+          // a keyed fragment (e.g. slot content) or the root fragment of a
+          // component may be moved later, so all of its children need to
+          // keep their DOM references.
+          n2.key != null ||
+          (parentComponent && n2 === (parentComponent as ComponentInternalInstance).subTree)
+        ) {
+          traverseStaticChildren(n1, n2, true /* shallow */);
+        }
+      } else {
+        // keyed / unkeyed, or manual fragments.
+        // for keyed & unkeyed, since they are compiler generated from v-for,
+        // each child is guaranteed to be a block so the fragment will never
+        // have dynamicChildren.
+        patchChildren(
+          n1,
+          n2,
+          container,
+          fragmentEndAnchor,
+          parentComponent,
+          parentSuspense,
+          namespace,
+        );
+      }
     }
   };
 
-  const mountChildren: MountChildrenFn = (children, container, anchor, parentComponent) => {
+  const mountChildren: MountChildrenFn = (
+    children,
+    container,
+    anchor,
+    parentComponent,
+    parentSuspense = null,
+    namespace,
+  ) => {
     for (let i = 0; i < children.length; i++) {
       const child = (children[i] = normalizeVNode(children[i]));
-      patch(null, child, container, anchor, parentComponent);
+      patch(null, child, container, anchor, parentComponent, parentSuspense, namespace);
     }
   };
 
-  const mountComponent: MountComponentFn = (initialVNode, container, anchor, parentComponent) => {
+  const mountComponent: MountComponentFn = (
+    initialVNode,
+    container,
+    anchor,
+    parentComponent,
+    parentSuspense,
+    namespace,
+  ) => {
     // prettier-ignore
-    const instance: ComponentInternalInstance = (initialVNode.component = createComponentInstance(initialVNode, parentComponent));
+    const instance: ComponentInternalInstance = (initialVNode.component = createComponentInstance(initialVNode, parentComponent, parentSuspense));
+
+    if (instance.type.__hmrId) {
+      registerHMR(instance);
+    }
 
     if (isKeepAlive(initialVNode)) {
       (instance as KeepAliveContext).renderer = {
@@ -406,33 +840,68 @@ export function createRenderer(options: RendererOptions): Renderer {
     }
 
     setupComponent(instance);
-    setupRenderEffect(instance, initialVNode, container, anchor);
+
+    // setup() is async. This component relies on async logic to be resolved
+    // before proceeding
+    if (instance.asyncDep) {
+      if (parentSuspense) {
+        parentSuspense.registerDep(instance, setupRenderEffect);
+      } else {
+        warn(`async setup() is used without a suspense boundary!`);
+      }
+
+      // Give it a placeholder if this is not hydration
+      if (!initialVNode.el) {
+        const placeholder = (instance.subTree = createVNode(Comment));
+        processCommentNode(null, placeholder, container, anchor);
+      }
+      return;
+    }
+
+    setupRenderEffect(instance, initialVNode, container, anchor, parentSuspense, namespace);
   };
 
   const updateComponent = (n1: VNode, n2: VNode) => {
     const instance = (n2.component = n1.component)!;
     instance.next = n2;
+    // the new vnode has to be rendered even if no reactive dep has changed
+    instance.effect.dirty = true;
     instance.update();
   };
 
-  const setupRenderEffect: SetupRenderEffectFn = (instance, initialVNode, container, anchor) => {
+  const setupRenderEffect: SetupRenderEffectFn = (
+    instance,
+    initialVNode,
+    container,
+    anchor,
+    parentSuspense,
+    namespace,
+  ) => {
     const componentUpdateFn = () => {
       const { bm, m, bu, u } = instance;
 
       if (!instance.isMounted) {
+        const { el } = initialVNode;
+
         // beforeMount hook
         if (bm) {
           invokeArrayFns(bm);
         }
 
         const subTree = (instance.subTree = renderComponentRoot(instance));
-        patch(null, subTree, container, anchor, instance);
+        if (el && hydrateNode) {
+          // the initial vnode already points at server-rendered DOM,
+          // so adopt it instead of mounting a new sub-tree.
+          hydrateNode(el as Node, subTree, instance, parentSuspense);
+        } else {
+          patch(null, subTree, container, anchor, instance, parentSuspense, namespace);
+        }
         initialVNode.el = subTree.el;
         instance.isMounted = true;
 
         // mounted hook
         if (m) {
-          queuePostFlushCb(m);
+          queuePostRenderEffect(m as SchedulerJob[], parentSuspense);
         }
       } else {
         let { next, vnode } = instance;
@@ -458,12 +927,20 @@ export function createRenderer(options: RendererOptions): Renderer {
         const prevTreeWillBeKeptAlive = prevTree.shapeFlag & ShapeFlags.COMPONENT_SHOULD_KEEP_ALIVE;
         const anchor = prevTreeWillBeKeptAlive ? null : getNextHostNode(prevTree);
 
-        patch(prevTree, nextTree, hostParentNode(prevTree.el!)!, anchor, instance);
+        patch(
+          prevTree,
+          nextTree,
+          hostParentNode(prevTree.el!)!,
+          anchor,
+          instance,
+          parentSuspense,
+          namespace,
+        );
         next.el = nextTree.el;
 
         // updated hook
         if (u) {
-          queuePostFlushCb(u);
+          queuePostRenderEffect(u as SchedulerJob[], parentSuspense);
         }
       }
     };
@@ -472,7 +949,13 @@ export function createRenderer(options: RendererOptions): Renderer {
       () => queueJob(update),
       instance.scope,
     ));
-    const update: SchedulerJob = (instance.update = () => effect.run());
+    effect.onTrack = instance.rtc ? (e) => invokeArrayFns(instance.rtc!, e) : void 0;
+    effect.onTrigger = instance.rtg ? (e) => invokeArrayFns(instance.rtg!, e) : void 0;
+    const update: SchedulerJob = (instance.update = () => {
+      if (effect.dirty) {
+        effect.run();
+      }
+    });
     update.id = instance.uid;
 
     update();
@@ -480,14 +963,23 @@ export function createRenderer(options: RendererOptions): Renderer {
 
   const updateComponentPreRender = (instance: ComponentInternalInstance, nextVNode: VNode) => {
     nextVNode.component = instance;
+    const prevProps = instance.vnode.props;
     instance.vnode = nextVNode;
     instance.next = null;
-    updateProps(instance, nextVNode.props);
+    updateProps(instance, nextVNode.props, prevProps);
     updateSlots(instance, nextVNode.children);
     flushPreFlushCbs();
   };
 
-  const patchChildren: PatchChildrenFn = (n1, n2, container, anchor, parentComponent) => {
+  const patchChildren: PatchChildrenFn = (
+    n1,
+    n2,
+    container,
+    anchor,
+    parentComponent,
+    parentSuspense = null,
+    namespace,
+  ) => {
     const c1 = n1 && n1.children;
     const prevShapeFlag = n1 ? n1.shapeFlag : 0;
     const c2 = n2.children;
@@ -495,7 +987,11 @@ export function createRenderer(options: RendererOptions): Renderer {
 
     if (shapeFlag & ShapeFlags.TEXT_CHILDREN) {
       if (prevShapeFlag & ShapeFlags.ARRAY_CHILDREN) {
-        unmountChildren(c1 as VNode[]);
+        unmountChildren(
+          c1 as VNode[],
+          parentComponent as ComponentInternalInstance,
+          parentSuspense,
+        );
       }
       if (c2 !== c1) {
         hostSetElementText(container, c2 as string);
@@ -503,10 +999,23 @@ export function createRenderer(options: RendererOptions): Renderer {
     } else {
       if (prevShapeFlag & ShapeFlags.ARRAY_CHILDREN) {
         if (shapeFlag & ShapeFlags.ARRAY_CHILDREN) {
-          patchKeyedChildren(c1 as VNode[], c2 as VNode[], container, anchor, parentComponent);
+          patchKeyedChildren(
+            c1 as VNode[],
+            c2 as VNode[],
+            container,
+            anchor,
+            parentComponent,
+            parentSuspense,
+            namespace,
+          );
         } else {
           // no new children, just unmount old
-          unmountChildren(c1 as VNode[]);
+          unmountChildren(
+            c1 as VNode[],
+            parentComponent as ComponentInternalInstance,
+            parentSuspense,
+            true,
+          );
         }
       } else {
         // prev children was text OR null
@@ -516,7 +1025,14 @@ export function createRenderer(options: RendererOptions): Renderer {
         }
         // mount new if array
         if (shapeFlag & ShapeFlags.ARRAY_CHILDREN) {
-          mountChildren(c2 as VNodeArrayChildren, container, anchor, parentComponent);
+          mountChildren(
+            c2 as VNodeArrayChildren,
+            container,
+            anchor,
+            parentComponent,
+            parentSuspense,
+            namespace,
+          );
         }
       }
     }
@@ -529,6 +1045,8 @@ export function createRenderer(options: RendererOptions): Renderer {
     container: RendererElement,
     parentAnchor: RendererNode | null,
     parentComponent: ComponentInternalInstance | VaporComponentInternalInstance | null,
+    parentSuspense: SuspenseBoundary | null,
+    namespace: ElementNamespace,
   ) => {
     let i = 0;
     const l2 = c2.length;
@@ -542,7 +1060,7 @@ export function createRenderer(options: RendererOptions): Renderer {
       const n1 = c1[i];
       const n2 = (c2[i] = normalizeVNode(c2[i]));
       if (isSameVNodeType(n1, n2)) {
-        patch(n1, n2, container, null, parentComponent);
+        patch(n1, n2, container, null, parentComponent, parentSuspense, namespace);
       } else {
         break;
       }
@@ -554,9 +1072,9 @@ export function createRenderer(options: RendererOptions): Renderer {
     // d e (b c)
     while (i <= e1 && i <= e2) {
       const n1 = c1[e1];
-      const n2 = (c2[i] = normalizeVNode(c2[i]));
+      const n2 = (c2[e2] = normalizeVNode(c2[e2]));
       if (isSameVNodeType(n1, n2)) {
-        patch(n1, n2, container, null, parentComponent);
+        patch(n1, n2, container, null, parentComponent, parentSuspense, namespace);
       } else {
         break;
       }
@@ -576,7 +1094,15 @@ export function createRenderer(options: RendererOptions): Renderer {
         const nextPos = e2 + 1;
         const anchor = nextPos < l2 ? (c2[nextPos] as VNode).el : parentAnchor;
         while (i <= e2) {
-          patch(null, (c2[i] = normalizeVNode(c2[i])), container, anchor, parentComponent);
+          patch(
+            null,
+            (c2[i] = normalizeVNode(c2[i])),
+            container,
+            anchor,
+            parentComponent,
+            parentSuspense,
+            namespace,
+          );
           i++;
         }
       }
@@ -591,7 +1117,7 @@ export function createRenderer(options: RendererOptions): Renderer {
     // i = 0, e1 = 0, e2 = -1
     else if (i > e2) {
       while (i <= e1) {
-        unmount(c1[i]);
+        unmount(c1[i], parentComponent as ComponentInternalInstance, parentSuspense, true);
         i++;
       }
     }
@@ -633,7 +1159,7 @@ export function createRenderer(options: RendererOptions): Renderer {
         const prevChild = c1[i];
         if (patched >= toBePatched) {
           // all new children have been patched so this can only be a removal
-          unmount(prevChild);
+          unmount(prevChild, parentComponent as ComponentInternalInstance, parentSuspense, true);
           continue;
         }
         let newIndex;
@@ -649,7 +1175,7 @@ export function createRenderer(options: RendererOptions): Renderer {
           }
         }
         if (newIndex === undefined) {
-          unmount(prevChild);
+          unmount(prevChild, parentComponent as ComponentInternalInstance, parentSuspense, true);
         } else {
           newIndexToOldIndexMap[newIndex - s2] = i + 1;
           if (newIndex >= maxNewIndexSoFar) {
@@ -657,7 +1183,15 @@ export function createRenderer(options: RendererOptions): Renderer {
           } else {
             moved = true;
           }
-          patch(prevChild, c2[newIndex] as VNode, container, null, parentComponent);
+          patch(
+            prevChild,
+            c2[newIndex] as VNode,
+            container,
+            null,
+            parentComponent,
+            parentSuspense,
+            namespace,
+          );
           patched++;
         }
       }
@@ -673,7 +1207,7 @@ export function createRenderer(options: RendererOptions): Renderer {
         const anchor = nextIndex + 1 < l2 ? (c2[nextIndex + 1] as VNode).el : parentAnchor;
         if (newIndexToOldIndexMap[i] === 0) {
           // mount new
-          patch(null, nextChild, container, anchor, parentComponent);
+          patch(null, nextChild, container, anchor, parentComponent, parentSuspense, namespace);
         } else if (moved) {
           // move if:
           // There is no stable subsequence (e.g. a reverse)
@@ -695,11 +1229,21 @@ export function createRenderer(options: RendererOptions): Renderer {
       return;
     }
 
+    if (shapeFlag & ShapeFlags.SUSPENSE) {
+      vnode.suspense!.move(container, anchor);
+      return;
+    }
+
     if (shapeFlag & ShapeFlags.TELEPORT) {
       (type as typeof Teleport).move(vnode as TeleportVNode, container, anchor, internals);
       return;
     }
 
+    if (type === Static) {
+      moveStaticNode(vnode, container, anchor);
+      return;
+    }
+
     if (type === Fragment) {
       hostInsert(el!, container, anchor);
       for (let i = 0; i < (children as VNode[]).length; i++) {
@@ -712,8 +1256,18 @@ export function createRenderer(options: RendererOptions): Renderer {
     hostInsert(el!, container, anchor!);
   };
 
-  const unmount: UnmountFn = (vnode, parentComponent?: ComponentInternalInstance) => {
-    const { type, shapeFlag, children } = vnode;
+  const unmount: UnmountFn = (
+    vnode,
+    parentComponent = null,
+    parentSuspense = null,
+    doRemove = false,
+  ) => {
+    const { type, ref, shapeFlag, children } = vnode;
+
+    // unset ref
+    if (ref != null) {
+      setRef(ref, null, parentSuspense, vnode, true);
+    }
 
     if (shapeFlag & ShapeFlags.COMPONENT_SHOULD_KEEP_ALIVE) {
       (parentComponent as KeepAliveContext).deactivate(vnode);
@@ -721,23 +1275,45 @@ export function createRenderer(options: RendererOptions): Renderer {
     }
 
     if (shapeFlag & ShapeFlags.COMPONENT) {
-      unmountComponent(vnode.component!);
-    } else if (shapeFlag & ShapeFlags.TELEPORT) {
-      (type as typeof Teleport).remove(vnode as TeleportVNode, internals);
-      return;
-    } else if (shapeFlag & ShapeFlags.ARRAY_CHILDREN) {
-      unmountChildren(children as VNode[]);
+      unmountComponent(vnode.component!, parentSuspense, doRemove);
+    } else {
+      if (shapeFlag & ShapeFlags.SUSPENSE) {
+        vnode.suspense!.unmount(parentSuspense, doRemove);
+        return;
+      }
+
+      if (shapeFlag & ShapeFlags.TELEPORT) {
+        (type as typeof Teleport).remove(vnode as TeleportVNode, internals, doRemove);
+        return;
+      }
+
+      // descendants are detached together with this node, so they are never
+      // removed one by one. this matters for static nodes skipped by block
+      // patching, which do not hold a reference to their DOM node.
+      if (shapeFlag & ShapeFlags.ARRAY_CHILDREN) {
+        unmountChildren(children as VNode[], parentComponent, parentSuspense);
+      }
+
+      if (doRemove) {
+        remove(vnode);
+      }
     }
-    remove(vnode);
   };
 
   const remove: RemoveFn = (vnode) => {
-    const { el, type, anchor } = vnode;
-    if (type === Fragment) {
+    const { el, type, anchor, transition } = vnode;
+    if (type === Fragment || type === Static) {
       removeFragment(el!, anchor!);
+      return;
     }
 
-    hostRemove(el!);
+    const performRemove = () => hostRemove(el!);
+    if (vnode.shapeFlag & ShapeFlags.ELEMENT && transition && !transition.persisted) {
+      // the element stays in place until its leave transition has finished
+      transition.leave(el!, performRemove);
+    } else {
+      performRemove();
+    }
   };
 
   const removeFragment = (cur: RendererNode, end: RendererNode) => {
@@ -750,26 +1326,57 @@ export function createRenderer(options: RendererOptions): Renderer {
     hostRemove(end);
   };
 
-  const unmountComponent = (instance: ComponentInternalInstance) => {
+  const unmountComponent = (
+    instance: ComponentInternalInstance,
+    parentSuspense: SuspenseBoundary | null,
+    doRemove?: boolean,
+  ) => {
     const { subTree, scope, bum, um } = instance;
 
+    if (instance.type.__hmrId) {
+      unregisterHMR(instance);
+    }
+
     // beforeUnmount hook
     if (bum) {
       invokeArrayFns(bum);
     }
 
     scope.stop();
-    unmount(subTree);
+    unmount(subTree, instance, parentSuspense, doRemove);
 
     // unmounted hook
     if (um) {
-      queuePostFlushCb(um);
+      queuePostRenderEffect(um as SchedulerJob[], parentSuspense);
+    }
+    instance.isUnmounted = true;
+
+    // A component with async dep inside a pending suspense is unmounted before
+    // its async dep resolves. This should remove the dep from the suspense, and
+    // cause the suspense to resolve immediately if that was the last dep.
+    if (
+      parentSuspense &&
+      parentSuspense.pendingBranch &&
+      !parentSuspense.isUnmounted &&
+      instance.asyncDep &&
+      !instance.asyncResolved &&
+      instance.suspenseId === parentSuspense.pendingId
+    ) {
+      parentSuspense.deps--;
+      if (parentSuspense.deps === 0) {
+        parentSuspense.resolve();
+      }
     }
   };
 
-  const unmountChildren: UnmountChildrenFn = (children) => {
+  const unmountChildren: UnmountChildrenFn = (
+    children,
+    parentComponent,
+    parentSuspense,
+    doRemove = false,
+  ) => {
     for (let i = 0; i < children.length; i++) {
-      unmount(children[i]);
+      unmount(children[i], parentComponent, parentSuspense, doRemove);
     }
   };
 
@@ -777,37 +1384,78 @@ export function createRenderer(options: RendererOptions): Renderer {
     if (vnode.shapeFlag & ShapeFlags.COMPONENT) {
       return getNextHostNode(vnode.component!.subTree);
     }
-    return hostNextSibling(vnode.el!);
+    if (vnode.shapeFlag & ShapeFlags.SUSPENSE) {
+      return vnode.suspense!.next();
+    }
+    return hostNextSibling((vnode.anchor || vnode.el)!);
   };
 
-  const internals: TeleportInternals = {
+  const internals: RendererInternals = {
+    p: patch,
+    mt: mountComponent,
     mc: mountChildren,
     pc: patchChildren,
-    pbc: patchChildren,
+    pbc: patchBlockChildren,
     um: unmount,
     m: move,
+    n: getNextHostNode,
     o: options,
   };
 
-  const render: RootRenderFunction = (vnode, container, parent) => {
+  const render: RootRenderFunction = (vnode, container, parent, namespace) => {
     if (vnode === null) {
       if (container._vnode) {
-        unmount(container._vnode);
+        unmount(container._vnode, null, null, true);
       }
     } else {
-      patch((container as any)._vnode || null, vnode, container, null, parent);
+      patch((container as any)._vnode || null, vnode, container, null, parent, null, namespace);
     }
     flushPreFlushCbs();
     flushPostFlushCbs();
     (container as any)._vnode = vnode;
   };
 
+  let hydrate: RootHydrateFunction | undefined;
+  let hydrateNode: HydrateNodeFn | undefined;
+  if (createHydrationFns) {
+    [hydrate, hydrateNode] = createHydrationFns(internals);
+  }
+
   return {
     render: render,
-    createApp: createAppAPI(render),
+    hydrate,
+    createApp: createAppAPI(render, hydrate),
   };
 }
 
+/**
+ * The namespace of the children of `vnode`. The content of a
+ * `<foreignObject>` is HTML again, and the `annotation-xml` of MathML switches
+ * to HTML when it is declared as such.
+ */
+function resolveChildrenNamespace(
+  { type, props }: VNode,
+  currentNamespace: ElementNamespace,
+): ElementNamespace {
+  return (currentNamespace === "svg" && type === "foreignObject") ||
+    (currentNamespace === "mathml" &&
+      type === "annotation-xml" &&
+      props &&
+      props.encoding &&
+      props.encoding.includes("html"))
+    ? undefined
+    : currentNamespace;
+}
+
+/**
+ * Whether the transition hooks of an element run when it is mounted. They are
+ * skipped inside a pending suspense branch, which is not visible yet, and for
+ * `persisted` transitions (`v-show`), whose hooks are driven by the directive.
+ */
+function needTransition(parentSuspense: SuspenseBoundary | null, transition: VNode["transition"]) {
+  return (!parentSuspense || !parentSuspense.pendingBranch) && transition && !transition.persisted;
+}
+
 // https://en.wikipedia.org/wiki/Longest_increasing_subsequence
 function getSequence(arr: number[]): number[] {
   const p = arr.slice();
@@ -849,3 +1497,40 @@ function getSequence(arr: number[]): number[] {
   }
   return result;
 }
+
+/**
+ * Static nodes inside a block are skipped when the block is patched, so the
+ * new vnodes never receive a reference to their DOM node. A fragment that may
+ * be moved later (e.g. keyed slot content or a teleport's children) moves every
+ * one of its children, so those children inherit the element from the
+ * previous tree here.
+ */
+export function traverseStaticChildren(n1: VNode, n2: VNode, shallow = false): void {
+  const ch1 = n1.children;
+  const ch2 = n2.children;
+  if (isArray(ch1) && isArray(ch2)) {
+    for (let i = 0; i < ch1.length; i++) {
+      // this is only called in the optimized path so array children are
+      // guaranteed to be vnodes
+      const c1 = ch1[i] as VNode;
+      let c2 = ch2[i] as VNode;
+      if (c2.shapeFlag & ShapeFlags.ELEMENT && !c2.dynamicChildren) {
+        if (c2.patchFlag <= 0) {
+          c2 = ch2[i] = cloneIfMounted(ch2[i] as VNode);
+          c2.el = c1.el;
+        }
+        if (!shallow && c2.patchFlag !== PatchFlags.BAIL) {
+          traverseStaticChildren(c1, c2);
+        }
+      }
+      // also inherit for text and comment nodes, but not placeholders (e.g.
+      // v-if comments which would have received .el during block patch)
+      if (c2.type === Text) {
+        c2.el = c1.el;
+      }
+      if (c2.type === Comment && !c2.el) {
+        c2.el = c1.el;
+      }
+    }
+  }
+}
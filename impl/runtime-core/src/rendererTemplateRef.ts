@@ -1,12 +1,128 @@
-import type { Ref } from "@chibivue/reactivity";
-import { ShapeFlags } from "@chibivue/shared";
-import type { VNode } from "./vnode";
-
-export function setRef(rawRef: Ref, vnode: VNode): void {
-  const { shapeFlag } = vnode;
-  if (shapeFlag & ShapeFlags.COMPONENT) {
-    rawRef.value = vnode.component?.setupState; // TODO: proxy
-  } else if (shapeFlag & ShapeFlags.ELEMENT) {
-    rawRef.value = vnode.el;
+import { isRef } from "@chibivue/reactivity";
+import { ShapeFlags, hasOwn, isArray, isFunction, isString } from "@chibivue/shared";
+import { isAsyncWrapper } from "./apiAsyncComponent";
+import { getExposeProxy } from "./component";
+import type { SuspenseBoundary } from "./components/Suspense";
+import { queueEffectWithSuspense } from "./components/Suspense";
+import { ErrorCodes, callWithErrorHandling } from "./errorHandling";
+import type { SchedulerJob } from "./scheduler";
+import type { VNode, VNodeNormalizedRef, VNodeNormalizedRefAtom } from "./vnode";
+import { warn } from "./warning";
+
+/**
+ * Function for handling a template ref
+ */
+export function setRef(
+  rawRef: VNodeNormalizedRef,
+  oldRawRef: VNodeNormalizedRef | null,
+  parentSuspense: SuspenseBoundary | null,
+  vnode: VNode,
+  isUnmount = false,
+): void {
+  if (isArray(rawRef)) {
+    rawRef.forEach((r, i) =>
+      setRef(
+        r,
+        oldRawRef && (isArray(oldRawRef) ? oldRawRef[i] : oldRawRef),
+        parentSuspense,
+        vnode,
+        isUnmount,
+      ),
+    );
+    return;
+  }
+
+  if (isAsyncWrapper(vnode) && !isUnmount) {
+    // when mounting async components, nothing needs to be done,
+    // because the template ref is forwarded to inner component
+    return;
+  }
+
+  const refValue =
+    vnode.shapeFlag & ShapeFlags.COMPONENT
+      ? getExposeProxy(vnode.component!) || vnode.component!.proxy
+      : vnode.el;
+  const value = isUnmount ? null : refValue;
+
+  const { i: owner, r: ref } = rawRef;
+  if (!owner) {
+    warn(`Missing ref owner context. ref cannot be used on hoisted vnodes.`);
+    return;
+  }
+  const oldRef = oldRawRef && (oldRawRef as VNodeNormalizedRefAtom).r;
+  const refs = owner.refs;
+  const setupState = owner.setupState;
+
+  // dynamic ref changed. unset old ref
+  if (oldRef != null && oldRef !== ref) {
+    if (isString(oldRef)) {
+      refs[oldRef] = null;
+      if (hasOwn(setupState, oldRef)) {
+        setupState[oldRef] = null;
+      }
+    } else if (isRef(oldRef)) {
+      oldRef.value = null;
+    }
+  }
+
+  if (isFunction(ref)) {
+    callWithErrorHandling(ref, owner, ErrorCodes.FUNCTION_REF, [value, refs]);
+  } else {
+    const _isString = isString(ref);
+    const _isRef = isRef(ref);
+    if (_isString || _isRef) {
+      const doSet = () => {
+        if (rawRef.f) {
+          // refs inside v-for are collected into an array
+          const existing = _isString
+            ? hasOwn(setupState, ref)
+              ? setupState[ref]
+              : refs[ref]
+            : ref.value;
+          if (isUnmount) {
+            if (isArray(existing)) {
+              const i = existing.indexOf(refValue);
+              if (i > -1) {
+                existing.splice(i, 1);
+              }
+            }
+          } else {
+            if (!isArray(existing)) {
+              if (_isString) {
+                refs[ref] = [refValue];
+                if (hasOwn(setupState, ref)) {
+                  setupState[ref] = refs[ref];
+                }
+              } else {
+                ref.value = [refValue];
+                if (rawRef.k) refs[rawRef.k] = ref.value;
+              }
+            } else if (!existing.includes(refValue)) {
+              existing.push(refValue);
+            }
+          }
+        } else if (_isString) {
+          refs[ref] = value;
+          if (hasOwn(setupState, ref)) {
+            setupState[ref] = value;
+          }
+        } else {
+          ref.value = value;
+          if (rawRef.k) refs[rawRef.k] = value;
+        }
+      };
+      if (value) {
+        // non-null values are set after render, ahead of other post-flush
+        // callbacks (id -1) so that mounted hooks can already read them.
+        // null values mean unmount and are set right away, so that they don't
+        // overwrite a newly mounted ref that shares the same key.
+        (doSet as SchedulerJob).id = -1;
+        queueEffectWithSuspense(doSet, parentSuspense);
+      } else {
+        doSet();
+      }
+    } else {
+      warn("Invalid template ref type:", ref, `(${typeof ref})`);
+    }
   }
 }
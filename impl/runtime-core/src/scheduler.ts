@@ -1,4 +1,5 @@
 import { isArray } from "@chibivue/shared";
+import { ErrorCodes, callWithErrorHandling } from "./errorHandling";
 
 export interface SchedulerJob extends Function {
   id?: number;
@@ -121,7 +122,7 @@ function flushJobs() {
     for (flushIndex = 0; flushIndex < queue.length; flushIndex++) {
       const job = queue[flushIndex];
       if (job && job.active !== false) {
-        job();
+        callWithErrorHandling(job, null, ErrorCodes.SCHEDULER);
       }
     }
   } finally {
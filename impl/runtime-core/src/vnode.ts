@@ -1,28 +1,36 @@
-import type { Ref } from "@chibivue/reactivity";
+import { type Ref, isRef } from "@chibivue/reactivity";
 import type { VaporComponent } from "@chibivue/runtime-vapor";
-import { ShapeFlags } from "@chibivue/shared";
+import { PatchFlags, ShapeFlags } from "@chibivue/shared";
 
 import {
   isArray,
   isFunction,
   isObject,
+  isOn,
   isString,
   normalizeClass,
   normalizeStyle,
 } from "@chibivue/shared";
 import { currentRenderingInstance } from "./componentRenderContext";
-import type { Component, ComponentInternalInstance, Data } from "./component";
+import type { Component, ComponentInternalInstance, ConcreteComponent, Data } from "./component";
+import { hmrDirtyComponents } from "./hmr";
 import type { ComponentPublicInstance } from "./componentPublicInstance";
 import type { AppContext } from "./apiCreateApp";
 import type { DirectiveBinding } from "./directives";
 import type { RawSlots } from "./componentSlots";
 import type { TeleportProps } from "./components/Teleport";
 import { isTeleport } from "./components/Teleport";
+import {
+  type SuspenseBoundary,
+  isSuspense,
+  normalizeSuspenseChildren,
+} from "./components/Suspense";
 
 export type VNodeTypes =
   | string
   | typeof Text
   | typeof Comment
+  | typeof Static
   | typeof Fragment
   | typeof TeleportSymbol
   | Component
@@ -30,6 +38,7 @@ export type VNodeTypes =
 
 export const Text: unique symbol = Symbol();
 export const Comment: unique symbol = Symbol();
+export const Static: unique symbol = Symbol();
 export const Fragment = Symbol() as any as {
   __isFragment: true;
   new (): {
@@ -48,11 +57,12 @@ export interface VNode<HostNode = any> {
   type: VNodeTypes;
   props: VNodeProps | null;
   key: string | number | symbol | null;
-  ref: Ref | null;
+  ref: VNodeNormalizedRef | null;
 
   // DOM
   el: HostNode | undefined;
   anchor: HostNode | null; // fragment anchor
+  staticCount: number; // number of elements contained in a static vnode
 
   children: VNodeNormalizedChildren;
   component: ComponentInternalInstance | null;
@@ -72,6 +82,11 @@ export interface VNode<HostNode = any> {
   target: HostNode | null;
   targetAnchor: HostNode | null;
 
+  // suspense
+  suspense: SuspenseBoundary | null;
+  ssContent: VNode | null;
+  ssFallback: VNode | null;
+
   // transition
   transition: any | null;
 }
@@ -80,6 +95,20 @@ export interface VNodeProps {
   [key: string]: any;
 }
 
+export type VNodeRef =
+  | string
+  | Ref
+  | ((ref: Element | ComponentPublicInstance | null, refs: Record<string, any>) => void);
+
+export type VNodeNormalizedRefAtom = {
+  i: ComponentInternalInstance; // owner: the instance whose template declared the ref
+  r: VNodeRef;
+  k?: string; // setup ref key
+  f?: boolean; // refInFor marker
+};
+
+export type VNodeNormalizedRef = VNodeNormalizedRefAtom | VNodeNormalizedRefAtom[];
+
 export type VNodeNormalizedChildren = string | VNodeArrayChildren | RawSlots;
 
 export type VNodeChild = VNodeChildAtom | VNodeArrayChildren;
@@ -96,25 +125,106 @@ export function isVNode(value: unknown): value is VNode {
 }
 
 export function isSameVNodeType(n1: VNode, n2: VNode): boolean {
+  if (n2.shapeFlag & ShapeFlags.COMPONENT && hmrDirtyComponents.has(n2.type as ConcreteComponent)) {
+    // the component definition was hot-reloaded, force a remount
+    return false;
+  }
   return n1.type === n2.type && n1.key === n2.key;
 }
 
+export const blockStack: VNode["dynamicChildren"][] = [];
+export let currentBlock: VNode["dynamicChildren"] = null;
+
+/**
+ * Open a block.
+ * This must be called before `createBlock`. It cannot be part of `createBlock`
+ * because the children of the block are evaluated before `createBlock` itself
+ * is called. The generated code typically looks like this:
+ *
+ * ```js
+ * function render() {
+ *   return (openBlock(), createBlock('div', null, [...]))
+ * }
+ * ```
+ *
+ * disableTracking is true when creating a v-for fragment block, since a v-for
+ * fragment always diffs its children.
+ */
+export function openBlock(disableTracking = false): void {
+  blockStack.push((currentBlock = disableTracking ? null : []));
+}
+
+export function closeBlock(): void {
+  blockStack.pop();
+  currentBlock = blockStack[blockStack.length - 1] || null;
+}
+
+// Whether we should be tracking dynamic child nodes inside a block.
+// Only tracks when this value is > 0.
+// We are not using a simple boolean because this value may need to be
+// incremented/decremented by nested usage (e.g. a compiled slot invoked from
+// inside another compiled slot).
+export let isBlockTreeEnabled = 1;
+
+/**
+ * Block tracking sometimes needs to be disabled, for example when a compiled
+ * slot function is invoked by hand (`slots.default()` in a render function):
+ * the vnodes it creates are not part of the block that happens to be open at
+ * that moment.
+ */
+export function setBlockTracking(value: number): void {
+  isBlockTreeEnabled += value;
+}
+
+function setupBlock(vnode: VNode): VNode {
+  // save current block children on the block vnode
+  vnode.dynamicChildren = isBlockTreeEnabled > 0 ? currentBlock || [] : null;
+  // close block
+  closeBlock();
+  // a block is always going to be patched, so track it as a child of its
+  // parent block
+  if (isBlockTreeEnabled > 0 && currentBlock) {
+    currentBlock.push(vnode);
+  }
+  return vnode;
+}
+
+/**
+ * Create a block root vnode. Takes the same arguments as `createVNode`.
+ * A block root keeps track of dynamic nodes so that it can skip normal diff
+ * traversal.
+ */
+export function createBlock(
+  type: VNodeTypes,
+  props?: VNodeProps | null,
+  children?: unknown,
+  patchFlag?: number,
+  dynamicProps?: string[] | null,
+): VNode {
+  return setupBlock(createVNode(type, props, children, patchFlag, dynamicProps, true));
+}
+
+export { createBlock as createElementBlock };
+
 export const createVNode = (
   type: VNodeTypes,
   props: VNodeProps | null = null,
   children: unknown = null,
   patchFlag: number = 0,
   dynamicProps: string[] | null = null,
+  isBlockNode: boolean = false,
 ): VNode => {
   const shapeFlag = isString(type)
     ? ShapeFlags.ELEMENT
-    : isTeleport(type)
-      ? ShapeFlags.TELEPORT
-      : isObject(type)
-        ? ShapeFlags.COMPONENT
-        : 0;
+    : isSuspense(type)
+      ? ShapeFlags.SUSPENSE
+      : isTeleport(type)
+        ? ShapeFlags.TELEPORT
+        : isObject(type)
+          ? ShapeFlags.COMPONENT
+          : 0;
 
-  return createBaseVNode(type, props, children, shapeFlag, patchFlag, dynamicProps);
+  return createBaseVNode(type, props, children, shapeFlag, patchFlag, dynamicProps, isBlockNode);
 };
 
 function createBaseVNode(
@@ -124,16 +234,18 @@ function createBaseVNode(
   shapeFlag: ShapeFlags | 0 = ShapeFlags.ELEMENT,
   patchFlag: number = 0,
   dynamicProps: string[] | null = null,
+  isBlockNode: boolean = false,
 ): VNode {
   const vnode = {
     __v_isVNode: true,
     type,
     props,
     key: props && props.key,
-    ref: props?.ref ?? null,
+    ref: props && normalizeRef(props),
     children,
     el: null,
     anchor: null,
+    staticCount: 0,
     ctx: currentRenderingInstance,
     shapeFlag,
     patchFlag,
@@ -144,22 +256,67 @@ function createBaseVNode(
     appContext: null,
     target: null,
     targetAnchor: null,
+    suspense: null,
+    ssContent: null,
+    ssFallback: null,
     transition: null,
   } as VNode;
 
   normalizeChildren(vnode, children);
 
+  // normalize suspense children
+  if (shapeFlag & ShapeFlags.SUSPENSE) {
+    normalizeSuspenseChildren(vnode);
+  }
+
   if (children) {
     vnode.shapeFlag |= isString(children) ? ShapeFlags.TEXT_CHILDREN : ShapeFlags.ARRAY_CHILDREN;
   }
 
+  // track vnode for block tree
+  if (
+    isBlockTreeEnabled > 0 &&
+    // avoid a block node from tracking itself
+    !isBlockNode &&
+    // has current parent block
+    currentBlock &&
+    // presence of a patch flag indicates this node needs patching on updates.
+    // component nodes also should always be patched, because even if the
+    // component doesn't need to update, it needs to persist the instance on to
+    // the next vnode so that it can be properly unmounted later.
+    (vnode.patchFlag > 0 || shapeFlag & ShapeFlags.COMPONENT) &&
+    // the NEED_HYDRATION flag is only for hydration and if it is the only flag,
+    // the vnode should not be considered dynamic.
+    vnode.patchFlag !== PatchFlags.NEED_HYDRATION
+  ) {
+    currentBlock.push(vnode);
+  }
+
   return vnode;
 }
 
 export { createVNode as createElementVNode };
 
-export function createCommentVNode(text: string = ""): VNode {
-  return createVNode(Comment, null, text);
+const normalizeRef = ({ ref, ref_key, ref_for }: VNodeProps): VNodeNormalizedRefAtom | null => {
+  if (typeof ref === "number") {
+    ref = "" + ref;
+  }
+  return ref != null
+    ? isString(ref) || isRef(ref) || isFunction(ref)
+      ? { i: currentRenderingInstance!, r: ref, k: ref_key, f: !!ref_for }
+      : ref
+    : null;
+};
+
+export function createCommentVNode(
+  text: string = "",
+  // when used as the v-if else branch, the comment node must be created as a
+  // block to ensure correct updates.
+  asBlock: boolean = false,
+): VNode {
+  return asBlock
+    ? (openBlock(), createBlock(Comment, null, text))
+    : createVNode(Comment, null, text);
 }
 
 export function normalizeChildren(vnode: VNode, children: unknown): void {
@@ -187,12 +344,23 @@ export function normalizeChildren(vnode: VNode, children: unknown): void {
   vnode.shapeFlag |= type;
 }
 
-export function createTextVNode(text: string = " "): VNode {
-  return createVNode(Text, null, text);
+export function createTextVNode(text: string = " ", flag: number = 0): VNode {
+  return createVNode(Text, null, text, flag);
+}
+
+export function createStaticVNode(content: string, numberOfNodes: number): VNode {
+  // A static vnode can contain multiple stringified elements, and the number
+  // of elements is necessary for hydration.
+  const vnode = createVNode(Static, null, content);
+  vnode.staticCount = numberOfNodes;
+  return vnode;
 }
 
 export function normalizeVNode(child: VNodeChild): VNode {
-  if (typeof child === "object") {
+  if (child == null || typeof child === "boolean") {
+    // empty placeholder
+    return createVNode(Comment);
+  } else if (typeof child === "object") {
     return cloneIfMounted(child as VNode);
   } else {
     return createVNode(Text, null, String(child));
@@ -200,30 +368,51 @@ export function normalizeVNode(child: VNodeChild): VNode {
 }
 
 export function cloneIfMounted(child: VNode): VNode {
-  return child.el === null ? child : cloneVNode(child);
+  // hoisted vnodes are shared by every render, so they are always cloned
+  return child.el === null && child.patchFlag !== PatchFlags.CACHED ? child : cloneVNode(child);
 }
 
-export function cloneVNode<T>(vnode: VNode<T>): VNode<T> {
-  const { props, children } = vnode;
+export function cloneVNode<T>(
+  vnode: VNode<T>,
+  extraProps: (Data & VNodeProps) | null = null,
+): VNode<T> {
+  const { props, children, patchFlag } = vnode;
+  const mergedProps = extraProps ? mergeProps(props || {}, extraProps) : props;
   const cloned: VNode<T> = {
     __v_isVNode: true,
     type: vnode.type,
-    props,
+    props: mergedProps,
     key: vnode.key,
     ref: vnode.ref,
-    children: isArray(children) ? (children as VNode[]).map(cloneVNode) : children,
+    // children of a vnode that was never mounted are not shared with any
+    // rendered tree, and keeping them lets `dynamicChildren` still point at them
+    children:
+      isArray(children) && (vnode.el !== null || patchFlag === PatchFlags.CACHED)
+        ? (children as VNode[]).map((c) => cloneVNode(c))
+        : children,
     component: vnode.component,
     dirs: vnode.dirs,
     shapeFlag: vnode.shapeFlag,
-    patchFlag: vnode.patchFlag,
+    // if the vnode is cloned with extra props, we can no longer assume its
+    // existing patch flag to be reliable and need to add the FULL_PROPS flag.
+    patchFlag:
+      extraProps && vnode.type !== Fragment
+        ? patchFlag === PatchFlags.CACHED
+          ? PatchFlags.FULL_PROPS
+          : patchFlag | PatchFlags.FULL_PROPS
+        : patchFlag,
     dynamicProps: vnode.dynamicProps,
     dynamicChildren: vnode.dynamicChildren,
     el: vnode.el,
     anchor: vnode.anchor,
+    staticCount: vnode.staticCount,
     ctx: vnode.ctx,
     appContext: vnode.appContext,
     target: vnode.target,
     targetAnchor: vnode.targetAnchor,
+    suspense: vnode.suspense,
+    ssContent: vnode.ssContent && cloneVNode(vnode.ssContent),
+    ssFallback: vnode.ssFallback && cloneVNode(vnode.ssFallback),
     transition: vnode.transition,
   };
   return cloned;
@@ -240,10 +429,19 @@ export function mergeProps(...args: (Data & VNodeProps)[]): Data {
         }
       } else if (key === "style") {
         ret.style = normalizeStyle([ret.style, toMerge.style]);
+      } else if (isOn(key)) {
+        // listeners for the same event are merged into an array
+        const existing = ret[key];
+        const incoming = toMerge[key];
+        if (
+          incoming &&
+          existing !== incoming &&
+          !(isArray(existing) && existing.includes(incoming))
+        ) {
+          ret[key] = existing ? ([] as unknown[]).concat(existing, incoming) : incoming;
+        }
       } else if (key !== "") {
         ret[key] = toMerge[key];
-      } /*if (isOn(key))*/ else {
-        // TODO: v-on="object"
       }
     }
   }
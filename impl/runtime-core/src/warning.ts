@@ -0,0 +1,32 @@
+import { type ComponentInternalInstance, currentInstance } from "./component";
+import type { ComponentOptions } from "./componentOptions";
+import { currentRenderingInstance } from "./componentRenderContext";
+import { ErrorCodes, callWithErrorHandling } from "./errorHandling";
+
+export function warn(msg: string, ...args: any[]): void {
+  const instance = (currentRenderingInstance ||
+    currentInstance) as ComponentInternalInstance | null;
+  const appWarnHandler = instance && instance.appContext.config.warnHandler;
+  const trace = getComponentTrace(instance);
+
+  if (appWarnHandler) {
+    callWithErrorHandling(appWarnHandler, instance, ErrorCodes.APP_WARN_HANDLER, [
+      msg + args.map((a) => String(a)).join(""),
+      instance && instance.proxy,
+      trace,
+    ]);
+  } else {
+    console.warn(`[Vue warn]: ${msg}`, ...args, trace ? `\n${trace}` : "");
+  }
+}
+
+function getComponentTrace(instance: ComponentInternalInstance | null): string {
+  const lines: string[] = [];
+  let cur = instance;
+  while (cur) {
+    const name = (cur.type as ComponentOptions).name || "Anonymous";
+    lines.push(`at <${name}>`);
+    cur = cur.parent as ComponentInternalInstance | null;
+  }
+  return lines.join("\n");
+}
@@ -1,4 +1,6 @@
-import type { VNode } from "@chibivue/runtime-core";
+import { type DirectiveBinding, type VNode, onMounted, toRaw } from "@chibivue/runtime-core";
+
+import { vShow } from "../directives/vShow";
 
 export interface TransitionProps {
   name?: string;
@@ -32,6 +34,11 @@ export interface TransitionProps {
 
 export interface TransitionHooks<HostElement = Element> {
   mode: string;
+  /**
+   * the element is shown and hidden by `v-show`, which calls the hooks itself,
+   * instead of being mounted and removed
+   */
+  persisted: boolean;
   beforeEnter(el: HostElement): void;
   enter(el: HostElement, done: () => void): void;
   leave(el: HostElement, remove: () => void): void;
@@ -43,6 +50,11 @@ const ANIMATION = "animation";
 
 export interface ElementWithTransition extends HTMLElement {
   _vtc?: Set<string>;
+  /**
+   * finishes the running enter transition, or cancels it when a leave starts
+   * before it has ended
+   */
+  _enterCb?: (cancelled?: boolean) => void;
 }
 
 export function resolveTransitionProps(
@@ -102,10 +114,23 @@ export function resolveTransitionProps(
     return (el: Element, done: () => void) => {
       const _el = el as Element & ElementWithTransition;
       const hook = isAppear ? onAppear : onEnter;
-      const resolve = () => finishEnter(_el, isAppear, done);
-      callHook(hook, [el, resolve]);
+      const resolve = (_el._enterCb = (cancelled?: boolean) => {
+        // already finished, or replaced by a later enter
+        if (_el._enterCb !== resolve) return;
+        _el._enterCb = undefined;
+        if (cancelled) {
+          removeTransitionClass(_el, isAppear ? appearFromClass : enterFromClass);
+        }
+        finishEnter(_el, isAppear, done);
+        if (cancelled) {
+          callHook(isAppear ? onAppearCancelled : onEnterCancelled, [el]);
+        }
+      });
+      callHook(hook, [el, () => resolve()]);
       nextFrame(() => {
         removeTransitionClass(_el, isAppear ? appearFromClass : enterFromClass);
+        // the enter has been finished or cancelled in the meantime
+        if (_el._enterCb !== resolve) return;
         addTransitionClass(_el, isAppear ? appearToClass : enterToClass);
         if (!hasExplicitCallback(hook)) {
           whenTransitionEnds(_el, type, enterDuration, resolve);
@@ -117,6 +142,7 @@ export function resolveTransitionProps(
   return {
     ...rawProps,
     mode,
+    persisted: false,
     beforeEnter(el) {
       const _el = el as Element & ElementWithTransition;
       callHook(onBeforeEnter, [el]);
@@ -126,6 +152,10 @@ export function resolveTransitionProps(
     enter: makeEnterHook(false),
     leave(el, done) {
       const _el = el as Element & ElementWithTransition;
+      // the element leaves before it has finished entering
+      if (_el._enterCb) {
+        _el._enterCb(true);
+      }
       const resolve = () => finishLeave(_el, done);
       addTransitionClass(_el, leaveFromClass);
       // force reflow
@@ -330,6 +360,7 @@ export const TransitionPropsValidators: Record<string, any> = {
     default: true,
   },
   duration: [String, Number, Object],
+  appear: Boolean,
   enterFromClass: String,
   enterActiveClass: String,
   enterToClass: String,
@@ -341,23 +372,46 @@ export const TransitionPropsValidators: Record<string, any> = {
   leaveToClass: String,
 };
 
-const Transition = (props: TransitionProps, { slots }: { slots: any }): VNode | null => {
-  const innerProps = resolveTransitionProps(props);
-  const children = slots.default && slots.default();
-
-  if (!children || children.length === 0) {
-    return null;
-  }
-
-  const child = children[0];
-  if (child) {
-    child.transition = innerProps;
-  }
+// a stateful component: the renderer mounts function components as vapor
+// components
+const TransitionImpl = {
+  name: "Transition",
+  props: TransitionPropsValidators,
+  setup(props: TransitionProps, { slots }: { slots: any }) {
+    let isMounted = false;
+
+    onMounted(() => {
+      isMounted = true;
+    });
+
+    return (): VNode | null => {
+      const rawProps = toRaw(props);
+      const innerProps = resolveTransitionProps(rawProps);
+      const children = slots.default && slots.default();
+
+      if (!children || children.length === 0) {
+        return null;
+      }
+
+      const child = children[0];
+      if (child) {
+        innerProps.persisted =
+          !!child.dirs && child.dirs.some((d: DirectiveBinding) => d.dir === vShow);
+        // the child of the first render only enters with `appear`, but it
+        // still leaves when it is removed
+        if (!isMounted && !rawProps.appear) {
+          innerProps.beforeEnter = innerProps.enter = () => {};
+        }
+        child.transition = innerProps;
+      }
 
-  return child;
+      return child;
+    };
+  },
 };
 
-(Transition as any).displayName = "Transition";
-(Transition as any).props = TransitionPropsValidators;
-
-export { Transition };
+export const Transition = TransitionImpl as any as {
+  new (): {
+    $props: TransitionProps;
+  };
+};
@@ -0,0 +1,206 @@
+import {
+  Comment,
+  type ComponentInternalInstance,
+  Fragment,
+  type VNode,
+  createVNode,
+  getCurrentInstance,
+  onMounted,
+  onUpdated,
+  toRaw,
+  warn,
+} from "@chibivue/runtime-core";
+
+import {
+  type ElementWithTransition,
+  type TransitionHooks,
+  type TransitionProps,
+  TransitionPropsValidators,
+  addTransitionClass,
+  forceReflow,
+  getTransitionInfo,
+  removeTransitionClass,
+  resolveTransitionProps,
+} from "./Transition";
+
+export type TransitionGroupProps = Omit<TransitionProps, "mode"> & {
+  tag?: string;
+  moveClass?: string;
+};
+
+interface ElementWithMove extends ElementWithTransition {
+  _moveCb?: (e?: TransitionEvent) => void;
+}
+
+const positionMap = new WeakMap<VNode, DOMRect>();
+const newPositionMap = new WeakMap<VNode, DOMRect>();
+
+const TransitionGroupImpl = {
+  name: "TransitionGroup",
+
+  props: {
+    ...TransitionPropsValidators,
+    tag: String,
+    moveClass: String,
+  },
+
+  setup(props: TransitionGroupProps, { slots }: { slots: any }) {
+    const instance = getCurrentInstance()! as ComponentInternalInstance;
+    let isMounted = false;
+    let prevChildren: VNode[];
+    let children: VNode[];
+
+    onMounted(() => {
+      isMounted = true;
+    });
+
+    // FLIP: the children are in their new position now. every child that
+    // moved is translated back to where it was and then transitioned to its
+    // new position by removing the transform again.
+    onUpdated(() => {
+      // children is guaranteed to exist after initial render
+      if (!prevChildren.length) {
+        return;
+      }
+      const moveClass = props.moveClass || `${props.name || "v"}-move`;
+
+      if (!hasCSSTransform(prevChildren[0].el as ElementWithMove, instance.vnode.el!, moveClass)) {
+        return;
+      }
+
+      // the work is divided into three loops to avoid mixing DOM reads and
+      // writes, which would force a layout in every iteration
+      prevChildren.forEach(callPendingCbs);
+      prevChildren.forEach(recordPosition);
+      const movedChildren = prevChildren.filter(applyTranslation);
+
+      // force reflow to put everything in position
+      forceReflow();
+
+      movedChildren.forEach((c) => {
+        const el = c.el as ElementWithMove;
+        const style = el.style;
+        addTransitionClass(el, moveClass);
+        style.transform = style.transitionDuration = "";
+        const cb = (el._moveCb = (e?: TransitionEvent) => {
+          if (e && e.target !== el) {
+            return;
+          }
+          if (!e || e.propertyName.endsWith("transform")) {
+            el.removeEventListener("transitionend", cb);
+            el._moveCb = undefined;
+            removeTransitionClass(el, moveClass);
+          }
+        });
+        el.addEventListener("transitionend", cb);
+      });
+    });
+
+    return () => {
+      const rawProps = toRaw(props);
+      const hooks = resolveTransitionProps(rawProps);
+      const tag = rawProps.tag || Fragment;
+
+      // the children of the last render are about to be patched. they get the
+      // current hooks, so that removed children leave with the current props,
+      // and their position is recorded for the move transition.
+      prevChildren = [];
+      if (children) {
+        for (let i = 0; i < children.length; i++) {
+          const child = children[i];
+          if (child.el && child.el instanceof Element) {
+            prevChildren.push(child);
+            child.transition = hooks;
+            positionMap.set(child, child.el.getBoundingClientRect());
+          }
+        }
+      }
+
+      children = slots.default ? getTransitionRawChildren(slots.default()) : [];
+
+      // the children of the first render only enter with `appear`
+      const enterHooks: TransitionHooks | null = isMounted || rawProps.appear ? hooks : null;
+      for (let i = 0; i < children.length; i++) {
+        const child = children[i];
+        if (child.key != null) {
+          child.transition = enterHooks;
+        } else {
+          warn(`<TransitionGroup> children must be keyed.`);
+        }
+      }
+
+      return createVNode(tag, null, children);
+    };
+  },
+};
+
+/**
+ * `<TransitionGroup>` renders a list of elements and animates them when they
+ * are inserted, removed, or moved. Every child must be keyed.
+ */
+export const TransitionGroup = TransitionGroupImpl as any as {
+  new (): {
+    $props: TransitionGroupProps;
+  };
+};
+
+// fragments of `v-for` and `<template>` are flattened, comments (`v-if`) are
+// dropped
+function getTransitionRawChildren(children: VNode[]): VNode[] {
+  let ret: VNode[] = [];
+  for (let i = 0; i < children.length; i++) {
+    const child = children[i];
+    if (child.type === Fragment) {
+      ret = ret.concat(getTransitionRawChildren(child.children as VNode[]));
+    } else if (child.type !== Comment) {
+      ret.push(child);
+    }
+  }
+  return ret;
+}
+
+function callPendingCbs(c: VNode) {
+  const el = c.el as ElementWithMove;
+  if (el._moveCb) {
+    el._moveCb();
+  }
+  // a child that is still entering is measured at its final position
+  if (el._enterCb) {
+    el._enterCb();
+  }
+}
+
+function recordPosition(c: VNode) {
+  newPositionMap.set(c, (c.el as Element).getBoundingClientRect());
+}
+
+function applyTranslation(c: VNode): VNode | undefined {
+  const oldPos = positionMap.get(c)!;
+  const newPos = newPositionMap.get(c)!;
+  const dx = oldPos.left - newPos.left;
+  const dy = oldPos.top - newPos.top;
+  if (dx || dy) {
+    const s = (c.el as HTMLElement).style;
+    s.transform = `translate(${dx}px,${dy}px)`;
+    s.transitionDuration = "0s";
+    return c;
+  }
+}
+
+// whether the move class applies a transition on `transform`. it is checked on
+// a hidden clone without the transition classes the element currently has.
+function hasCSSTransform(el: ElementWithTransition, root: Node, moveClass: string): boolean {
+  const clone = el.cloneNode() as HTMLElement;
+  if (el._vtc) {
+    el._vtc.forEach((cls) => {
+      cls.split(/\s+/).forEach((c) => c && clone.classList.remove(c));
+    });
+  }
+  moveClass.split(/\s+/).forEach((c) => c && clone.classList.add(c));
+  clone.style.display = "none";
+  const container = (root.nodeType === 1 ? root : root.parentNode) as HTMLElement;
+  container.appendChild(clone);
+  const { hasTransform } = getTransitionInfo(clone);
+  container.removeChild(clone);
+  return hasTransform;
+}
@@ -1,38 +1,266 @@
-import type {
-  DirectiveBinding,
-  DirectiveHook,
-  ObjectDirective,
-  VNode,
+import {
+  type DirectiveBinding,
+  type DirectiveHook,
+  type ObjectDirective,
+  type VNode,
+  nextTick,
+  warn,
 } from "@chibivue/runtime-core";
+import {
+  invokeArrayFns,
+  isArray,
+  isSet,
+  looseEqual,
+  looseIndexOf,
+  looseToNumber,
+} from "@chibivue/shared";
 import { addEventListener } from "../modules/events";
 
 type AssignerFn = (value: any) => void;
 const getModelAssigner = (vnode: VNode): AssignerFn => {
-  return vnode.props!["onUpdate:modelValue"];
+  const fn = vnode.props!["onUpdate:modelValue"];
+  return isArray(fn) ? (value) => invokeArrayFns(fn, value) : fn;
 };
 
-type ModelDirective<T> = ObjectDirective<T & { _assign: AssignerFn }>;
+// the input event is held back while an IME is composing text
+function onCompositionStart(e: Event) {
+  (e.target as any).composing = true;
+}
+
+function onCompositionEnd(e: Event) {
+  const target = e.target as any;
+  if (target.composing) {
+    target.composing = false;
+    target.dispatchEvent(new Event("input"));
+  }
+}
+
+type ModelDirective<T> = ObjectDirective<T & { _assign: AssignerFn; _assigning?: boolean }>;
 
 export const vModelText: ModelDirective<HTMLInputElement | HTMLTextAreaElement> = {
-  created(el, _, vnode) {
+  created(el, { modifiers: { lazy, trim, number } }, vnode) {
     el._assign = getModelAssigner(vnode);
-    addEventListener(el, "input", (e) => {
-      el._assign(el.value);
+    const castToNumber = number || (vnode.props && vnode.props.type === "number");
+    addEventListener(el, lazy ? "change" : "input", (e) => {
+      if ((e.target as any).composing) return;
+      let domValue: string | number = el.value;
+      if (trim) {
+        domValue = domValue.trim();
+      }
+      if (castToNumber) {
+        domValue = looseToNumber(domValue);
+      }
+      el._assign(domValue);
     });
+    if (trim) {
+      addEventListener(el, "change", () => {
+        el.value = el.value.trim();
+      });
+    }
+    if (!lazy) {
+      addEventListener(el, "compositionstart", onCompositionStart);
+      addEventListener(el, "compositionend", onCompositionEnd);
+      // Safari < 10.2 & UIWebView doesn't fire compositionend when
+      // switching focus before confirming composition choice
+      // this also fixes the issue where some browsers e.g. iOS Chrome
+      // fires "change" instead of "input" on autocomplete.
+      addEventListener(el, "change", onCompositionEnd);
+    }
   },
+  // set value on mounted so it's after min/max for type="range"
   mounted(el, { value }) {
     el.value = value == null ? "" : value;
   },
-  beforeUpdate(el, { value }, vnode) {
+  beforeUpdate(el, { value, oldValue, modifiers: { lazy, trim, number } }, vnode) {
     el._assign = getModelAssigner(vnode);
+    // avoid clearing unresolved text. #2302
+    if ((el as any).composing) return;
+    const elValue =
+      (number || el.type === "number") && !/^0\d/.test(el.value)
+        ? looseToNumber(el.value)
+        : el.value;
     const newValue = value == null ? "" : value;
-    if (el.value !== newValue) {
-      el.value = newValue;
+    if (elValue === newValue) {
+      return;
     }
+    // keep what the user is typing when the model was not changed from outside
+    if (document.activeElement === el && el.type !== "range") {
+      if (lazy && value === oldValue) {
+        return;
+      }
+      if (trim && el.value.trim() === newValue) {
+        return;
+      }
+    }
+    el.value = newValue;
+  },
+};
+
+export const vModelCheckbox: ModelDirective<HTMLInputElement> = {
+  deep: true,
+  created(el, _, vnode) {
+    el._assign = getModelAssigner(vnode);
+    addEventListener(el, "change", () => {
+      const modelValue = (el as any)._modelValue;
+      const elementValue = getValue(el);
+      const checked = el.checked;
+      const assign = el._assign;
+      if (isArray(modelValue)) {
+        const index = looseIndexOf(modelValue, elementValue);
+        const found = index !== -1;
+        if (checked && !found) {
+          assign(modelValue.concat(elementValue));
+        } else if (!checked && found) {
+          const filtered = [...modelValue];
+          filtered.splice(index, 1);
+          assign(filtered);
+        }
+      } else if (isSet(modelValue)) {
+        const cloned = new Set(modelValue);
+        if (checked) {
+          cloned.add(elementValue);
+        } else {
+          cloned.delete(elementValue);
+        }
+        assign(cloned);
+      } else {
+        assign(getCheckboxValue(el, checked));
+      }
+    });
+  },
+  // set initial checked on mount to wait for true-value/false-value
+  mounted: setChecked,
+  beforeUpdate(el, binding, vnode) {
+    el._assign = getModelAssigner(vnode);
+    setChecked(el, binding, vnode);
   },
 };
 
-export const vModelDynamic: ObjectDirective<HTMLInputElement | HTMLTextAreaElement> = {
+function setChecked(
+  el: HTMLInputElement,
+  { value, oldValue }: DirectiveBinding,
+  vnode: VNode,
+): void {
+  // store the v-model value on the element so it can be accessed by the
+  // change listener.
+  (el as any)._modelValue = value;
+  let checked: boolean;
+  if (isArray(value)) {
+    checked = looseIndexOf(value, vnode.props!.value) > -1;
+  } else if (isSet(value)) {
+    checked = value.has(vnode.props!.value);
+  } else {
+    if (value === oldValue) return;
+    checked = looseEqual(value, getCheckboxValue(el, true));
+  }
+  if (el.checked !== checked) {
+    el.checked = checked;
+  }
+}
+
+export const vModelRadio: ModelDirective<HTMLInputElement> = {
+  created(el, { value }, vnode) {
+    el.checked = looseEqual(value, vnode.props!.value);
+    el._assign = getModelAssigner(vnode);
+    addEventListener(el, "change", () => {
+      el._assign(getValue(el));
+    });
+  },
+  beforeUpdate(el, { value, oldValue }, vnode) {
+    el._assign = getModelAssigner(vnode);
+    if (value !== oldValue) {
+      el.checked = looseEqual(value, vnode.props!.value);
+    }
+  },
+};
+
+export const vModelSelect: ModelDirective<HTMLSelectElement> = {
+  // <select multiple> value need to be deep traversed
+  deep: true,
+  created(el, { value, modifiers: { number } }, vnode) {
+    const isSetModel = isSet(value);
+    addEventListener(el, "change", () => {
+      const selectedVal = Array.prototype.filter
+        .call(el.options, (o: HTMLOptionElement) => o.selected)
+        .map((o: HTMLOptionElement) => (number ? looseToNumber(getValue(o)) : getValue(o)));
+      el._assign(el.multiple ? (isSetModel ? new Set(selectedVal) : selectedVal) : selectedVal[0]);
+      // the model is updated from the DOM, so the DOM must not be updated from
+      // the model until the re-render has happened
+      el._assigning = true;
+      nextTick(() => {
+        el._assigning = false;
+      });
+    });
+    el._assign = getModelAssigner(vnode);
+  },
+  // set value in mounted & updated because <select> relies on its children
+  // <option>s.
+  mounted(el, { value }) {
+    setSelected(el, value);
+  },
+  beforeUpdate(el, _binding, vnode) {
+    el._assign = getModelAssigner(vnode);
+  },
+  updated(el, { value }) {
+    if (!el._assigning) {
+      setSelected(el, value);
+    }
+  },
+};
+
+function setSelected(el: HTMLSelectElement, value: any) {
+  const isMultiple = el.multiple;
+  const isArrayValue = isArray(value);
+  if (isMultiple && !isArrayValue && !isSet(value)) {
+    warn(
+      `<select multiple v-model> expects an Array or Set value for its binding, ` +
+        `but got ${Object.prototype.toString.call(value).slice(8, -1)}.`,
+    );
+    return;
+  }
+
+  for (let i = 0, l = el.options.length; i < l; i++) {
+    const option = el.options[i];
+    const optionValue = getValue(option);
+    if (isMultiple) {
+      if (isArrayValue) {
+        const optionType = typeof optionValue;
+        // fast path for string / number values
+        if (optionType === "string" || optionType === "number") {
+          option.selected = value.some((v: unknown) => String(v) === String(optionValue));
+        } else {
+          option.selected = looseIndexOf(value, optionValue) > -1;
+        }
+      } else {
+        option.selected = value.has(optionValue);
+      }
+    } else if (looseEqual(getValue(option), value)) {
+      if (el.selectedIndex !== i) el.selectedIndex = i;
+      return;
+    }
+  }
+  if (!isMultiple && el.selectedIndex !== -1) {
+    el.selectedIndex = -1;
+  }
+}
+
+// retrieve raw value set via :value bindings
+function getValue(el: HTMLOptionElement | HTMLInputElement) {
+  return "_value" in el ? (el as any)._value : el.value;
+}
+
+// retrieve raw value for true-value and false-value set via :true-value or :false-value bindings
+function getCheckboxValue(
+  el: HTMLInputElement & { _trueValue?: any; _falseValue?: any },
+  checked: boolean,
+) {
+  const key = checked ? "_trueValue" : "_falseValue";
+  return key in el ? el[key] : checked;
+}
+
+export const vModelDynamic: ObjectDirective<
+  HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement
+> = {
   created(el, binding, vnode) {
     callModelHook(el, binding, vnode, null, "created");
   },
@@ -47,11 +275,18 @@ export const vModelDynamic: ObjectDirective<HTMLInputElement | HTMLTextAreaEleme
   },
 };
 
-// TODO: impl checkbox, radio, select
-function resolveDynamicModel(tagName: string, type: string | undefined) {
+function resolveDynamicModel(tagName: string, type: string | undefined): ObjectDirective {
   switch (tagName) {
+    case "SELECT":
+      return vModelSelect;
+    case "TEXTAREA":
+      return vModelText;
     default:
       switch (type) {
+        case "checkbox":
+          return vModelCheckbox;
+        case "radio":
+          return vModelRadio;
         default:
           return vModelText;
       }
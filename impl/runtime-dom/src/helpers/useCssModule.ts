@@ -0,0 +1,25 @@
+import { type ComponentInternalInstance, getCurrentInstance, warn } from "@chibivue/runtime-core";
+
+/**
+ * Returns the class name map of a `<style module>` block of the current
+ * component. `name` is the value of the `module` attribute (`$style` when
+ * the attribute has no value).
+ */
+export function useCssModule(name = "$style"): Record<string, string> {
+  const instance = getCurrentInstance() as ComponentInternalInstance | null;
+  if (!instance) {
+    warn(`useCssModule must be called inside setup()`);
+    return {};
+  }
+  const modules = instance.type.__cssModules;
+  if (!modules) {
+    warn(`Current instance does not have CSS modules injected.`);
+    return {};
+  }
+  const mod = modules[name] as Record<string, string> | undefined;
+  if (!mod) {
+    warn(`Current instance does not have CSS module named "${name}".`);
+    return {};
+  }
+  return mod;
+}
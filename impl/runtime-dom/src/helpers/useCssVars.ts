@@ -0,0 +1,68 @@
+import {
+  type ComponentInternalInstance,
+  Fragment,
+  Static,
+  type VNode,
+  getCurrentInstance,
+  onMounted,
+  onUnmounted,
+  onUpdated,
+  warn,
+  watch,
+} from "@chibivue/runtime-core";
+import { ShapeFlags } from "@chibivue/shared";
+
+/**
+ * Runtime helper for SFC's CSS variable injection feature (`v-bind()` in
+ * `<style>`). The compiler passes a getter returning the variables, which are
+ * set as CSS custom properties on the root element(s) of the component and
+ * kept up to date.
+ */
+export function useCssVars(getter: (ctx: any) => Record<string, string>): void {
+  const instance = getCurrentInstance() as ComponentInternalInstance | null;
+  if (!instance) {
+    warn(`useCssVars is called without current active component instance.`);
+    return;
+  }
+
+  const setVars = (vars = getter(instance.proxy)) => setVarsOnVNode(instance.subTree, vars);
+
+  // the getter may reference `<script setup>` bindings that are declared after
+  // the call, so it must not run before the component is mounted
+  let stop: (() => void) | undefined;
+  onMounted(() => {
+    stop = watch(() => getter(instance.proxy), setVars, { immediate: true });
+  });
+  // re-rendering may have created new root elements
+  onUpdated(() => setVars());
+  onUnmounted(() => stop && stop());
+}
+
+function setVarsOnVNode(vnode: VNode, vars: Record<string, string>) {
+  if (vnode.shapeFlag & ShapeFlags.COMPONENT) {
+    setVarsOnVNode(vnode.component!.subTree, vars);
+    return;
+  }
+
+  if (vnode.shapeFlag & ShapeFlags.ELEMENT && vnode.el) {
+    setVarsOnNode(vnode.el as Node, vars);
+  } else if (vnode.type === Fragment) {
+    (vnode.children as VNode[]).forEach((c) => setVarsOnVNode(c, vars));
+  } else if (vnode.type === Static) {
+    let { el, anchor } = vnode;
+    while (el) {
+      setVarsOnNode(el as Node, vars);
+      if (el === anchor) break;
+      el = (el as Node).nextSibling;
+    }
+  }
+}
+
+function setVarsOnNode(el: Node, vars: Record<string, string>) {
+  if (el.nodeType === 1) {
+    const style = (el as HTMLElement).style;
+    for (const key in vars) {
+      style.setProperty(`--${key}`, vars[key]);
+    }
+  }
+}
@@ -1,5 +1,11 @@
-import type { CreateAppFunction, RootRenderFunction } from "@chibivue/runtime-core";
-import { createRenderer } from "@chibivue/runtime-core";
+import type {
+  CreateAppFunction,
+  ElementNamespace,
+  HydrationRenderer,
+  RootHydrateFunction,
+  RootRenderFunction,
+} from "@chibivue/runtime-core";
+import { createHydrationRenderer, createRenderer } from "@chibivue/runtime-core";
 import { isString } from "@chibivue/shared";
 
 import { nodeOps } from "./nodeOps";
@@ -7,21 +13,57 @@ import { patchProp } from "./patchProp";
 
 const renderer = createRenderer({ ...nodeOps, patchProp });
 
+// lazy create the hydration renderer so that it can be tree-shaken in apps
+// that don't use SSR
+let hydrationRenderer: HydrationRenderer | null = null;
+
+function ensureHydrationRenderer() {
+  return (
+    hydrationRenderer || (hydrationRenderer = createHydrationRenderer({ ...nodeOps, patchProp }))
+  );
+}
+
 export const render = ((...args) => {
   renderer.render(...args);
 }) as RootRenderFunction<Element>;
 
+export const hydrate = ((...args) => {
+  ensureHydrationRenderer().hydrate(...args);
+}) as RootHydrateFunction;
+
 export const createApp = ((...args) => {
   const app = renderer.createApp(...args);
   const { mount } = app;
   app.mount = (containerOrSelector: Element | string): any => {
     const container = normalizeContainer(containerOrSelector);
     if (!container) return;
-    mount(container);
+    mount(container, false, resolveRootNamespace(container));
+  };
+  return app;
+}) as CreateAppFunction<Element>;
+
+export const createSSRApp = ((...args) => {
+  const app = ensureHydrationRenderer().createApp(...args);
+  const { mount } = app;
+  app.mount = (containerOrSelector: Element | string): any => {
+    const container = normalizeContainer(containerOrSelector);
+    if (!container) return;
+    mount(container, true /* isHydrate */);
   };
   return app;
 }) as CreateAppFunction<Element>;
 
+// an app mounted into an <svg> or <math> element renders its root in that
+// namespace
+function resolveRootNamespace(container: Element): ElementNamespace {
+  if (container instanceof SVGElement) {
+    return "svg";
+  }
+  if (typeof MathMLElement === "function" && container instanceof MathMLElement) {
+    return "mathml";
+  }
+}
+
 function normalizeContainer(container: Element | string): Element | null {
   if (isString(container)) {
     const res = document.querySelector(container);
@@ -31,7 +73,13 @@ function normalizeContainer(container: Element | string): Element | null {
   }
 }
 
-export { vModelText, vModelDynamic } from "./directives/vModel";
+export {
+  vModelText,
+  vModelCheckbox,
+  vModelRadio,
+  vModelSelect,
+  vModelDynamic,
+} from "./directives/vModel";
 
 // re-export everything from core
 // h, Component, reactivity API, nextTick, flags & types
@@ -44,3 +92,6 @@ export * from "./runtimeHelpers";
 export * from "./nodeOps";
 export * from "./patchProp";
 export * from "./components/Transition";
+export * from "./components/TransitionGroup";
+export { useCssModule } from "./helpers/useCssModule";
+export { useCssVars } from "./helpers/useCssVars";
@@ -1,7 +1,24 @@
-export function patchAttr(el: Element, key: string, value: any): void {
-  if (value == null) {
+import { includeBooleanAttr, isSpecialBooleanAttr, isSymbol } from "@chibivue/shared";
+
+export const xlinkNS = "http://www.w3.org/1999/xlink";
+
+export function patchAttr(
+  el: Element,
+  key: string,
+  value: any,
+  isSVG: boolean,
+  isBoolean: boolean = isSpecialBooleanAttr(key),
+): void {
+  if (isSVG && key.startsWith("xlink:")) {
+    if (value == null) {
+      el.removeAttributeNS(xlinkNS, key.slice(6, key.length));
+    } else {
+      el.setAttributeNS(xlinkNS, key, value);
+    }
+  } else if (value == null || (isBoolean && !includeBooleanAttr(value))) {
+    // a boolean attribute is only present when it is truthy or ''
     el.removeAttribute(key);
   } else {
-    el.setAttribute(key, value);
+    el.setAttribute(key, isBoolean ? "" : isSymbol(value) ? String(value) : value);
   }
 }
@@ -0,0 +1,18 @@
+import type { ElementWithTransition } from "../components/Transition";
+
+export function patchClass(el: Element, value: string | null, isSVG: boolean): void {
+  // the classes added by an ongoing transition are not part of the vnode, so
+  // keep them when the class binding changes
+  const transitionClasses = (el as ElementWithTransition)._vtc;
+  if (transitionClasses) {
+    value = (value ? [value, ...transitionClasses] : [...transitionClasses]).join(" ");
+  }
+  if (value == null) {
+    el.removeAttribute("class");
+  } else if (isSVG) {
+    // `className` of an SVG element is an SVGAnimatedString
+    el.setAttribute("class", value);
+  } else {
+    el.className = value;
+  }
+}
@@ -1,21 +1,41 @@
+import {
+  type ComponentInternalInstance,
+  ErrorCodes,
+  callWithAsyncErrorHandling,
+} from "@chibivue/runtime-core";
+import { isArray } from "@chibivue/shared";
+
 interface Invoker extends EventListener {
   value: EventValue;
+  attached: number;
 }
 
-type EventValue = Function;
+// an array when several listeners are merged, e.g. by `mergeProps`
+type EventValue = Function | Function[];
 
-export function addEventListener(el: Element, event: string, handler: EventListener): void {
-  el.addEventListener(event, handler);
+export function addEventListener(
+  el: Element,
+  event: string,
+  handler: EventListener,
+  options?: EventListenerOptions,
+): void {
+  el.addEventListener(event, handler, options);
 }
 
-export function removeEventListener(el: Element, event: string, handler: EventListener): void {
-  el.removeEventListener(event, handler);
+export function removeEventListener(
+  el: Element,
+  event: string,
+  handler: EventListener,
+  options?: EventListenerOptions,
+): void {
+  el.removeEventListener(event, handler, options);
 }
 
 export function patchEvent(
   el: Element & { _vei?: Record<string, Invoker | undefined> },
   rawName: string,
   nextValue: EventValue | null,
+  instance: ComponentInternalInstance | null = null,
 ): void {
   // vei = vue event invokers
   const invokers = el._vei || (el._vei = {});
@@ -24,27 +44,76 @@ export function patchEvent(
     // patch
     existingInvoker.value = nextValue;
   } else {
-    const name = parseName(rawName);
+    const [name, options] = parseName(rawName);
     if (nextValue) {
       // add
-      const invoker = (invokers[rawName] = createInvoker(nextValue));
-      addEventListener(el, name, invoker);
+      const invoker = (invokers[rawName] = createInvoker(nextValue, instance));
+      addEventListener(el, name, invoker, options);
     } else if (existingInvoker) {
       // remove
-      removeEventListener(el, name, existingInvoker);
+      removeEventListener(el, name, existingInvoker, options);
       invokers[rawName] = undefined;
     }
   }
 }
 
-function parseName(rawName: string): string {
-  return rawName.slice(2).toLocaleLowerCase();
+const optionsModifierRE = /(?:Once|Passive|Capture)$/;
+
+// onClickOnceCapture -> ["click", { once: true, capture: true }]
+function parseName(name: string): [string, EventListenerOptions | undefined] {
+  let options: EventListenerOptions | undefined;
+  if (optionsModifierRE.test(name)) {
+    options = {};
+    let m;
+    while ((m = name.match(optionsModifierRE))) {
+      name = name.slice(0, name.length - m[0].length);
+      (options as any)[m[0].toLowerCase()] = true;
+    }
+  }
+  return [name.slice(2).toLocaleLowerCase(), options];
 }
 
-function createInvoker(initialValue: EventValue) {
+// To avoid the overhead of repeatedly calling Date.now(), we cache
+// and use the same timestamp for all event listeners attached in the same tick.
+let cachedNow: number = 0;
+const p = /*@__PURE__*/ Promise.resolve();
+const getNow = () => cachedNow || (p.then(() => (cachedNow = 0)), (cachedNow = Date.now()));
+
+function createInvoker(initialValue: EventValue, instance: ComponentInternalInstance | null) {
   const invoker: Invoker = (e: Event & { _vts?: number }) => {
-    invoker.value(e);
+    // an event handler may patch the DOM and attach a listener to an element
+    // the event has not reached yet (e.g. an ancestor). browsers run
+    // microtasks between propagation steps, so that listener would fire for
+    // the event that caused it to be attached. the event is stamped the first
+    // time a listener sees it, and listeners attached after that ignore it.
+    if (!e._vts) {
+      e._vts = Date.now();
+    } else if (e._vts <= invoker.attached) {
+      return;
+    }
+    callWithAsyncErrorHandling(
+      patchStopImmediatePropagation(e, invoker.value),
+      instance,
+      ErrorCodes.NATIVE_EVENT_HANDLER,
+      [e],
+    );
   };
   invoker.value = initialValue;
+  invoker.attached = getNow();
   return invoker;
 }
+
+// all handlers of an array share one native listener, so
+// `stopImmediatePropagation()` has to skip the remaining handlers as well
+function patchStopImmediatePropagation(e: Event, value: EventValue): EventValue {
+  if (isArray(value)) {
+    const originalStop = e.stopImmediatePropagation;
+    e.stopImmediatePropagation = () => {
+      originalStop.call(e);
+      (e as any)._stopped = true;
+    };
+    return value.map((fn) => (e: Event) => !(e as any)._stopped && fn && fn(e));
+  } else {
+    return value;
+  }
+}
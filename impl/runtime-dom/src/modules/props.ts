@@ -0,0 +1,60 @@
+import { warn } from "@chibivue/runtime-core";
+import { includeBooleanAttr } from "@chibivue/shared";
+
+// __UNSAFE__
+// Reason: potentially setting innerHTML.
+// This can come from explicit usage of v-html or innerHTML as a prop in render
+// functions. The user is responsible for using them with only trusted content.
+export function patchDOMProp(el: any, key: string, value: any): void {
+  if (key === "innerHTML" || key === "textContent") {
+    if (value != null) {
+      el[key] = value;
+    }
+    return;
+  }
+
+  const tag = el.tagName;
+
+  if (key === "value" && tag !== "PROGRESS" && !tag.includes("-")) {
+    // <option> falls back to its text content when it has no value, so compare
+    // against the attribute instead
+    const oldValue = tag === "OPTION" ? el.getAttribute("value") || "" : el.value;
+    const newValue = value == null ? (el.type === "checkbox" ? "on" : "") : String(value);
+    if (oldValue !== newValue || !("_value" in el)) {
+      el.value = newValue;
+    }
+    if (value == null) {
+      el.removeAttribute(key);
+    }
+    // store the raw value as well, since the DOM property stringifies it
+    el._value = value;
+    return;
+  }
+
+  let needRemove = false;
+  if (value === "" || value == null) {
+    const type = typeof el[key];
+    if (type === "boolean") {
+      // e.g. <select multiple> compiles to { multiple: '' }
+      value = includeBooleanAttr(value);
+    } else if (value == null && type === "string") {
+      // e.g. <div :id="null">
+      value = "";
+      needRemove = true;
+    } else if (type === "number") {
+      // e.g. <img :width="null">
+      value = 0;
+      needRemove = true;
+    }
+  }
+
+  try {
+    el[key] = value;
+  } catch (e) {
+    // some properties are read-only or only accept certain values
+    if (!needRemove) {
+      warn(`Failed setting prop "${key}" on <${tag.toLowerCase()}>: value ${value} is invalid.`, e);
+    }
+  }
+  needRemove && el.removeAttribute(key);
+}
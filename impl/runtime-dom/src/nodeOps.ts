@@ -1,8 +1,17 @@
 import type { RendererOptions } from "@chibivue/runtime-core";
 
+export const svgNS = "http://www.w3.org/2000/svg";
+export const mathmlNS = "http://www.w3.org/1998/Math/MathML";
+
+let templateContainer: HTMLTemplateElement | undefined;
+
 export const nodeOps: Omit<RendererOptions, "patchProp"> = {
-  createElement: (tagName) => {
-    return document.createElement(tagName);
+  createElement: (tagName, namespace) => {
+    return namespace === "svg"
+      ? document.createElementNS(svgNS, tagName)
+      : namespace === "mathml"
+        ? document.createElementNS(mathmlNS, tagName)
+        : document.createElement(tagName);
   },
 
   createText: (text: string) => {
@@ -43,4 +52,47 @@ export const nodeOps: Omit<RendererOptions, "patchProp"> = {
   querySelector: (selector) => {
     return document.querySelector(selector);
   },
+
+  // __UNSAFE__
+  // Reason: innerHTML.
+  // Static content here can only come from compiled templates.
+  // As long as the user only uses trusted templates, this is safe.
+  insertStaticContent(content, parent, anchor, namespace, start, end) {
+    // <parent> before | first ... last | anchor </parent>
+    const before = anchor ? anchor.previousSibling : parent.lastChild;
+    if (start && (start === end || start.nextSibling)) {
+      // cached: the same static content was mounted before, clone its nodes
+      while (true) {
+        parent.insertBefore(start!.cloneNode(true), anchor);
+        if (start === end || !(start = start!.nextSibling)) break;
+      }
+    } else {
+      // fresh insert
+      const template = (templateContainer ||= document.createElement("template"));
+      // parse SVG / MathML content inside a wrapper so that the elements are
+      // created in the right namespace
+      template.innerHTML =
+        namespace === "svg"
+          ? `<svg>${content}</svg>`
+          : namespace === "mathml"
+            ? `<math>${content}</math>`
+            : content;
+      const fragment = template.content;
+      if (namespace === "svg" || namespace === "mathml") {
+        // remove outer wrapper
+        const wrapper = fragment.firstChild!;
+        while (wrapper.firstChild) {
+          fragment.appendChild(wrapper.firstChild);
+        }
+        fragment.removeChild(wrapper);
+      }
+      parent.insertBefore(fragment, anchor);
+    }
+    return [
+      // first
+      before ? before.nextSibling! : parent.firstChild!,
+      // last
+      anchor ? anchor.previousSibling! : parent.lastChild!,
+    ];
+  },
 };
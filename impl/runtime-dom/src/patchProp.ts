@@ -1,20 +1,109 @@
-import { isOn } from "@chibivue/shared";
+import { isFunction, isOn, isString } from "@chibivue/shared";
 import { patchEvent } from "./modules/events";
 import type { RendererOptions } from "@chibivue/runtime-core";
 import { patchAttr } from "./modules/attrs";
+import { patchClass } from "./modules/class";
+import { patchDOMProp } from "./modules/props";
 import { patchStyle } from "./modules/style";
 
 type DOMRendererOptions = RendererOptions<Node, Element>;
 
-export const patchProp: DOMRendererOptions["patchProp"] = (el, key, prevValue, nextValue) => {
-  // if (key === "class") {
-  //   // TODO: patch class
-  // }
-  if (key === "style") {
+// onclick, onmousedown, ... (but not onClick)
+const isNativeOn = (key: string) =>
+  key.charCodeAt(0) === 111 /* o */ &&
+  key.charCodeAt(1) === 110 /* n */ &&
+  // lowercase letter
+  key.charCodeAt(2) > 96 &&
+  key.charCodeAt(2) < 123;
+
+export const patchProp: DOMRendererOptions["patchProp"] = (
+  el,
+  key,
+  prevValue,
+  nextValue,
+  namespace,
+  parentComponent,
+) => {
+  const isSVG = namespace === "svg";
+  if (key === "class") {
+    patchClass(el, nextValue, isSVG);
+  } else if (key === "style") {
     patchStyle(el, prevValue, nextValue);
   } else if (isOn(key)) {
-    patchEvent(el, key, nextValue);
+    patchEvent(el, key, nextValue, parentComponent);
+  } else if (
+    // `.prop` and `^attr` are added by the `.prop` / `.attr` modifiers of v-bind
+    key[0] === "."
+      ? ((key = key.slice(1)), true)
+      : key[0] === "^"
+        ? ((key = key.slice(1)), false)
+        : shouldSetAsProp(el, key, nextValue, isSVG)
+  ) {
+    patchDOMProp(el, key, nextValue);
+    // form state is mirrored to the attribute as well, so that it works with
+    // <input type="reset"> and with CSS attribute selectors
+    if (!el.tagName.includes("-") && (key === "value" || key === "checked" || key === "selected")) {
+      patchAttr(el, key, nextValue, isSVG, key !== "value");
+    }
   } else {
-    patchAttr(el, key, nextValue);
+    // <input type="checkbox" v-model> reads :true-value / :false-value back
+    // from these properties, since attributes would stringify them
+    if (key === "true-value") {
+      (el as any)._trueValue = nextValue;
+    } else if (key === "false-value") {
+      (el as any)._falseValue = nextValue;
+    }
+    patchAttr(el, key, nextValue, isSVG);
   }
 };
+
+function shouldSetAsProp(el: Element, key: string, value: unknown, isSVG: boolean): boolean {
+  if (isSVG) {
+    // most keys must be set as attributes on svg elements to work,
+    // except innerHTML & textContent
+    if (key === "innerHTML" || key === "textContent") {
+      return true;
+    }
+    // or native onclick with a function value
+    if (key in el && isNativeOn(key) && isFunction(value)) {
+      return true;
+    }
+    return false;
+  }
+
+  // these are enumerated attributes whose DOM properties are booleans, so
+  // the string "false" would be coerced to `true`
+  if (key === "spellcheck" || key === "draggable" || key === "translate") {
+    return false;
+  }
+
+  // the form property of form elements is read-only
+  if (key === "form") {
+    return false;
+  }
+
+  // <input list> must be set as attribute
+  if (key === "list" && el.tagName === "INPUT") {
+    return false;
+  }
+
+  // <textarea type> must be set as attribute
+  if (key === "type" && el.tagName === "TEXTAREA") {
+    return false;
+  }
+
+  // the width / height properties of embedded content only accept pixels
+  if (key === "width" || key === "height") {
+    const tag = el.tagName;
+    if (tag === "IMG" || tag === "VIDEO" || tag === "CANVAS" || tag === "SOURCE") {
+      return false;
+    }
+  }
+
+  // native onclick with a string value must be set as attribute
+  if (isNativeOn(key) && isString(value)) {
+    return false;
+  }
+
+  return key in el;
+}
@@ -2,6 +2,7 @@ import {
   isArray,
   isFunction,
   isOn,
+  isSVGTag,
   isString,
   normalizeClass,
   normalizeStyle,
@@ -122,14 +123,3 @@ const unsafeAttrCharRE = /[>/="'\u0009\u000a\u000c\u0020]/;
 function isSSRSafeAttrName(name: string): boolean {
   return !unsafeAttrCharRE.test(name);
 }
-
-// SVG tags
-const SVG_TAGS = new Set(
-  "svg,animate,animateMotion,animateTransform,circle,clipPath,color-profile,defs,desc,discard,ellipse,feBlend,feColorMatrix,feComponentTransfer,feComposite,feConvolveMatrix,feDiffuseLighting,feDisplacementMap,feDistantLight,feDropShadow,feFlood,feFuncA,feFuncB,feFuncG,feFuncR,feGaussianBlur,feImage,feMerge,feMergeNode,feMorphology,feOffset,fePointLight,feSpecularLighting,feSpotLight,feTile,feTurbulence,filter,foreignObject,g,hatch,hatchpath,image,line,linearGradient,marker,mask,mesh,meshgradient,meshpatch,meshrow,metadata,mpath,path,pattern,polygon,polyline,radialGradient,rect,set,solidcolor,stop,switch,symbol,text,textPath,title,tspan,unknown,use,view".split(
-    ",",
-  ),
-);
-
-function isSVGTag(tag: string): boolean {
-  return SVG_TAGS.has(tag);
-}
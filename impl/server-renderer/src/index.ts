@@ -1,6 +1,14 @@
 // public
 export type { SSRContext } from "./render";
 export { renderToString } from "./renderToString";
+export {
+  type SimpleReadable,
+  renderToSimpleStream,
+  renderToNodeStream,
+  pipeToWritable,
+  renderToWebStream,
+  pipeToWebWritable,
+} from "./renderToStream";
 
 // vapor SSR
 export { renderVaporComponentToString, ssrVaporTemplate, ssrVaporSetText } from "./renderVapor";
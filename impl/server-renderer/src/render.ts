@@ -4,6 +4,7 @@ import {
   type ComponentInternalInstance,
   type DirectiveBinding,
   Fragment,
+  Static,
   Text,
   type VNode,
   type VNodeArrayChildren,
@@ -11,6 +12,7 @@ import {
   mergeProps,
   createComponentInstance,
   setupComponent,
+  inheritAttrs,
   setCurrentInstance,
   unsetCurrentInstance,
   normalizeVNode,
@@ -65,7 +67,7 @@ export function renderComponentVNode(
   parentComponent: ComponentInternalInstance | null = null,
 ): SSRBuffer | Promise<SSRBuffer> {
   const instance = (vnode.component = createComponentInstance(vnode, parentComponent));
-  const res = setupComponent(instance);
+  const res = setupComponent(instance, true /* isSSR */);
   const hasAsyncSetup = isPromise(res);
 
   if (hasAsyncSetup) {
@@ -85,7 +87,7 @@ function renderComponentSubTree(
     const root = comp(instance.props, {
       slots: instance.slots,
       emit: instance.emit,
-      attrs: {},
+      attrs: instance.attrs,
     });
     if (root) {
       renderVNode(push, normalizeVNode(root), instance);
@@ -94,16 +96,11 @@ function renderComponentSubTree(
     const prev = setCurrentInstance(instance);
     try {
       const root = instance.render(instance.proxy!, instance.data, instance.ctx);
-      if (root) {
-        instance.subTree = normalizeVNode(root);
-        renderVNode(push, instance.subTree, instance);
-      }
+      instance.subTree = inheritAttrs(instance, normalizeVNode(root));
+      renderVNode(push, instance.subTree, instance);
     } finally {
       unsetCurrentInstance();
     }
-  } else {
-    console.warn(`Component is missing render function.`);
-    push(`<!---->`);
   }
 
   return getBuffer();
@@ -127,6 +124,9 @@ export function renderVNode(
     case Comment:
       push(children ? `<!--${escapeHtmlComment(children as string)}-->` : `<!---->`);
       break;
+    case Static:
+      push(children as string);
+      break;
     case Fragment:
       push(`<!--[-->`);
       renderVNodeChildren(push, children as VNodeArrayChildren, parentComponent);
@@ -139,6 +139,9 @@ export function renderVNode(
         push(renderComponentVNode(vnode, parentComponent));
       } else if (shapeFlag & ShapeFlags.TELEPORT) {
         renderTeleportVNode(push, vnode, parentComponent);
+      } else if (shapeFlag & ShapeFlags.SUSPENSE) {
+        // async deps are awaited by the buffer, so only the resolved content is rendered
+        renderVNode(push, vnode.ssContent!, parentComponent);
       }
   }
 }
@@ -232,12 +235,10 @@ function renderTeleportVNode(
     return;
   }
 
-  // For disabled teleport, render children inline
+  push(`<!--teleport start-->`);
+  // For disabled teleport, render children inline between the placeholders
   if (disabled) {
     renderVNodeChildren(push, vnode.children as VNodeArrayChildren, parentComponent);
-  } else {
-    // For enabled teleport, we render a placeholder comment
-    push(`<!--teleport start-->`);
-    push(`<!--teleport end-->`);
   }
+  push(`<!--teleport end-->`);
 }
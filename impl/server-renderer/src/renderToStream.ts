@@ -0,0 +1,184 @@
+import type { Readable, Writable } from "node:stream";
+import { type App, type VNode, createVNode, isVNode } from "@chibivue/runtime-core";
+import { isPromise, isString } from "@chibivue/shared";
+import { type SSRBuffer, type SSRContext, renderComponentVNode } from "./render";
+
+export interface SimpleReadable {
+  push(chunk: string | null): void;
+  destroy(err: any): void;
+}
+
+// Flushes every string in the buffer to the stream in order, waiting on async
+// items as it reaches them so that everything before them is sent right away.
+async function unrollBuffer(buffer: SSRBuffer, stream: SimpleReadable): Promise<void> {
+  if (buffer.hasAsync) {
+    for (let i = 0; i < buffer.length; i++) {
+      let item = buffer[i];
+      if (isPromise(item)) {
+        item = await item;
+      }
+      if (isString(item)) {
+        stream.push(item);
+      } else {
+        await unrollBuffer(item, stream);
+      }
+    }
+  } else {
+    // sync buffer can be more efficiently unrolled without unnecessary await
+    // ticks
+    unrollBufferSync(buffer, stream);
+  }
+}
+
+function unrollBufferSync(buffer: SSRBuffer, stream: SimpleReadable): void {
+  for (let i = 0; i < buffer.length; i++) {
+    const item = buffer[i];
+    if (isString(item)) {
+      stream.push(item);
+    } else {
+      unrollBufferSync(item as SSRBuffer, stream);
+    }
+  }
+}
+
+export function renderToSimpleStream<T extends SimpleReadable>(
+  input: App | VNode,
+  context: SSRContext,
+  stream: T,
+): T {
+  let vnode: VNode;
+  if (isVNode(input)) {
+    // raw vnode, wrap with app
+    vnode = createVNode({ render: () => input });
+  } else {
+    // rendering an app
+    vnode = createVNode(input._component, input._props);
+    vnode.appContext = input._context;
+  }
+
+  let rendered: ReturnType<typeof renderComponentVNode>;
+  try {
+    rendered = renderComponentVNode(vnode);
+  } catch (error) {
+    // errors thrown while setting up the root go to the stream as well
+    stream.destroy(error);
+    return stream;
+  }
+
+  Promise.resolve(rendered)
+    .then((buffer) => unrollBuffer(buffer, stream))
+    .then(() => {
+      if (context.__watcherHandles) {
+        for (const unwatch of context.__watcherHandles) {
+          unwatch();
+        }
+      }
+    })
+    .then(() => stream.push(null))
+    .catch((error) => {
+      stream.destroy(error);
+    });
+
+  return stream;
+}
+
+export function renderToNodeStream(input: App | VNode, context: SSRContext = {}): Readable {
+  // `node:stream` is loaded here, so that the web stream APIs of this module
+  // do not depend on Node.js
+  const stream =
+    typeof process !== "undefined" && process.getBuiltinModule
+      ? process.getBuiltinModule("node:stream")
+      : undefined;
+  if (!stream) {
+    throw new Error(
+      `renderToNodeStream() is only available in Node.js. ` +
+        `Use pipeToWritable() with an existing Node.js Writable stream, ` +
+        `or renderToWebStream() in other environments instead.`,
+    );
+  }
+  return renderToSimpleStream(input, context, new stream.Readable({ read() {} }));
+}
+
+export function pipeToWritable(
+  input: App | VNode,
+  context: SSRContext = {},
+  writable: Writable,
+): void {
+  renderToSimpleStream(input, context, {
+    push(content) {
+      if (content != null) {
+        writable.write(content);
+      } else {
+        writable.end();
+      }
+    },
+    destroy(err) {
+      writable.destroy(err);
+    },
+  });
+}
+
+export function renderToWebStream(
+  input: App | VNode,
+  context: SSRContext = {},
+): ReadableStream<Uint8Array> {
+  if (typeof ReadableStream !== "function") {
+    throw new Error(
+      `ReadableStream constructor is not available in the global scope. ` +
+        `If the target environment does support web streams, consider using ` +
+        `pipeToWebWritable() with an existing WritableStream instance instead.`,
+    );
+  }
+
+  const encoder = new TextEncoder();
+  let cancelled = false;
+
+  return new ReadableStream({
+    start(controller) {
+      renderToSimpleStream(input, context, {
+        push(content) {
+          if (cancelled) return;
+          if (content != null) {
+            controller.enqueue(encoder.encode(content));
+          } else {
+            controller.close();
+          }
+        },
+        destroy(err) {
+          controller.error(err);
+        },
+      });
+    },
+    cancel() {
+      cancelled = true;
+    },
+  });
+}
+
+export function pipeToWebWritable(
+  input: App | VNode,
+  context: SSRContext = {},
+  writable: WritableStream,
+): void {
+  const writer = writable.getWriter();
+  const encoder = new TextEncoder();
+
+  // some runtimes (e.g. Cloudflare Workers) do not implement `ready`
+  const hasReady = isPromise(writer.ready);
+
+  renderToSimpleStream(input, context, {
+    async push(content) {
+      if (hasReady) {
+        await writer.ready;
+      }
+      if (content != null) {
+        return writer.write(encoder.encode(content));
+      } else {
+        return writer.close();
+      }
+    },
+    destroy(err) {
+      writer.abort(err);
+    },
+  });
+}
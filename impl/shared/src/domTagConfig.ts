@@ -12,7 +12,30 @@ const HTML_TAGS =
   "option,output,progress,select,textarea,details,dialog,menu," +
   "summary,template,blockquote,iframe,tfoot";
 
+// https://developer.mozilla.org/en-US/docs/Web/SVG/Element
+const SVG_TAGS =
+  "svg,animate,animateMotion,animateTransform,circle,clipPath,color-profile," +
+  "defs,desc,discard,ellipse,feBlend,feColorMatrix,feComponentTransfer," +
+  "feComposite,feConvolveMatrix,feDiffuseLighting,feDisplacementMap," +
+  "feDistantLight,feDropShadow,feFlood,feFuncA,feFuncB,feFuncG,feFuncR," +
+  "feGaussianBlur,feImage,feMerge,feMergeNode,feMorphology,feOffset," +
+  "fePointLight,feSpecularLighting,feSpotLight,feTile,feTurbulence,filter," +
+  "foreignObject,g,hatch,hatchpath,image,line,linearGradient,marker,mask," +
+  "mesh,meshgradient,meshpatch,meshrow,metadata,mpath,path,pattern," +
+  "polygon,polyline,radialGradient,rect,set,solidcolor,stop,switch,symbol," +
+  "text,textPath,title,tspan,unknown,use,view";
+
+// https://www.w3.org/TR/mathml4/ (content elements excluded)
+const MATH_TAGS =
+  "annotation,annotation-xml,maction,maligngroup,malignmark,math,menclose," +
+  "merror,mfenced,mfrac,mfraction,mglyph,mi,mlabeledtr,mlongdiv," +
+  "mmultiscripts,mn,mo,mover,mpadded,mphantom,mprescripts,mroot,mrow,ms," +
+  "mscarries,mscarry,msgroup,msline,mspace,msqrt,msrow,mstack,mstyle,msub," +
+  "msubsup,msup,mtable,mtd,mtext,mtr,munder,munderover,none,semantics";
+
 const VOID_TAGS = "area,base,br,col,embed,hr,img,input,link,meta,param,source,track,wbr";
 
 export const isHTMLTag: (key: string) => boolean = /*#__PURE__*/ makeMap(HTML_TAGS);
+export const isSVGTag: (key: string) => boolean = /*#__PURE__*/ makeMap(SVG_TAGS);
+export const isMathMLTag: (key: string) => boolean = /*#__PURE__*/ makeMap(MATH_TAGS);
 export const isVoidTag: (key: string) => boolean = /*#__PURE__*/ makeMap(VOID_TAGS);
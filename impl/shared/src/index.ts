@@ -9,6 +9,10 @@ export * from "./makeMap";
 export * from "./domTagConfig";
 export * from "./domAttrConfig";
 export * from "./escapeHtml";
+export * from "./codeframe";
+export * from "./looseEqual";
+
+export const NOOP = (): void => {};
 
 const onRE = /^on[^a-z]/;
 export const isOn = (key: string): boolean => onRE.test(key);
@@ -20,6 +24,7 @@ export const hasOwn = (val: object, key: string | symbol): key is keyof typeof v
 export const isArray: typeof Array.isArray = Array.isArray;
 export const isMap = (val: unknown): val is Map<any, any> => toTypeString(val) === "[object Map]";
 export const isSet = (val: unknown): val is Set<any> => toTypeString(val) === "[object Set]";
+export const isDate = (val: unknown): val is Date => toTypeString(val) === "[object Date]";
 
 export const isFunction = (val: unknown): val is Function => typeof val === "function";
 export const isString = (val: unknown): val is string => typeof val === "string";
@@ -62,6 +67,15 @@ export const toHandlerKey = (str: string): string => (str ? `on${capitalize(str)
 
 export const hasChanged = (value: any, oldValue: any): boolean => !Object.is(value, oldValue);
 
+/**
+ * "123-foo" will be parsed to 123
+ * This is used for the .number modifier in v-model
+ */
+export const looseToNumber = (val: any): any => {
+  const n = parseFloat(val);
+  return isNaN(n) ? val : n;
+};
+
 export const invokeArrayFns = (fns: Function[], arg?: any): void => {
   for (let i = 0; i < fns.length; i++) {
     fns[i](arg);
@@ -8,5 +8,6 @@ export const enum ShapeFlags {
   TELEPORT = 1 << 6,
   COMPONENT_SHOULD_KEEP_ALIVE = 1 << 7,
   COMPONENT_KEPT_ALIVE = 1 << 8,
+  SUSPENSE = 1 << 9,
   COMPONENT = ShapeFlags.STATEFUL_COMPONENT | ShapeFlags.FUNCTIONAL_COMPONENT,
 }